@@ -0,0 +1,164 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Bell, BellRing, Plus, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertList } from "@/components/alert-list"
+import { useAlerts } from "@/components/alerts-provider"
+import { useMarketList } from "@/components/market-data-provider"
+import { PriceAlertDialog } from "@/components/price-alert-dialog"
+import { useCoinQuotes } from "@/hooks/use-coin-quotes"
+import { formatters } from "@/lib/api-utils"
+import type { AlertRule } from "@/lib/alerts"
+
+export default function AlertsPage() {
+  // New alerts start in the currency prices are shown in elsewhere
+  const [currency] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("preferred-currency") || "usd"
+    }
+    return "usd"
+  })
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<AlertRule | undefined>()
+
+  const { alerts, history, clearHistory, notifications, setNotifications } = useAlerts()
+  const coinIds = [...new Set(alerts.map((alert) => alert.coinId))]
+  const market = useMarketList(currency)
+  const { quotes } = useCoinQuotes(coinIds, currency)
+
+  const nameOf = (id: string) => quotes[id]?.name ?? id.charAt(0).toUpperCase() + id.slice(1)
+
+  const openDialog = (alert?: AlertRule) => {
+    setEditing(alert)
+    setDialogOpen(true)
+  }
+
+  // Grouped by coin, in the order the coins were first alerted on
+  const sortedAlerts = [...alerts].sort((a, b) => coinIds.indexOf(a.coinId) - coinIds.indexOf(b.coinId))
+
+  return (
+    <div className="container py-6 md:py-10">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to all cryptocurrencies
+        </Link>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <Bell className="h-7 w-7" />
+            Price Alerts
+          </h1>
+          <p className="text-muted-foreground">
+            Alerts are checked every minute while the app is open in a tab.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="alert-notifications" checked={notifications} onCheckedChange={setNotifications} />
+            <Label htmlFor="alert-notifications">Browser notifications</Label>
+          </div>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New alert
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Alerts</CardTitle>
+          <CardDescription>
+            A firing alert shows a notification, then waits out its cooldown before it can fire again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <div className="flex flex-col items-center gap-4 py-8 text-center">
+              <Bell className="h-10 w-10 text-muted-foreground" />
+              <div>
+                <p className="font-medium">No alerts yet</p>
+                <p className="text-sm text-muted-foreground">
+                  Add one here or from a coin&apos;s page to hear about price moves.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <AlertList alerts={sortedAlerts} onEdit={openDialog} coinName={nameOf} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>History</CardTitle>
+            <CardDescription>
+              The last {history.length === 1 ? "alert" : `${history.length} alerts`} fired.
+            </CardDescription>
+          </div>
+          {history.length > 0 && (
+            <Button variant="outline" size="sm" onClick={clearHistory}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear history
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+              <BellRing className="h-8 w-8" />
+              <p className="text-sm">Nothing has fired yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Coin</TableHead>
+                  <TableHead>Alert</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.triggeredAt).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/crypto/${event.coinId}`} className="hover:underline">
+                        {event.coinName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{event.message}</TableCell>
+                    <TableCell className="text-right">{formatters.currency(event.price, event.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PriceAlertDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        alert={editing}
+        currency={currency}
+        known={market.data}
+        coinName={nameOf}
+      />
+    </div>
+  )
+}
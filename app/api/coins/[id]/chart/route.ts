@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server"
+import { getChart, getChartRange, MarketDataRequestError, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/coins/bitcoin/chart?currency=usd&days=7 (or days=max)
+// GET /api/coins/bitcoin/chart?currency=usd&from=1704067200000&to=1706745600000
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = request.nextUrl
+  const currency = searchParams.get("currency") ?? "usd"
+  const from = searchParams.get("from")
+  const to = searchParams.get("to")
+  const options = readOptions(searchParams)
+
+  return respond(async () => {
+    if (from === null && to === null) return getChart(id, currency, searchParams.get("days") ?? "7", options)
+    // A window needs a start; `to` defaults to now
+    if (!from) throw new MarketDataRequestError("Missing start date")
+    return getChartRange(id, currency, Number(from), Number(to || Date.now()), options)
+  })
+}
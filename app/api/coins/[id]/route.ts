@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server"
+import { getCoin, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/coins/bitcoin?currency=usd
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = request.nextUrl
+  return respond(() => getCoin(id, searchParams.get("currency") ?? "usd", readOptions(searchParams)))
+}
@@ -0,0 +1,19 @@
+import type { NextRequest } from "next/server"
+import { getConsensus, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/consensus?ids=bitcoin,ethereum&currency=usd&threshold=1
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const threshold = searchParams.get("threshold")
+
+  return respond(() =>
+    getConsensus(
+      (searchParams.get("ids") ?? "").split(","),
+      searchParams.get("currency") ?? "usd",
+      threshold === null ? undefined : Number(threshold),
+      readOptions(searchParams),
+    ),
+  )
+}
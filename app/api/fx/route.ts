@@ -0,0 +1,9 @@
+import type { NextRequest } from "next/server"
+import { getExchangeRates, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/fx
+export async function GET(request: NextRequest) {
+  return respond(() => getExchangeRates(readOptions(request.nextUrl.searchParams)))
+}
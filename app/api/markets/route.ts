@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server"
+import { getMarkets, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/markets?currency=usd
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  return respond(() => getMarkets(searchParams.get("currency") ?? "usd", readOptions(searchParams)))
+}
@@ -0,0 +1,12 @@
+import type { NextRequest } from "next/server"
+import { getPrices, readOptions, respond } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/prices?ids=bitcoin,ethereum&currency=usd
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  return respond(() =>
+    getPrices((searchParams.get("ids") ?? "").split(","), searchParams.get("currency") ?? "usd", readOptions(searchParams)),
+  )
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server"
+import { readOptions, respond, searchCoins } from "@/lib/market-data"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/search?q=bit
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  return respond(() => searchCoins(searchParams.get("q") ?? "", readOptions(searchParams)))
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { getProvider, getStatusReport, probeProvider } from "@/lib/providers/registry"
+import type { ProviderId } from "@/lib/providers/types"
+
+export const dynamic = "force-dynamic"
+
+// POST /api/status/coingecko/probe
+export async function POST(_request: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params
+  const id = provider as ProviderId
+
+  if (!getProvider(id)) {
+    return NextResponse.json({ error: `Unknown provider "${provider}"` }, { status: 404 })
+  }
+
+  await probeProvider(id)
+  return NextResponse.json({ provider: getStatusReport().find((report) => report.id === id) ?? null })
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { getStatusReport } from "@/lib/providers/registry"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/status
+export async function GET() {
+  return NextResponse.json({ providers: getStatusReport(), generatedAt: Date.now() })
+}
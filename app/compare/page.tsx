@@ -0,0 +1,421 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertTriangle, ArrowLeft, GitCompareArrows, X } from "lucide-react"
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CoinPicker, type PickedCoin } from "@/components/coin-picker"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import { useChartDataSet, useMarketList } from "@/components/market-data-provider"
+import { formatters } from "@/lib/api-utils"
+import type { PriceSeries } from "@/lib/models"
+import { performanceStats } from "@/lib/performance"
+
+const STORAGE_KEY = "compare-coins"
+const MAX_COINS = 5
+const COLORS = ["#8884d8", "#f97316", "#22c55e", "#0ea5e9", "#d946ef"]
+const DEFAULT_COINS: PickedCoin[] = [
+  { id: "bitcoin", name: "Bitcoin", symbol: "btc" },
+  { id: "ethereum", name: "Ethereum", symbol: "eth" },
+]
+const DAY = 24 * 60 * 60 * 1000
+
+type CompareMode = "price" | "percent"
+
+type CompareRow = { timestamp: number; date: string } & Record<string, number | string | undefined>
+
+function formatDate(timestamp: number, span: number): string {
+  const date = new Date(timestamp)
+  if (span <= 7 * DAY) return date.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })
+  if (span <= 90 * DAY) return date.toLocaleDateString([], { month: "short", day: "numeric" })
+  return date.toLocaleDateString([], { month: "short", year: "numeric" })
+}
+
+/**
+ * Coins from `?ids=` when linked from elsewhere, otherwise the last comparison
+ */
+function initialCoins(): PickedCoin[] {
+  if (typeof window === "undefined") return DEFAULT_COINS
+
+  const ids = new URLSearchParams(window.location.search).get("ids")
+  if (ids) {
+    return ids
+      .split(",")
+      .filter(Boolean)
+      .slice(0, MAX_COINS)
+      .map((id) => ({ id, name: id.charAt(0).toUpperCase() + id.slice(1), symbol: "" }))
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) return JSON.parse(stored)
+  } catch (error) {
+    console.error("Error reading compared coins:", error)
+  }
+  return DEFAULT_COINS
+}
+
+/**
+ * Join every series onto the grid of the one reaching furthest back, taking each coin's
+ * latest price at or before a grid point, so series sampled at different intervals line up
+ */
+function alignSeries(series: { id: string; prices: [number, number][] }[]): CompareRow[] {
+  const available = series.filter(({ prices }) => prices.length > 0)
+  if (available.length === 0) return []
+
+  const grid = available.reduce((best, current) =>
+    current.prices[0][0] < best.prices[0][0] ||
+    (current.prices[0][0] === best.prices[0][0] && current.prices.length > best.prices.length)
+      ? current
+      : best,
+  ).prices
+  const span = grid[grid.length - 1][0] - grid[0][0]
+  const cursors = available.map(() => 0)
+
+  return grid.map(([timestamp]) => {
+    const row: CompareRow = { timestamp, date: formatDate(timestamp, span) }
+    available.forEach(({ id, prices }, index) => {
+      while (cursors[index] + 1 < prices.length && prices[cursors[index] + 1][0] <= timestamp) cursors[index]++
+      const [time, value] = prices[cursors[index]]
+      if (time <= timestamp) row[id] = value
+    })
+    return row
+  })
+}
+
+/**
+ * Change from each coin's first price in the range, in %
+ */
+function normalize(rows: CompareRow[], ids: string[]): CompareRow[] {
+  const first: Record<string, number> = {}
+  return rows.map((row) => {
+    const normalized: CompareRow = { timestamp: row.timestamp, date: row.date }
+    for (const id of ids) {
+      const value = row[id]
+      if (typeof value !== "number") continue
+      first[id] ??= value
+      normalized[id] = first[id] ? (value / first[id] - 1) * 100 : 0
+    }
+    return normalized
+  })
+}
+
+/**
+ * Points inside the span every loaded coin covers, so stats are measured over the same period
+ */
+function sharedWindow(series: PriceSeries[]): [number, number] | null {
+  if (series.length === 0) return null
+  const start = Math.max(...series.map(({ prices }) => prices[0][0]))
+  const end = Math.min(...series.map(({ prices }) => prices[prices.length - 1][0]))
+  return start < end ? [start, end] : null
+}
+
+export default function ComparePage() {
+  const [currency, setCurrency] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("preferred-currency") || "usd"
+    }
+    return "usd"
+  })
+  const [coins, setCoins] = useState<PickedCoin[]>(initialCoins)
+  const [timeRange, setTimeRange] = useState("30")
+  const [mode, setMode] = useState<CompareMode>("percent")
+
+  const ids = coins.map((coin) => coin.id)
+  const market = useMarketList(currency)
+  const charts = useChartDataSet(ids, currency, timeRange)
+
+  useEffect(() => {
+    localStorage.setItem("preferred-currency", currency)
+  }, [currency])
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(coins))
+  }, [coins])
+
+  // Coins linked by id alone pick up their names and images once the market list has them
+  const displayCoins = coins.map((coin) => {
+    const known = market.data?.find((item) => item.id === coin.id)
+    return known ? { ...coin, name: known.name, symbol: known.symbol, image: known.image ?? coin.image } : coin
+  })
+
+  const loaded = ids.filter((id) => charts[id]?.data)
+  const loading = ids.some((id) => charts[id]?.loading)
+  const errors = displayCoins.filter((coin) => charts[coin.id]?.error)
+
+  const aligned = alignSeries(loaded.map((id) => ({ id, prices: charts[id].data!.prices })))
+  const rows = mode === "percent" ? normalize(aligned, loaded) : aligned
+  const shared = sharedWindow(loaded.map((id) => charts[id].data!))
+
+  const summaries = displayCoins
+    .filter((coin) => charts[coin.id]?.data)
+    .map((coin) => {
+      const prices = charts[coin.id].data!.prices
+      const clipped = shared ? prices.filter(([time]) => time >= shared[0] && time <= shared[1]) : prices
+      return { coin, stats: performanceStats(clipped) }
+    })
+
+  const colorOf = (id: string) => COLORS[ids.indexOf(id) % COLORS.length]
+  const nameOf = (id: string) => displayCoins.find((coin) => coin.id === id)?.name ?? id
+
+  const addCoin = (coin: PickedCoin) => {
+    if (coins.length < MAX_COINS && !ids.includes(coin.id)) setCoins([...coins, coin])
+  }
+
+  const removeCoin = (id: string) => setCoins(coins.filter((coin) => coin.id !== id))
+
+  return (
+    <div className="container py-6 md:py-10">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to all cryptocurrencies
+        </Link>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <GitCompareArrows className="h-7 w-7" />
+            Compare
+          </h1>
+          <p className="text-muted-foreground">Price history of up to {MAX_COINS} coins over the same range.</p>
+        </div>
+        <CurrencyToggle currency={currency} setCurrency={setCurrency} />
+      </div>
+
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        {displayCoins.map((coin) => (
+          <Badge key={coin.id} variant="outline" className="h-9 gap-2 pl-3 pr-1 text-sm font-medium">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(coin.id) }} />
+            {coin.name}
+            {coin.symbol && <span className="uppercase text-muted-foreground">{coin.symbol}</span>}
+            <button
+              type="button"
+              onClick={() => removeCoin(coin.id)}
+              className="rounded-full p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+              aria-label={`Remove ${coin.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <CoinPicker
+          selected={ids}
+          onSelect={addCoin}
+          known={market.data}
+          disabled={coins.length >= MAX_COINS}
+          label={coins.length >= MAX_COINS ? `Up to ${MAX_COINS} coins` : "Add coin"}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some price histories could not be loaded</AlertTitle>
+          <AlertDescription>
+            {errors.map((coin) => `${coin.name}: ${charts[coin.id].error}`).join(" · ")}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>Price history</CardTitle>
+            <CardDescription>
+              {mode === "percent"
+                ? "Change from each coin's first price in the range"
+                : `Prices in ${currency.toUpperCase()}, the first coin on the left axis and the rest on the right`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as CompareMode)}
+              aria-label="Scale"
+            >
+              <ToggleGroupItem value="percent" title="Percentage change from the start">
+                % change
+              </ToggleGroupItem>
+              <ToggleGroupItem value="price" title="Absolute prices on two axes">
+                Price
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <Tabs value={timeRange} onValueChange={setTimeRange}>
+              <TabsList>
+                <TabsTrigger value="7">7d</TabsTrigger>
+                <TabsTrigger value="30">30d</TabsTrigger>
+                <TabsTrigger value="90">90d</TabsTrigger>
+                <TabsTrigger value="365">1y</TabsTrigger>
+                <TabsTrigger value="max">Max</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[400px] w-full">
+            {coins.length === 0 ? (
+              <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                Add coins to compare their price history
+              </div>
+            ) : loading && rows.length === 0 ? (
+              <Skeleton className="h-full w-full" />
+            ) : rows.length === 0 ? (
+              <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                No price history available
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                  <XAxis
+                    dataKey="timestamp"
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={30}
+                    tickFormatter={(_, index) => rows[index]?.date ?? ""}
+                  />
+                  <YAxis
+                    yAxisId="left"
+                    tick={{ fontSize: 12 }}
+                    tickLine={false}
+                    axisLine={false}
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value) => (mode === "percent" ? `${value}%` : formatters.compact(value))}
+                  />
+                  {mode === "price" && loaded.length > 1 && (
+                    <YAxis
+                      yAxisId="right"
+                      orientation="right"
+                      tick={{ fontSize: 12 }}
+                      tickLine={false}
+                      axisLine={false}
+                      domain={["auto", "auto"]}
+                      tickFormatter={(value) => formatters.compact(value)}
+                    />
+                  )}
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      const row = payload?.[0]?.payload as CompareRow | undefined
+                      if (!active || !row) return null
+
+                      return (
+                        <div className="rounded-lg border bg-background p-2 shadow-md">
+                          <div className="mb-2 font-medium">{row.date}</div>
+                          <div className="grid gap-1">
+                            {loaded.map((id) => {
+                              const value = row[id]
+                              if (typeof value !== "number") return null
+                              return (
+                                <div key={id} className="flex items-center gap-2">
+                                  <div className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(id) }} />
+                                  <span>
+                                    {nameOf(id)}:{" "}
+                                    {mode === "percent"
+                                      ? formatters.percentage(value)
+                                      : formatters.currency(value, currency)}
+                                  </span>
+                                </div>
+                              )
+                            })}
+                          </div>
+                        </div>
+                      )
+                    }}
+                  />
+                  {loaded.map((id, index) => (
+                    <Line
+                      key={id}
+                      type="monotone"
+                      dataKey={id}
+                      name={nameOf(id)}
+                      yAxisId={mode === "price" && index > 0 ? "right" : "left"}
+                      stroke={colorOf(id)}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Performance</CardTitle>
+          <CardDescription>
+            {shared
+              ? `Measured from ${new Date(shared[0]).toLocaleDateString()} to ${new Date(
+                  shared[1],
+                ).toLocaleDateString()}, the period every coin has prices for`
+              : "Measured over the selected range"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Coin</TableHead>
+                <TableHead className="text-right">Return</TableHead>
+                <TableHead className="text-right">Volatility (annualized)</TableHead>
+                <TableHead className="text-right">Max drawdown</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && summaries.length === 0
+                ? ids.map((id) => (
+                    <TableRow key={id}>
+                      <TableCell colSpan={4}>
+                        <Skeleton className="h-5 w-full" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : summaries.map(({ coin, stats }) => (
+                    <TableRow key={coin.id}>
+                      <TableCell>
+                        <Link
+                          href={`/crypto/${coin.id}`}
+                          className="flex items-center gap-2 font-medium hover:underline"
+                        >
+                          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(coin.id) }} />
+                          {coin.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${stats.returnPercent >= 0 ? "text-green-500" : "text-red-500"}`}
+                      >
+                        {formatters.percentage(stats.returnPercent)}
+                      </TableCell>
+                      <TableCell className="text-right">{stats.volatilityPercent.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right text-red-500">
+                        {formatters.percentage(stats.maxDrawdownPercent)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,33 +1,46 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState } from "react"
 import Link from "next/link"
 import Image from "next/image"
 import {
   ArrowLeft,
+  Bell,
   ChevronDown,
   ChevronUp,
   ExternalLink,
+  Loader2,
   RefreshCw,
   Star,
   AlertTriangle,
-  Database,
-  Server,
-  CloudOff,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
 import { CurrencyToggle } from "@/components/currency-toggle"
+import { ConsensusToggle } from "@/components/consensus-toggle"
+import { ConsensusBreakdown, ConsensusIndicator } from "@/components/consensus-indicator"
+import { FxNote } from "@/components/fx-note"
+import { LiveIndicator } from "@/components/live-indicator"
+import { PriceFlash } from "@/components/price-flash"
+import { ProvenanceMark } from "@/components/provenance-mark"
 import { PriceChart } from "@/components/price-chart"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { useFavorites } from "@/components/favorites-provider"
+import { useAlerts } from "@/components/alerts-provider"
+import { CoinAlerts } from "@/components/coin-alerts"
+import { useCoinDetail, useMarketDataRefresh } from "@/components/market-data-provider"
+import { AutoRefreshSelect, RefreshCountdown } from "@/components/auto-refresh-control"
 import { toast } from "@/components/ui/use-toast"
-import { getCryptoDetail, formatErrorMessage, formatters, apiStatus } from "@/lib/api-utils"
+import { ApiSourceIndicator } from "@/components/api-source-indicator"
+import { formatters } from "@/lib/api-utils"
+import { useConsensus, useConsensusSettings } from "@/hooks/use-consensus"
+import { useLivePrices } from "@/hooks/use-live-prices"
+import { useLoadingProgress } from "@/hooks/use-loading-progress"
 
 interface CryptoDetailProps {
   params: {
@@ -36,9 +49,6 @@ interface CryptoDetailProps {
 }
 
 export default function CryptoDetailPage({ params }: CryptoDetailProps) {
-  const [crypto, setCrypto] = useState<any>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
   const [currency, setCurrency] = useState(() => {
     // Get currency from localStorage if available
     if (typeof window !== "undefined") {
@@ -46,91 +56,28 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
     }
     return "usd"
   })
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [activeTab, setActiveTab] = useState("overview")
   const { isFavorite, toggleFavorite } = useFavorites()
-  const [isRetrying, setIsRetrying] = useState(false)
-  const [retryCount, setRetryCount] = useState(0)
-  const maxRetries = 3
-  const [loadingProgress, setLoadingProgress] = useState(0)
-  const [dataSource, setDataSource] = useState(apiStatus.currentSource)
+  const { alerts } = useAlerts()
+  const hasAlerts = alerts.some((alert) => alert.coinId === params.id && alert.enabled)
+  const detail = useCoinDetail(params.id, currency)
+  const crypto = detail.data ?? null
+  const { loading, error, retrying: isRetrying, updatedAt: lastUpdated } = detail
+  const loadingProgress = useLoadingProgress(loading)
+  const { refresh, refreshing } = useMarketDataRefresh()
+  const { settings: consensusSettings, setSettings: setConsensusSettings } = useConsensusSettings()
+  const consensus = useConsensus([params.id], currency, consensusSettings)
+  const live = useLivePrices([params.id], currency)
+  const livePrice = live.prices[params.id]?.price
+  const consensusQuote = consensus.quotes[params.id]
 
   // Save currency preference to localStorage
   useEffect(() => {
     localStorage.setItem("preferred-currency", currency)
   }, [currency])
 
-  // Update data source when it changes
-  useEffect(() => {
-    const checkInterval = setInterval(() => {
-      if (dataSource !== apiStatus.currentSource) {
-        setDataSource(apiStatus.currentSource)
-      }
-    }, 1000)
-
-    return () => clearInterval(checkInterval)
-  }, [dataSource])
-
-  const fetchCryptoDetail = useCallback(
-    async (forceRefresh = false) => {
-      try {
-        setLoading(true)
-        setError(null)
-        setLoadingProgress(10)
-
-        // Simulate progress while fetching
-        const progressInterval = setInterval(() => {
-          setLoadingProgress((prev) => {
-            if (prev >= 90) {
-              clearInterval(progressInterval)
-              return prev
-            }
-            return prev + 10
-          })
-        }, 300)
-
-        const data = await getCryptoDetail(params.id, currency, forceRefresh)
-        setDataSource(apiStatus.currentSource)
-
-        setCrypto(data)
-        setLastUpdated(new Date())
-        setRetryCount(0)
-        setIsRetrying(false)
-        setLoadingProgress(100)
-
-        clearInterval(progressInterval)
-      } catch (err) {
-        console.error("Error fetching crypto details:", err)
-        const errorMessage = formatErrorMessage(err)
-        setError(errorMessage)
-
-        if (retryCount < maxRetries && !isRetrying) {
-          // Auto-retry with exponential backoff
-          setIsRetrying(true)
-          const delay = Math.pow(2, retryCount) * 1000
-          toast({
-            title: "Retrying data fetch",
-            description: `Attempt ${retryCount + 1} of ${maxRetries}. Retrying in ${delay / 1000} seconds.`,
-            variant: "default",
-          })
-
-          setTimeout(() => {
-            setRetryCount((prev) => prev + 1)
-            fetchCryptoDetail(true)
-          }, delay)
-        }
-      } finally {
-        setLoading(false)
-        // Reset progress after a delay to allow the progress bar to complete visually
-        setTimeout(() => setLoadingProgress(0), 500)
-      }
-    },
-    [params.id, currency, retryCount, isRetrying],
-  )
-
-  useEffect(() => {
-    fetchCryptoDetail()
-  }, [fetchCryptoDetail])
+  // Revalidate the details and chart in place, keeping the page as it is
+  const refreshData = () => refresh(["detail", "chart"])
 
   const handleToggleFavorite = () => {
     toggleFavorite(params.id)
@@ -201,7 +148,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
               <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
               <h3 className="mb-2 text-xl font-semibold">Failed to load data</h3>
               <p className="text-muted-foreground mb-4">{error || "Could not find cryptocurrency details"}</p>
-              <Button onClick={() => fetchCryptoDetail(true)} className="mt-4" disabled={isRetrying}>
+              <Button onClick={refreshData} className="mt-4" disabled={isRetrying}>
                 {isRetrying ? "Retrying..." : "Try Again"}
               </Button>
             </div>
@@ -232,8 +179,8 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => fetchCryptoDetail(true)}
-              disabled={isRetrying}
+              onClick={refreshData}
+              disabled={isRetrying || refreshing.detail}
               className="self-start"
             >
               {isRetrying ? "Retrying..." : "Refresh Data"}
@@ -269,15 +216,25 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                 <Star className={`h-5 w-5 ${isFavorite(params.id) ? "fill-yellow-400" : ""}`} />
                 <span className="sr-only">{isFavorite(params.id) ? "Remove from favorites" : "Add to favorites"}</span>
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setActiveTab("alerts")}
+                title="Price alerts"
+              >
+                <Bell className={`h-5 w-5 ${hasAlerts ? "fill-current" : ""}`} />
+                <span className="sr-only">Price alerts</span>
+              </Button>
               <Button
                 variant="outline"
                 size="icon"
                 className="h-8 w-8"
-                onClick={() => fetchCryptoDetail(true)}
+                onClick={refreshData}
                 title="Refresh data"
-                disabled={isRetrying}
+                disabled={isRetrying || refreshing.detail}
               >
-                <RefreshCw className={`h-4 w-4 ${isRetrying ? "animate-spin" : ""}`} />
+                <RefreshCw className={`h-4 w-4 ${isRetrying || refreshing.detail ? "animate-spin" : ""}`} />
                 <span className="sr-only">Refresh data</span>
               </Button>
             </div>
@@ -296,28 +253,26 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
           </div>
         </div>
         <div className="flex flex-col items-end gap-2">
-          <CurrencyToggle currency={currency} setCurrency={setCurrency} />
+          <div className="flex items-center gap-2">
+            <AutoRefreshSelect />
+            <ConsensusToggle settings={consensusSettings} setSettings={setConsensusSettings} />
+            <CurrencyToggle currency={currency} setCurrency={setCurrency} />
+          </div>
           {lastUpdated && (
-            <p className="text-xs text-muted-foreground">Last updated: {lastUpdated.toLocaleTimeString()}</p>
+            <p className="text-xs text-muted-foreground">
+              Last updated: {lastUpdated.toLocaleTimeString()}
+              <RefreshCountdown className="ml-1" />
+              {refreshing.detail && (
+                <span className="ml-2 inline-flex items-center">
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" /> Refreshing...
+                </span>
+              )}
+            </p>
           )}
           <div className="flex items-center gap-1 text-xs text-muted-foreground">
             Data Source:
-            {dataSource === "server" ? (
-              <>
-                <Server className="h-3 w-3" />
-                Server
-              </>
-            ) : dataSource === "local" ? (
-              <>
-                <Database className="h-3 w-3" />
-                Local
-              </>
-            ) : (
-              <>
-                <CloudOff className="h-3 w-3" />
-                Fallback
-              </>
-            )}
+            <ApiSourceIndicator />
+            <LiveIndicator state={live.state} className="ml-1" />
           </div>
         </div>
       </div>
@@ -327,6 +282,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="markets">Markets</TabsTrigger>
           <TabsTrigger value="about">About</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -350,25 +306,73 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <div>
                     <div className="text-sm text-muted-foreground">Current Price</div>
                     <div className="text-2xl font-bold">
-                      {formatters.currency(crypto?.market_data?.current_price?.[currency], currency)}
+                      {livePrice === undefined && (
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path={`market_data.current_price.${currency}`}
+                          className="mr-1"
+                        />
+                      )}
+                      <PriceFlash value={livePrice ?? crypto?.market_data?.current_price?.[currency]} className="-mx-1">
+                        {formatters.currency(livePrice ?? crypto?.market_data?.current_price?.[currency], currency)}
+                      </PriceFlash>
                     </div>
+                    <FxNote provenance={crypto?.provenance} className="mt-1" />
                   </div>
 
+                  {consensusSettings.enabled && (
+                    <div
+                      className={`rounded-md border p-3 ${
+                        consensusQuote?.disagreement
+                          ? "border-amber-200 bg-amber-100 dark:border-amber-800 dark:bg-amber-900/20"
+                          : ""
+                      }`}
+                    >
+                      <div className="mb-2 flex items-center justify-between gap-2 text-sm">
+                        <span className="text-muted-foreground">Consensus price</span>
+                        {consensusQuote && (
+                          <ConsensusIndicator
+                            quote={consensusQuote}
+                            currency={currency}
+                            threshold={consensusSettings.threshold}
+                          />
+                        )}
+                      </div>
+                      {consensus.loading && !consensusQuote ? (
+                        <Skeleton className="h-16 w-full" />
+                      ) : consensusQuote ? (
+                        <>
+                          {consensusQuote.disagreement && (
+                            <p className="mb-2 text-xs text-amber-700 dark:text-amber-400">
+                              Providers disagree by {consensusQuote.spreadPercent.toFixed(2)}%, more than the{" "}
+                              {consensusSettings.threshold}% threshold.
+                            </p>
+                          )}
+                          <ConsensusBreakdown quote={consensusQuote} currency={currency} />
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          {consensus.error ?? "No live provider quoted this coin."}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-3 gap-4">
                     <div>
                       <div className="text-sm text-muted-foreground">24h</div>
                       <div
                         className={`flex items-center font-medium ${
-                          crypto?.market_data?.price_change_percentage_24h > 0
+                          (crypto?.market_data?.price_change_percentage_24h ?? 0) > 0
                             ? "text-green-500"
-                            : crypto?.market_data?.price_change_percentage_24h < 0
+                            : (crypto?.market_data?.price_change_percentage_24h ?? 0) < 0
                               ? "text-red-500"
                               : ""
                         }`}
                       >
-                        {crypto?.market_data?.price_change_percentage_24h > 0 ? (
+                        {(crypto?.market_data?.price_change_percentage_24h ?? 0) > 0 ? (
                           <ChevronUp className="mr-1 h-4 w-4" />
-                        ) : crypto?.market_data?.price_change_percentage_24h < 0 ? (
+                        ) : (crypto?.market_data?.price_change_percentage_24h ?? 0) < 0 ? (
                           <ChevronDown className="mr-1 h-4 w-4" />
                         ) : null}
                         {formatters.percentage(crypto?.market_data?.price_change_percentage_24h)}
@@ -379,19 +383,24 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                       <div className="text-sm text-muted-foreground">7d</div>
                       <div
                         className={`flex items-center font-medium ${
-                          crypto?.market_data?.price_change_percentage_7d > 0
+                          (crypto?.market_data?.price_change_percentage_7d ?? 0) > 0
                             ? "text-green-500"
-                            : crypto?.market_data?.price_change_percentage_7d < 0
+                            : (crypto?.market_data?.price_change_percentage_7d ?? 0) < 0
                               ? "text-red-500"
                               : ""
                         }`}
                       >
-                        {crypto?.market_data?.price_change_percentage_7d > 0 ? (
+                        {(crypto?.market_data?.price_change_percentage_7d ?? 0) > 0 ? (
                           <ChevronUp className="mr-1 h-4 w-4" />
-                        ) : crypto?.market_data?.price_change_percentage_7d < 0 ? (
+                        ) : (crypto?.market_data?.price_change_percentage_7d ?? 0) < 0 ? (
                           <ChevronDown className="mr-1 h-4 w-4" />
                         ) : null}
                         {formatters.percentage(crypto?.market_data?.price_change_percentage_7d)}
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path="market_data.price_change_percentage_7d"
+                          className="ml-1"
+                        />
                       </div>
                     </div>
 
@@ -399,19 +408,24 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                       <div className="text-sm text-muted-foreground">30d</div>
                       <div
                         className={`flex items-center font-medium ${
-                          crypto?.market_data?.price_change_percentage_30d > 0
+                          (crypto?.market_data?.price_change_percentage_30d ?? 0) > 0
                             ? "text-green-500"
-                            : crypto?.market_data?.price_change_percentage_30d < 0
+                            : (crypto?.market_data?.price_change_percentage_30d ?? 0) < 0
                               ? "text-red-500"
                               : ""
                         }`}
                       >
-                        {crypto?.market_data?.price_change_percentage_30d > 0 ? (
+                        {(crypto?.market_data?.price_change_percentage_30d ?? 0) > 0 ? (
                           <ChevronUp className="mr-1 h-4 w-4" />
-                        ) : crypto?.market_data?.price_change_percentage_30d < 0 ? (
+                        ) : (crypto?.market_data?.price_change_percentage_30d ?? 0) < 0 ? (
                           <ChevronDown className="mr-1 h-4 w-4" />
                         ) : null}
                         {formatters.percentage(crypto?.market_data?.price_change_percentage_30d)}
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path="market_data.price_change_percentage_30d"
+                          className="ml-1"
+                        />
                       </div>
                     </div>
                   </div>
@@ -428,6 +442,11 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <div className="flex justify-between">
                     <div className="text-sm text-muted-foreground">Market Cap</div>
                     <div className="font-medium">
+                      <ProvenanceMark
+                        provenance={crypto?.provenance}
+                        path={`market_data.market_cap.${currency}`}
+                        className="mr-1"
+                      />
                       {formatters.currency(crypto?.market_data?.market_cap?.[currency], currency)}
                     </div>
                   </div>
@@ -435,6 +454,11 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <div className="flex justify-between">
                     <div className="text-sm text-muted-foreground">24h Volume</div>
                     <div className="font-medium">
+                      <ProvenanceMark
+                        provenance={crypto?.provenance}
+                        path={`market_data.total_volume.${currency}`}
+                        className="mr-1"
+                      />
                       {formatters.currency(crypto?.market_data?.total_volume?.[currency], currency)}
                     </div>
                   </div>
@@ -442,6 +466,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <div className="flex justify-between">
                     <div className="text-sm text-muted-foreground">Circulating Supply</div>
                     <div className="font-medium">
+                      <ProvenanceMark provenance={crypto?.provenance} path="market_data.circulating_supply" className="mr-1" />
                       {formatters.largeNumber(crypto?.market_data?.circulating_supply)} {crypto?.symbol?.toUpperCase()}
                     </div>
                   </div>
@@ -450,6 +475,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                     <div className="flex justify-between">
                       <div className="text-sm text-muted-foreground">Total Supply</div>
                       <div className="font-medium">
+                        <ProvenanceMark provenance={crypto?.provenance} path="market_data.total_supply" className="mr-1" />
                         {formatters.largeNumber(crypto?.market_data?.total_supply)} {crypto?.symbol?.toUpperCase()}
                       </div>
                     </div>
@@ -459,6 +485,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                     <div className="flex justify-between">
                       <div className="text-sm text-muted-foreground">Max Supply</div>
                       <div className="font-medium">
+                        <ProvenanceMark provenance={crypto?.provenance} path="market_data.max_supply" className="mr-1" />
                         {formatters.largeNumber(crypto?.market_data?.max_supply)} {crypto?.symbol?.toUpperCase()}
                       </div>
                     </div>
@@ -477,6 +504,11 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                     <div className="mb-1 flex justify-between">
                       <span className="text-sm text-muted-foreground">All-Time High</span>
                       <span className="font-medium">
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path={`market_data.ath.${currency}`}
+                          className="mr-1"
+                        />
                         {formatters.currency(crypto?.market_data?.ath?.[currency], currency)}
                       </span>
                     </div>
@@ -486,7 +518,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                       </span>
                       <span
                         className={
-                          crypto?.market_data?.ath_change_percentage?.[currency] >= 0
+                          (crypto?.market_data?.ath_change_percentage?.[currency] ?? 0) >= 0
                             ? "text-green-500"
                             : "text-red-500"
                         }
@@ -508,6 +540,11 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                     <div className="mb-1 flex justify-between">
                       <span className="text-sm text-muted-foreground">All-Time Low</span>
                       <span className="font-medium">
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path={`market_data.atl.${currency}`}
+                          className="mr-1"
+                        />
                         {formatters.currency(crypto?.market_data?.atl?.[currency], currency)}
                       </span>
                     </div>
@@ -517,7 +554,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                       </span>
                       <span
                         className={
-                          crypto?.market_data?.atl_change_percentage?.[currency] >= 0
+                          (crypto?.market_data?.atl_change_percentage?.[currency] ?? 0) >= 0
                             ? "text-green-500"
                             : "text-red-500"
                         }
@@ -549,12 +586,36 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
             <CardContent>
               <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3">
                 {[
-                  { label: "24 Hours", value: crypto?.market_data?.price_change_percentage_24h },
-                  { label: "7 Days", value: crypto?.market_data?.price_change_percentage_7d },
-                  { label: "30 Days", value: crypto?.market_data?.price_change_percentage_30d },
-                  { label: "60 Days", value: crypto?.market_data?.price_change_percentage_60d },
-                  { label: "200 Days", value: crypto?.market_data?.price_change_percentage_200d },
-                  { label: "1 Year", value: crypto?.market_data?.price_change_percentage_1y },
+                  {
+                    label: "24 Hours",
+                    field: "price_change_percentage_24h",
+                    value: crypto?.market_data?.price_change_percentage_24h,
+                  },
+                  {
+                    label: "7 Days",
+                    field: "price_change_percentage_7d",
+                    value: crypto?.market_data?.price_change_percentage_7d,
+                  },
+                  {
+                    label: "30 Days",
+                    field: "price_change_percentage_30d",
+                    value: crypto?.market_data?.price_change_percentage_30d,
+                  },
+                  {
+                    label: "60 Days",
+                    field: "price_change_percentage_60d",
+                    value: crypto?.market_data?.price_change_percentage_60d,
+                  },
+                  {
+                    label: "200 Days",
+                    field: "price_change_percentage_200d",
+                    value: crypto?.market_data?.price_change_percentage_200d,
+                  },
+                  {
+                    label: "1 Year",
+                    field: "price_change_percentage_1y",
+                    value: crypto?.market_data?.price_change_percentage_1y,
+                  },
                 ].map((item) => (
                   <Card key={item.label} className="overflow-hidden">
                     <CardContent className="p-4">
@@ -569,6 +630,11 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                         }`}
                       >
                         {formatters.percentage(item.value)}
+                        <ProvenanceMark
+                          provenance={crypto?.provenance}
+                          path={`market_data.${item.field}`}
+                          className="ml-1 text-base"
+                        />
                       </div>
                     </CardContent>
                   </Card>
@@ -676,7 +742,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <h3 className="text-sm font-medium">Blockchain</h3>
                   <div className="space-y-2">
                     {crypto?.links?.blockchain_site?.slice(0, 3).map(
-                      (site: string, index: number) =>
+                      (site, index) =>
                         site && (
                           <a
                             key={index}
@@ -697,7 +763,7 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
                   <h3 className="text-sm font-medium">Chat</h3>
                   <div className="space-y-2">
                     {crypto?.links?.chat_url?.slice(0, 3).map(
-                      (chat: string, index: number) =>
+                      (chat, index) =>
                         chat && (
                           <a
                             key={index}
@@ -735,6 +801,13 @@ export default function CryptoDetailPage({ params }: CryptoDetailProps) {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="alerts">
+          <CoinAlerts
+            coin={{ id: params.id, name: crypto?.name ?? params.id, symbol: crypto?.symbol ?? "" }}
+            currency={currency}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -3,8 +3,11 @@ import "@/app/globals.css"
 import { Inter } from "next/font/google"
 import { ThemeProvider } from "@/components/theme-provider"
 import { FavoritesProvider } from "@/components/favorites-provider"
+import { PortfolioProvider } from "@/components/portfolio-provider"
+import { MarketDataProvider } from "@/components/market-data-provider"
+import { AlertsProvider } from "@/components/alerts-provider"
 import { Toaster } from "@/components/ui/toaster"
-import { initializeApiServices } from "@/lib/api-init"
+import { ApiServices } from "@/components/api-services"
 import { Metadata, Viewport } from 'next'
 
 const inter = Inter({ subsets: ["latin"] })
@@ -47,11 +50,6 @@ export const metadata: Metadata = {
   },
 }
 
-// Initialize API services on the client side
-if (typeof window !== "undefined") {
-  initializeApiServices()
-}
-
 export default function RootLayout({
   children,
 }: {
@@ -65,8 +63,15 @@ export default function RootLayout({
       <body className={inter.className}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
           <FavoritesProvider>
-            {children}
-            <Toaster />
+            <PortfolioProvider>
+              <MarketDataProvider>
+                <AlertsProvider>
+                  {children}
+                  <Toaster />
+                  <ApiServices />
+                </AlertsProvider>
+              </MarketDataProvider>
+            </PortfolioProvider>
           </FavoritesProvider>
         </ThemeProvider>
       </body>
@@ -1,7 +1,7 @@
 "use client"
 
 import Link from "next/link"
-import { RefreshCw } from "lucide-react"
+import { Bell, GitCompareArrows, RefreshCw, Wallet } from "lucide-react"
 import { CryptoList } from "@/components/crypto-list"
 import { SearchBar } from "@/components/search-bar"
 import { ThemeToggle } from "@/components/theme-toggle"
@@ -11,7 +11,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useFavorites } from "@/components/favorites-provider"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { ApiSourceIndicator } from "@/components/api-source-indicator"
-import { setupApiStatusReset } from "@/lib/api-client"
 import { useDataRefresh } from "@/hooks/useDataRefresh"
 
 type ActiveTab = "all" | "favorites"
@@ -31,12 +30,7 @@ export default function Home() {
   })
 
   const { favorites } = useFavorites()
-  const { refreshData } = useDataRefresh()
-
-  // Initialize API status reset
-  useEffect(() => {
-    setupApiStatusReset(15) // Reset every 15 minutes
-  }, [])
+  const { refreshData, refreshing } = useDataRefresh()
 
   // Save active tab to localStorage
   useEffect(() => {
@@ -64,6 +58,24 @@ export default function Home() {
             <span className="font-bold">CryptoTracker</span>
           </Link>
           <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/portfolio">
+                <Wallet className="mr-2 h-4 w-4" />
+                Portfolio
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/compare">
+                <GitCompareArrows className="mr-2 h-4 w-4" />
+                Compare
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/alerts">
+                <Bell className="mr-2 h-4 w-4" />
+                Alerts
+              </Link>
+            </Button>
             <ApiSourceIndicator showControls={true} />
             <ThemeToggle />
           </div>
@@ -87,7 +99,7 @@ export default function Home() {
                 title="Refresh data"
                 aria-label="Refresh cryptocurrency data"
               >
-                <RefreshCw className="h-4 w-4" />
+                <RefreshCw className={`h-4 w-4 ${refreshing.list ? "animate-spin" : ""}`} />
               </Button>
             </div>
           </div>
@@ -0,0 +1,551 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { AlertTriangle, ArrowLeft, FileText, FileUp, Pencil, Plus, Trash2, Wallet } from "lucide-react"
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import { ImportDialog } from "@/components/import-dialog"
+import { useMarketList } from "@/components/market-data-provider"
+import { usePortfolio } from "@/components/portfolio-provider"
+import { PortfolioValueChart } from "@/components/portfolio-value-chart"
+import { TransactionDialog } from "@/components/transaction-dialog"
+import { useCoinQuotes } from "@/hooks/use-coin-quotes"
+import { useRestatedTransactions } from "@/hooks/use-restated-transactions"
+import { formatters } from "@/lib/api-utils"
+import { computeHoldings, COST_BASIS_METHODS, type CostBasisMethod, type Transaction } from "@/lib/portfolio"
+import { IMPORT_FORMATS } from "@/lib/transaction-import"
+
+const METHOD_STORAGE_KEY = "portfolio-cost-basis"
+const COLORS = ["#8884d8", "#f97316", "#22c55e", "#0ea5e9", "#d946ef", "#eab308", "#14b8a6", "#f43f5e"]
+const OTHER_COLOR = "#94a3b8"
+// Slices beyond this are grouped as "Other"
+const MAX_SLICES = 7
+
+function pnlClass(value: number | undefined): string {
+  if (value === undefined || value === 0) return ""
+  return value > 0 ? "text-green-500" : "text-red-500"
+}
+
+function sourceLabel(source: string): string {
+  return IMPORT_FORMATS.find((format) => format.value === source)?.label ?? source
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 8 })
+}
+
+function SummaryCard({
+  title,
+  value,
+  detail,
+  className = "",
+}: {
+  title: string
+  value: string
+  detail?: string
+  className?: string
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className={`text-2xl ${className}`}>{value}</CardTitle>
+      </CardHeader>
+      {detail && (
+        <CardContent>
+          <p className={`text-sm ${className || "text-muted-foreground"}`}>{detail}</p>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
+export default function PortfolioPage() {
+  const [currency, setCurrency] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("preferred-currency") || "usd"
+    }
+    return "usd"
+  })
+  const [method, setMethod] = useState<CostBasisMethod>(() => {
+    if (typeof window !== "undefined") {
+      return (localStorage.getItem(METHOD_STORAGE_KEY) as CostBasisMethod) || "fifo"
+    }
+    return "fifo"
+  })
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<Transaction | undefined>()
+  const [importOpen, setImportOpen] = useState(false)
+
+  const { transactions, removeTransaction } = usePortfolio()
+  const coinIds = [...new Set(transactions.map((transaction) => transaction.coinId))]
+  const market = useMarketList(currency)
+  const { quotes, loading, errors } = useCoinQuotes(coinIds, currency)
+  // Costs recorded in another currency are converted at the rates on their trade dates
+  const restated = useRestatedTransactions(transactions, currency)
+
+  useEffect(() => {
+    localStorage.setItem("preferred-currency", currency)
+  }, [currency])
+
+  useEffect(() => {
+    localStorage.setItem(METHOD_STORAGE_KEY, method)
+  }, [method])
+
+  // Restated transactions are already in `currency`
+  const convert = (amount: number) => amount
+  const approximate = restated.loading ? 0 : restated.estimated.size
+  const unrated = [...restated.unrated].map((code) => code.toUpperCase())
+
+  const nameOf = (id: string) => quotes[id]?.name ?? id.charAt(0).toUpperCase() + id.slice(1)
+
+  const holdings = computeHoldings(restated.transactions, method, convert)
+    .map((holding) => {
+      const quote = quotes[holding.coinId]
+      const value = quote ? holding.quantity * quote.price : undefined
+      return {
+        ...holding,
+        quote,
+        value,
+        unrealizedPnl: value !== undefined ? value - holding.costBasis : undefined,
+        unmatched: holding.disposals.reduce((sum, disposal) => sum + disposal.unmatched, 0),
+      }
+    })
+    .sort((a, b) => (b.value ?? -1) - (a.value ?? -1) || b.quantity - a.quantity)
+
+  const open = holdings.filter((holding) => holding.quantity > 0)
+  const totalValue = open.reduce((sum, holding) => sum + (holding.value ?? 0), 0)
+  const totalCost = open.reduce((sum, holding) => sum + holding.costBasis, 0)
+  const unrealized = open.reduce((sum, holding) => sum + (holding.unrealizedPnl ?? 0), 0)
+  const realized = holdings.reduce((sum, holding) => sum + holding.realizedPnl, 0)
+  const unpriced = open.filter((holding) => holding.value === undefined)
+  const oversold = holdings.filter((holding) => holding.unmatched > 1e-12)
+
+  // Largest holdings first, so their colors stay put between the allocation and the value chart
+  const colorOf = (id: string) =>
+    COLORS[Math.max(holdings.findIndex((holding) => holding.coinId === id), 0) % COLORS.length]
+
+  const slices = open.filter((holding) => (holding.value ?? 0) > 0)
+  const allocation = [
+    ...slices.slice(0, MAX_SLICES).map((holding) => ({
+      name: nameOf(holding.coinId),
+      value: holding.value!,
+      color: colorOf(holding.coinId),
+    })),
+    ...(slices.length > MAX_SLICES
+      ? [
+          {
+            name: "Other",
+            value: slices.slice(MAX_SLICES).reduce((sum, holding) => sum + holding.value!, 0),
+            color: OTHER_COLOR,
+          },
+        ]
+      : []),
+  ]
+
+  const openDialog = (transaction?: Transaction) => {
+    setEditing(transaction)
+    setDialogOpen(true)
+  }
+
+  const sortedTransactions = [...transactions].sort((a, b) => b.date - a.date)
+
+  return (
+    <div className="container py-6 md:py-10">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to all cryptocurrencies
+        </Link>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <Wallet className="h-7 w-7" />
+            Portfolio
+          </h1>
+          <p className="text-muted-foreground">Holdings, cost basis and profit and loss from your transactions.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={method} onValueChange={(value) => setMethod(value as CostBasisMethod)}>
+            <SelectTrigger className="w-[160px]" aria-label="Cost basis method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COST_BASIS_METHODS.map((option) => (
+                <SelectItem key={option.value} value={option.value} title={option.description}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CurrencyToggle currency={currency} setCurrency={setCurrency} />
+          <Button variant="outline" asChild>
+            <Link href="/portfolio/tax">
+              <FileText className="mr-2 h-4 w-4" />
+              Tax report
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add transaction
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some prices could not be loaded</AlertTitle>
+          <AlertDescription>{errors.map(({ id, error }) => `${nameOf(id)}: ${error}`).join(" · ")}</AlertDescription>
+        </Alert>
+      )}
+
+      {oversold.length > 0 && (
+        <Alert className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Sells without matching buys</AlertTitle>
+          <AlertDescription>
+            {oversold
+              .map((holding) => `${formatQuantity(holding.unmatched)} ${nameOf(holding.coinId)}`)
+              .join(", ")}{" "}
+            sold with no recorded buy to match, so their cost basis is counted as zero.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {approximate > 0 && (
+        <Alert className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Approximate cost basis</AlertTitle>
+          <AlertDescription>
+            {approximate === 1 ? "One trade" : `${approximate} trades`} in another currency had no exchange rate for
+            the trade date and use today&apos;s rate instead, so cost basis and P&amp;L that include them are
+            approximate.
+            {unrated.length > 0 &&
+              ` No rate at all is known for ${unrated.join(", ")}, so those amounts are counted one to one.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {transactions.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+            <Wallet className="h-10 w-10 text-muted-foreground" />
+            <div>
+              <p className="font-medium">No transactions yet</p>
+              <p className="text-sm text-muted-foreground">
+                Record a buy, or import an exchange&apos;s CSV export, to start tracking your holdings.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+              <Button onClick={() => openDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add transaction
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="mb-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {loading && totalValue === 0 ? (
+              Array.from({ length: 4 }).map((_, index) => <Skeleton key={index} className="h-[120px] w-full" />)
+            ) : (
+              <>
+                <SummaryCard
+                  title="Value"
+                  value={formatters.currency(totalValue, currency)}
+                  detail={unpriced.length > 0 ? `Excludes ${unpriced.length} coin(s) without a price` : undefined}
+                />
+                <SummaryCard title="Cost basis" value={formatters.currency(totalCost, currency)} />
+                <SummaryCard
+                  title="Unrealized P&L"
+                  value={formatters.currency(unrealized, currency)}
+                  detail={totalCost > 0 ? formatters.percentage((unrealized / totalCost) * 100) : undefined}
+                  className={pnlClass(unrealized)}
+                />
+                <SummaryCard
+                  title="Realized P&L"
+                  value={formatters.currency(realized, currency)}
+                  className={pnlClass(realized)}
+                />
+              </>
+            )}
+          </div>
+
+          <PortfolioValueChart
+            transactions={restated.transactions}
+            currency={currency}
+            method={method}
+            convert={convert}
+            coins={holdings.map((holding) => ({
+              id: holding.coinId,
+              name: nameOf(holding.coinId),
+              color: colorOf(holding.coinId),
+            }))}
+          />
+
+          <div className="mb-6 grid gap-6 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Holdings</CardTitle>
+                <CardDescription>
+                  Cost basis by {COST_BASIS_METHODS.find((option) => option.value === method)?.label}, fees included,
+                  in {currency.toUpperCase()} at today&apos;s exchange rates
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Coin</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">Cost basis</TableHead>
+                      <TableHead className="text-right">Unrealized</TableHead>
+                      <TableHead className="text-right">Realized</TableHead>
+                      <TableHead className="text-right">Allocation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holdings.map((holding) => (
+                      <TableRow key={holding.coinId} className={holding.quantity > 0 ? "" : "opacity-60"}>
+                        <TableCell>
+                          <Link
+                            href={`/crypto/${holding.coinId}`}
+                            className="flex items-center gap-2 font-medium hover:underline"
+                          >
+                            <Image
+                              src={holding.quote?.image || "/placeholder.svg"}
+                              alt={nameOf(holding.coinId)}
+                              width={20}
+                              height={20}
+                              className="rounded-full"
+                            />
+                            {nameOf(holding.coinId)}
+                            {holding.quote && (
+                              <span className="text-xs uppercase text-muted-foreground">{holding.quote.symbol}</span>
+                            )}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{formatQuantity(holding.quantity)}</TableCell>
+                        <TableCell className="text-right">
+                          {holding.quote ? formatters.currency(holding.quote.price, currency) : "N/A"}
+                        </TableCell>
+                        <TableCell className="text-right">{formatters.currency(holding.value, currency)}</TableCell>
+                        <TableCell className="text-right">
+                          {holding.quantity > 0 ? formatters.currency(holding.costBasis, currency) : "—"}
+                          {holding.quantity > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatters.currency(holding.costBasis / holding.quantity, currency)} avg
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right ${pnlClass(holding.unrealizedPnl)}`}>
+                          {holding.quantity > 0 ? formatters.currency(holding.unrealizedPnl, currency) : "—"}
+                          {holding.unrealizedPnl !== undefined && holding.costBasis > 0 && (
+                            <div className="text-xs">
+                              {formatters.percentage((holding.unrealizedPnl / holding.costBasis) * 100)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right ${pnlClass(holding.realizedPnl)}`}>
+                          {holding.disposals.length > 0 ? formatters.currency(holding.realizedPnl, currency) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {holding.value !== undefined && totalValue > 0 && holding.quantity > 0
+                            ? `${((holding.value / totalValue) * 100).toFixed(1)}%`
+                            : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Allocation</CardTitle>
+                <CardDescription>Share of current value</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {allocation.length === 0 ? (
+                  <div className="flex h-[240px] items-center justify-center text-sm text-muted-foreground">
+                    {loading ? <Skeleton className="h-full w-full" /> : "No priced holdings"}
+                  </div>
+                ) : (
+                  <>
+                    <div className="h-[240px] w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <PieChart>
+                          <Pie
+                            data={allocation}
+                            dataKey="value"
+                            nameKey="name"
+                            innerRadius="55%"
+                            outerRadius="85%"
+                            paddingAngle={1}
+                            isAnimationActive={false}
+                          >
+                            {allocation.map((slice) => (
+                              <Cell key={slice.name} fill={slice.color} stroke="none" />
+                            ))}
+                          </Pie>
+                          <Tooltip
+                            content={({ active, payload }) => {
+                              const slice = payload?.[0]?.payload as (typeof allocation)[number] | undefined
+                              if (!active || !slice) return null
+                              return (
+                                <div className="rounded-lg border bg-background p-2 shadow-md">
+                                  <div className="font-medium">{slice.name}</div>
+                                  <div>
+                                    {formatters.currency(slice.value, currency)} ·{" "}
+                                    {((slice.value / totalValue) * 100).toFixed(1)}%
+                                  </div>
+                                </div>
+                              )
+                            }}
+                          />
+                        </PieChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="mt-4 grid gap-1 text-sm">
+                      {allocation.map((slice) => (
+                        <div key={slice.name} className="flex items-center gap-2">
+                          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: slice.color }} />
+                          <span className="truncate">{slice.name}</span>
+                          <span className="ml-auto text-muted-foreground">
+                            {((slice.value / totalValue) * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transactions</CardTitle>
+              <CardDescription>Prices and fees in the currency each was recorded in</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Coin</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-[88px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedTransactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(transaction.date).toLocaleString(undefined, {
+                          dateStyle: "medium",
+                          timeStyle: "short",
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={transaction.type === "buy" ? "secondary" : "outline"}>
+                          {transaction.type === "buy" ? "Buy" : "Sell"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {nameOf(transaction.coinId)}
+                        {(transaction.note || transaction.source) && (
+                          <div className="text-xs text-muted-foreground">
+                            {transaction.note ?? `Imported from ${sourceLabel(transaction.source!)}`}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatQuantity(transaction.quantity)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatters.currency(transaction.price, transaction.currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatters.currency(transaction.fee, transaction.currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatters.currency(
+                          transaction.quantity * transaction.price +
+                            (transaction.type === "buy" ? transaction.fee : -transaction.fee),
+                          transaction.currency,
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openDialog(transaction)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">Edit transaction</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => removeTransaction(transaction.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete transaction</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <TransactionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        transaction={editing}
+        currency={currency}
+        known={market.data}
+        coinName={nameOf}
+      />
+      <ImportDialog open={importOpen} onOpenChange={setImportOpen} currency={currency} known={market.data} />
+    </div>
+  )
+}
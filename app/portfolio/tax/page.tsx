@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { AlertTriangle, ArrowLeft, Download, FileText, Printer } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import { usePortfolio } from "@/components/portfolio-provider"
+import { useCoinQuotes } from "@/hooks/use-coin-quotes"
+import { useRestatedTransactions } from "@/hooks/use-restated-transactions"
+import { formatters } from "@/lib/api-utils"
+import { isFiatCurrency } from "@/lib/currencies"
+import {
+  buildTaxReports,
+  TAX_LOT_METHODS,
+  taxReportCsv,
+  type HoldingTerm,
+  type TaxLotMethod,
+} from "@/lib/tax-report"
+
+const METHOD_STORAGE_KEY = "tax-report-method"
+const CURRENCY_STORAGE_KEY = "tax-report-currency"
+
+const TERM_BADGES: Record<HoldingTerm, { label: string; className: string }> = {
+  short: {
+    label: "Short term",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  },
+  long: {
+    label: "Long term",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  },
+}
+
+function gainClass(value: number): string {
+  if (value === 0) return ""
+  return value > 0 ? "text-green-500" : "text-red-500"
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 8 })
+}
+
+function SummaryCard({ title, value, className = "" }: { title: string; value: string; className?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className={`text-2xl ${className}`}>{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  )
+}
+
+export default function TaxReportPage() {
+  // Reports are in fiat, so a crypto display currency falls back to USD
+  const [currency, setCurrency] = useState(() => {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(CURRENCY_STORAGE_KEY) || localStorage.getItem("preferred-currency")
+      return stored && isFiatCurrency(stored) ? stored : "usd"
+    }
+    return "usd"
+  })
+  const [method, setMethod] = useState<TaxLotMethod>(() => {
+    if (typeof window !== "undefined") {
+      return (localStorage.getItem(METHOD_STORAGE_KEY) as TaxLotMethod) || "fifo"
+    }
+    return "fifo"
+  })
+  const [year, setYear] = useState<number | undefined>()
+
+  const { transactions } = usePortfolio()
+  const coinIds = [...new Set(transactions.map((transaction) => transaction.coinId))]
+  const { quotes } = useCoinQuotes(coinIds, currency)
+  const restated = useRestatedTransactions(transactions, currency)
+
+  useEffect(() => {
+    localStorage.setItem(CURRENCY_STORAGE_KEY, currency)
+  }, [currency])
+
+  useEffect(() => {
+    localStorage.setItem(METHOD_STORAGE_KEY, method)
+  }, [method])
+
+  const loading = restated.loading
+  const reports = buildTaxReports(restated.transactions, method, restated.estimated)
+  const report = reports.find((item) => item.year === year) ?? reports[0]
+
+  const nameOf = (id: string) => quotes[id]?.name ?? id.charAt(0).toUpperCase() + id.slice(1)
+  const symbolOf = (id: string) => quotes[id]?.symbol.toUpperCase() || nameOf(id)
+  const methodOption = TAX_LOT_METHODS.find((option) => option.value === method)
+
+  const unmatched = report?.rows.filter((row) => row.acquired === null) ?? []
+  const estimated = report?.rows.filter((row) => row.estimated) ?? []
+  const unrated = [...restated.unrated].map((code) => code.toUpperCase())
+
+  const downloadCsv = () => {
+    if (!report) return
+    const blob = new Blob([taxReportCsv(report, currency, symbolOf)], { type: "text/csv;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `capital-gains-${report.year}-${method}-${currency}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="container py-6 md:py-10">
+      <div className="mb-6 print:hidden">
+        <Link
+          href="/portfolio"
+          className="inline-flex items-center text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to portfolio
+        </Link>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <FileText className="h-7 w-7" />
+            Tax report{report && ` ${report.year}`}
+          </h1>
+          <p className="text-muted-foreground">
+            Sells matched to the buys they came from
+            {methodOption && ` by ${methodOption.label}`}, in {currency.toUpperCase()} as of each trade&apos;s date.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          {reports.length > 0 && (
+            <Select value={String(report?.year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-[110px]" aria-label="Tax year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reports.map((item) => (
+                  <SelectItem key={item.year} value={String(item.year)}>
+                    {item.year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={method} onValueChange={(value) => setMethod(value as TaxLotMethod)}>
+            <SelectTrigger className="w-[140px]" aria-label="Lot matching method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TAX_LOT_METHODS.map((option) => (
+                <SelectItem key={option.value} value={option.value} title={option.description}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CurrencyToggle currency={currency} setCurrency={setCurrency} kinds={["fiat"]} />
+          <Button variant="outline" onClick={downloadCsv} disabled={!report || loading}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => window.print()} disabled={!report || loading}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {!report ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-4 py-12 text-center">
+            <FileText className="h-10 w-10 text-muted-foreground" />
+            <div>
+              <p className="font-medium">No sells to report</p>
+              <p className="text-sm text-muted-foreground">
+                Gains and losses appear here once the portfolio records a sell.
+              </p>
+            </div>
+            <Button variant="outline" asChild>
+              <Link href="/portfolio">Go to portfolio</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : loading ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <Skeleton key={index} className="h-24 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-[320px] w-full" />
+        </div>
+      ) : (
+        <>
+          {unmatched.length > 0 && (
+            <Alert className="mb-6">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Sells without matching buys</AlertTitle>
+              <AlertDescription>
+                {unmatched.map((row) => `${formatQuantity(row.quantity)} ${nameOf(row.coinId)}`).join(", ")} sold
+                with no recorded buy to match, so their cost basis is counted as zero and their term as short.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {estimated.length > 0 && (
+            <Alert className="mb-6">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Estimated values</AlertTitle>
+              <AlertDescription>
+                {estimated.length === 1 ? "One line uses" : `${estimated.length} lines use`} a trade with no
+                exchange rate on its date, converted at today&apos;s rate instead. They are marked with an asterisk.
+                {unrated.length > 0 &&
+                  ` No rate at all is known for ${unrated.join(", ")}, so those amounts are counted one to one.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <SummaryCard title="Proceeds" value={formatters.currency(report.proceeds, currency)} />
+            <SummaryCard title="Cost basis" value={formatters.currency(report.costBasis, currency)} />
+            <SummaryCard
+              title="Short-term gain"
+              value={formatters.currency(report.shortTermGain, currency)}
+              className={gainClass(report.shortTermGain)}
+            />
+            <SummaryCard
+              title="Long-term gain"
+              value={formatters.currency(report.longTermGain, currency)}
+              className={gainClass(report.longTermGain)}
+            />
+            <SummaryCard
+              title="Net gain"
+              value={formatters.currency(report.shortTermGain + report.longTermGain, currency)}
+              className={gainClass(report.shortTermGain + report.longTermGain)}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Disposals</CardTitle>
+              <CardDescription>
+                {report.disposals} {report.disposals === 1 ? "sell" : "sells"} in {report.year}, one line per lot
+                sold. Held for more than a year counts as long term.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coin</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead>Acquired</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead className="text-right">Cost basis</TableHead>
+                    <TableHead className="text-right">Gain or loss</TableHead>
+                    <TableHead>Term</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row, index) => (
+                    <TableRow key={`${row.transactionId}-${index}`}>
+                      <TableCell className="font-medium">
+                        {nameOf(row.coinId)}
+                        {row.estimated && <span title="Converted at today's exchange rate">*</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatQuantity(row.quantity)}</TableCell>
+                      <TableCell>{row.acquired === null ? "Unknown" : format(row.acquired, "PP")}</TableCell>
+                      <TableCell>{format(row.disposed, "PP")}</TableCell>
+                      <TableCell className="text-right">{formatters.currency(row.proceeds, currency)}</TableCell>
+                      <TableCell className="text-right">{formatters.currency(row.costBasis, currency)}</TableCell>
+                      <TableCell className={`text-right ${gainClass(row.gain)}`}>
+                        {formatters.currency(row.gain, currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={TERM_BADGES[row.term].className}>
+                          {TERM_BADGES[row.term].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <p className="mt-4 text-xs text-muted-foreground">
+            Generated {format(new Date(), "PPp")} from the transactions recorded in this browser. Check the figures
+            against your exchange statements before filing.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
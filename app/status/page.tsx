@@ -0,0 +1,266 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Activity, AlertTriangle, ArrowLeft, Ban, Pin, PinOff, RefreshCw } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Switch } from "@/components/ui/switch"
+import { ApiSourceIndicator } from "@/components/api-source-indicator"
+import { formatErrorMessage, getProviderStatusReport, probeProvider } from "@/lib/api-utils"
+import { providerPreferences, type ProviderPreferences } from "@/lib/provider-preferences"
+import type { CircuitState } from "@/lib/providers/circuit-breaker"
+import type { ProviderStatusReport } from "@/lib/providers/registry"
+import type { ProviderId } from "@/lib/providers/types"
+
+// How often the report is refreshed while the page is open
+const REFRESH_INTERVAL = 5000
+
+const CIRCUIT_BADGES: Record<CircuitState, { label: string; className: string }> = {
+  closed: {
+    label: "Closed",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  },
+  "half-open": {
+    label: "Half-open",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  },
+  open: {
+    label: "Open",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  },
+}
+
+function formatTime(timestamp: number | null): string {
+  if (!timestamp) return "Never"
+  return new Date(timestamp).toLocaleTimeString()
+}
+
+function formatLatency(ms: number | null): string {
+  return ms === null ? "N/A" : `${Math.round(ms)} ms`
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="font-medium">{value}</div>
+    </div>
+  )
+}
+
+export default function StatusPage() {
+  const [providers, setProviders] = useState<ProviderStatusReport[]>([])
+  const [preferences, setPreferences] = useState<ProviderPreferences>({ pinned: null, disabled: [] })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [probing, setProbing] = useState<ProviderId | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setProviders(await getProviderStatusReport())
+      setLastUpdated(new Date())
+      setError(null)
+    } catch (err) {
+      console.error("Error fetching provider status:", err)
+      setError(formatErrorMessage(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Session preferences live in sessionStorage, so read them after mounting
+  useEffect(() => {
+    setPreferences(providerPreferences.get())
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [fetchStatus])
+
+  const handleProbe = async (id: ProviderId) => {
+    setProbing(id)
+    try {
+      const report = await probeProvider(id)
+      if (report) {
+        setProviders((current) => current.map((provider) => (provider.id === id ? report : provider)))
+      }
+    } catch (err) {
+      console.error(`Error probing ${id}:`, err)
+      setError(formatErrorMessage(err))
+    } finally {
+      setProbing(null)
+    }
+  }
+
+  const handlePin = (id: ProviderId) => {
+    providerPreferences.pin(preferences.pinned === id ? null : id)
+    setPreferences(providerPreferences.get())
+  }
+
+  const handleDisable = (id: ProviderId, disabled: boolean) => {
+    providerPreferences.setDisabled(id, disabled)
+    setPreferences(providerPreferences.get())
+  }
+
+  return (
+    <div className="container py-6 md:py-10">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm font-medium text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to all cryptocurrencies
+        </Link>
+      </div>
+
+      <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold tracking-tight">
+            <Activity className="h-7 w-7" />
+            Provider Status
+          </h1>
+          <p className="text-muted-foreground">
+            Health of each market data provider as seen by the server.
+            {lastUpdated && ` Last updated ${lastUpdated.toLocaleTimeString()}.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ApiSourceIndicator />
+          <Button variant="outline" size="sm" onClick={fetchStatus}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Could not load provider status</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {(preferences.pinned || preferences.disabled.length > 0) && (
+        <Alert className="mb-6">
+          <Pin className="h-4 w-4" />
+          <AlertTitle>Session overrides active</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center gap-2">
+            {preferences.pinned && <span>Pinned: {preferences.pinned}.</span>}
+            {preferences.disabled.length > 0 && <span>Disabled: {preferences.disabled.join(", ")}.</span>}
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => {
+                providerPreferences.clear()
+                setPreferences(providerPreferences.get())
+              }}
+            >
+              Clear overrides
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {loading
+          ? Array.from({ length: 4 }).map((_, index) => <Skeleton key={index} className="h-[260px] w-full" />)
+          : providers.map((provider) => {
+              const circuit = CIRCUIT_BADGES[provider.circuit.state]
+              const pinned = preferences.pinned === provider.id
+              const disabled = preferences.disabled.includes(provider.id)
+              const { metrics, rateLimit } = provider
+
+              return (
+                <Card key={provider.id} className={disabled ? "opacity-60" : ""}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          {provider.name}
+                          {pinned && <Badge variant="secondary">Pinned</Badge>}
+                          {disabled && <Badge variant="secondary">Disabled</Badge>}
+                          {!provider.enabled && <Badge variant="outline">Off in config</Badge>}
+                        </CardTitle>
+                        <CardDescription>Priority {provider.priority}</CardDescription>
+                      </div>
+                      <Badge variant="outline" className={circuit.className}>
+                        {circuit.label}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+                      <Stat label="Last success" value={formatTime(metrics.lastSuccessAt)} />
+                      <Stat label="Last failure" value={formatTime(metrics.lastFailureAt)} />
+                      <Stat
+                        label={`Success rate (${metrics.calls} calls)`}
+                        value={metrics.successRate === null ? "N/A" : `${(metrics.successRate * 100).toFixed(1)}%`}
+                      />
+                      <Stat label="p50 latency" value={formatLatency(metrics.p50LatencyMs)} />
+                      <Stat label="p95 latency" value={formatLatency(metrics.p95LatencyMs)} />
+                      <Stat
+                        label="Rate-limit budget"
+                        value={
+                          rateLimit
+                            ? `${rateLimit.remaining}/${rateLimit.capacity}${rateLimit.queued ? ` (${rateLimit.queued} queued)` : ""}`
+                            : "Unlimited"
+                        }
+                      />
+                    </div>
+
+                    {provider.circuit.openUntil && (
+                      <p className="text-sm text-muted-foreground">
+                        Circuit opened after {provider.circuit.consecutiveFailures} failure(s); next probe after{" "}
+                        {formatTime(provider.circuit.openUntil)}.
+                      </p>
+                    )}
+
+                    <div>
+                      <div className="text-sm text-muted-foreground">
+                        Last error{provider.circuit.lastFailureKind && ` (${provider.circuit.lastFailureKind})`}
+                      </div>
+                      <p className="break-words font-mono text-xs">{metrics.lastError ?? "None"}</p>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleProbe(provider.id)}
+                        disabled={probing === provider.id}
+                      >
+                        <RefreshCw className={`mr-2 h-4 w-4 ${probing === provider.id ? "animate-spin" : ""}`} />
+                        Probe now
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handlePin(provider.id)} disabled={disabled}>
+                        {pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                        {pinned ? "Unpin" : "Pin for session"}
+                      </Button>
+                      <label className="ml-auto flex items-center gap-2 text-sm">
+                        <Ban className="h-4 w-4" />
+                        Disable for session
+                        <Switch
+                          checked={disabled}
+                          onCheckedChange={(checked) => handleDisable(provider.id, checked)}
+                        />
+                      </label>
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+      </div>
+    </div>
+  )
+}
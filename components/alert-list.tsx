@@ -0,0 +1,81 @@
+"use client"
+
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { Pencil, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useAlerts } from "@/components/alerts-provider"
+import { describeAlert, isCoolingDown, type AlertRule } from "@/lib/alerts"
+
+interface AlertListProps {
+  alerts: AlertRule[]
+  onEdit: (alert: AlertRule) => void
+  // Adds a coin column linking to each coin's page
+  coinName?: (id: string) => string
+}
+
+function statusText(alert: AlertRule): string {
+  if (!alert.enabled) return "Paused"
+  if (isCoolingDown(alert)) {
+    return `Cooling down, fired ${formatDistanceToNow(alert.lastTriggeredAt!, { addSuffix: true })}`
+  }
+  if (alert.lastTriggeredAt) return `Fired ${formatDistanceToNow(alert.lastTriggeredAt, { addSuffix: true })}`
+  return "Watching"
+}
+
+/**
+ * Alert rules with pause, edit and delete controls
+ */
+export function AlertList({ alerts, onEdit, coinName }: AlertListProps) {
+  const { updateAlert, removeAlert } = useAlerts()
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {coinName && <TableHead>Coin</TableHead>}
+          <TableHead>Condition</TableHead>
+          <TableHead>Currency</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-[120px]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {alerts.map((alert) => (
+          <TableRow key={alert.id} className={alert.enabled ? "" : "text-muted-foreground"}>
+            {coinName && (
+              <TableCell className="font-medium">
+                <Link href={`/crypto/${alert.coinId}`} className="hover:underline">
+                  {coinName(alert.coinId)}
+                </Link>
+              </TableCell>
+            )}
+            <TableCell>{describeAlert(alert)}</TableCell>
+            <TableCell>{alert.currency.toUpperCase()}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">{statusText(alert)}</TableCell>
+            <TableCell>
+              <div className="flex items-center justify-end gap-1">
+                <Switch
+                  checked={alert.enabled}
+                  onCheckedChange={(enabled) => updateAlert(alert.id, { enabled })}
+                  aria-label={alert.enabled ? "Pause alert" : "Resume alert"}
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(alert)}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit alert</span>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeAlert(alert.id)}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete alert</span>
+                </Button>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react"
+import { toast } from "@/components/ui/use-toast"
+import { useChartDataSet, useCoinDetails } from "@/components/market-data-provider"
+import { ALERT_CONFIG } from "@/lib/api-config"
+import { getFieldProvenance } from "@/lib/provenance"
+import {
+  alertEventSchema,
+  alertRuleSchema,
+  changeOver,
+  describeAlert,
+  evaluateAlert,
+  isCoolingDown,
+  type AlertEvent,
+  type AlertRule,
+  type AlertSnapshot,
+  type NewAlertRule,
+} from "@/lib/alerts"
+
+const RULES_STORAGE_KEY = "crypto-alerts"
+const HISTORY_STORAGE_KEY = "crypto-alert-history"
+const NOTIFICATIONS_STORAGE_KEY = "alert-notifications"
+// Oldest triggers beyond this are dropped
+const MAX_HISTORY = 100
+const HOUR = 60 * 60 * 1000
+
+type AlertsContextType = {
+  alerts: AlertRule[]
+  history: AlertEvent[]
+  addAlert: (alert: NewAlertRule) => void
+  updateAlert: (id: string, changes: Partial<NewAlertRule>) => void
+  removeAlert: (id: string) => void
+  clearHistory: () => void
+  // Browser notifications on top of in-app toasts
+  notifications: boolean
+  setNotifications: (enabled: boolean) => Promise<void>
+}
+
+const AlertsContext = createContext<AlertsContextType | undefined>(undefined)
+
+function alertId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function loadList<T>(key: string, parse: (item: unknown) => { success: boolean; data?: T }): T[] {
+  const stored = JSON.parse(localStorage.getItem(key) || "[]")
+  return Array.isArray(stored)
+    ? stored.flatMap((item) => {
+        const parsed = parse(item)
+        return parsed.success && parsed.data ? [parsed.data] : []
+      })
+    : []
+}
+
+function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window
+}
+
+// A rule with the snapshot it is to be checked against
+interface Check {
+  rule: AlertRule
+  // Identifies the snapshot and the rule's condition
+  stamp: string
+  snapshot: AlertSnapshot
+  coinName: string
+  image: string | null
+}
+
+interface Trigger {
+  rule: AlertRule
+  coinName: string
+  image: string | null
+  message: string
+  price: number
+}
+
+/**
+ * Keeps the market data for alerted coins in one currency subscribed and revalidated on
+ * its own schedule, and checks their rules each time a fresh snapshot arrives
+ */
+function AlertWatcher({
+  currency,
+  rules,
+  onTrigger,
+}: {
+  currency: string
+  rules: AlertRule[]
+  onTrigger: (trigger: Trigger) => void
+}) {
+  const ids = [...new Set(rules.map((rule) => rule.coinId))]
+  // Details carry no 1h change, so those coins also follow the intraday chart
+  const hourlyIds = [
+    ...new Set(rules.filter((rule) => rule.type === "change" && rule.window === "1h").map((rule) => rule.coinId)),
+  ]
+  const details = useCoinDetails(ids, currency)
+  const charts = useChartDataSet(hourlyIds, currency, "1")
+
+  // What each rule was last checked against, so it is checked once per fresh snapshot
+  const checked = useRef(new Map<string, string>())
+  const pending = useRef<Check[]>([])
+  const onTriggerRef = useRef(onTrigger)
+  onTriggerRef.current = onTrigger
+  const resources = useRef([...Object.values(details), ...Object.values(charts)])
+  resources.current = [...Object.values(details), ...Object.values(charts)]
+
+  // Auto-refresh may be off, so stale data is revalidated here; data the shared schedule
+  // or another screen just fetched is left alone
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const staleBefore = Date.now() - ALERT_CONFIG.checkInterval
+      for (const resource of resources.current) {
+        if (resource.loading || resource.refreshing || resource.retrying) continue
+        if (!resource.updatedAt || resource.updatedAt.getTime() <= staleBefore) resource.refresh()
+      }
+    }, ALERT_CONFIG.checkInterval)
+    return () => clearInterval(timer)
+  }, [])
+
+  pending.current = rules.flatMap((rule) => {
+    const detail = details[rule.coinId]
+    const price = detail?.data?.market_data.current_price[currency]
+    if (!detail?.data || price === undefined) return []
+
+    const chart = charts[rule.coinId]
+    const stamp = [
+      detail.updatedAt?.getTime(),
+      chart?.updatedAt?.getTime(),
+      rule.type,
+      rule.value,
+      rule.window,
+      rule.direction,
+    ].join("|")
+    const snapshot: AlertSnapshot = {
+      price,
+      change1h: chart?.data ? changeOver(chart.data.prices, HOUR) : undefined,
+      change24h: detail.data.market_data.price_change_percentage_24h,
+      // Some sources stand in a 24h high for the all-time high, which would fire on every daily peak
+      ath:
+        getFieldProvenance(detail.data.provenance, `market_data.ath.${currency}`).kind === "estimated"
+          ? undefined
+          : detail.data.market_data.ath?.[currency],
+    }
+    return [{ rule, stamp, snapshot, coinName: detail.data.name, image: detail.data.image.large }]
+  })
+  const stamps = pending.current.map(({ rule, stamp }) => `${rule.id}:${stamp}`).join(",")
+
+  useEffect(() => {
+    const now = Date.now()
+    for (const { rule, stamp, snapshot, coinName, image } of pending.current) {
+      if (checked.current.get(rule.id) === stamp) continue
+      checked.current.set(rule.id, stamp)
+      if (isCoolingDown(rule, now)) continue
+
+      const message = evaluateAlert(rule, snapshot)
+      if (message) onTriggerRef.current({ rule, coinName, image, message, price: snapshot.price })
+    }
+  }, [stamps])
+
+  return null
+}
+
+export function AlertsProvider({ children }: { children: ReactNode }) {
+  const [alerts, setAlerts] = useState<AlertRule[]>([])
+  const [history, setHistory] = useState<AlertEvent[]>([])
+  const [notifications, setNotificationsEnabled] = useState(false)
+  const [isInitialized, setIsInitialized] = useState(false)
+
+  // Load rules and history from localStorage on mount, dropping any that no longer parse
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      try {
+        setAlerts(loadList(RULES_STORAGE_KEY, (item) => alertRuleSchema.safeParse(item)))
+        setHistory(loadList(HISTORY_STORAGE_KEY, (item) => alertEventSchema.safeParse(item)))
+      } catch (error) {
+        console.error("Error loading alerts:", error)
+        setAlerts([])
+        setHistory([])
+      }
+      setNotificationsEnabled(
+        localStorage.getItem(NOTIFICATIONS_STORAGE_KEY) === "on" &&
+          notificationsSupported() &&
+          Notification.permission === "granted",
+      )
+      setIsInitialized(true)
+    }
+  }, [])
+
+  // Save rules, history and the notification setting to localStorage whenever they change
+  useEffect(() => {
+    if (isInitialized && typeof window !== "undefined") {
+      localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(alerts))
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+      localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, notifications ? "on" : "off")
+    }
+  }, [alerts, history, notifications, isInitialized])
+
+  const addAlert = (alert: NewAlertRule) => {
+    setAlerts((prev) => [...prev, { ...alert, id: alertId(), createdAt: Date.now() }])
+  }
+
+  const updateAlert = (id: string, changes: Partial<NewAlertRule>) => {
+    setAlerts((prev) => prev.map((alert) => (alert.id === id ? { ...alert, ...changes } : alert)))
+  }
+
+  const removeAlert = (id: string) => {
+    setAlerts((prev) => prev.filter((alert) => alert.id !== id))
+  }
+
+  const clearHistory = () => setHistory([])
+
+  const setNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      setNotificationsEnabled(false)
+      return
+    }
+    if (!notificationsSupported()) {
+      toast({ title: "Notifications unavailable", description: "This browser doesn't support notifications." })
+      return
+    }
+
+    const permission =
+      Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission
+    if (permission !== "granted") {
+      toast({
+        title: "Notifications blocked",
+        description: "Allow notifications for this site in your browser settings to get alert popups.",
+        variant: "destructive",
+      })
+    }
+    setNotificationsEnabled(permission === "granted")
+  }
+
+  const handleTrigger = ({ rule, coinName, image, message, price }: Trigger) => {
+    const triggeredAt = Date.now()
+    const event: AlertEvent = {
+      id: alertId(),
+      alertId: rule.id,
+      coinId: rule.coinId,
+      coinName,
+      message,
+      price,
+      currency: rule.currency,
+      triggeredAt,
+    }
+    setAlerts((prev) =>
+      prev.map((alert) => (alert.id === rule.id ? { ...alert, lastTriggeredAt: triggeredAt } : alert)),
+    )
+    setHistory((prev) => [event, ...prev].slice(0, MAX_HISTORY))
+
+    const title = `${coinName}: ${describeAlert(rule)}`
+    toast({ title, description: message })
+    if (notifications && notificationsSupported() && Notification.permission === "granted") {
+      try {
+        new Notification(title, { body: message, icon: image ?? undefined, tag: rule.id })
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.error("Error showing notification:", error)
+      }
+    }
+  }
+
+  const currencies = [...new Set(alerts.filter((alert) => alert.enabled).map((alert) => alert.currency))]
+
+  return (
+    <AlertsContext.Provider
+      value={{ alerts, history, addAlert, updateAlert, removeAlert, clearHistory, notifications, setNotifications }}
+    >
+      {children}
+      {isInitialized &&
+        currencies.map((currency) => (
+          <AlertWatcher
+            key={currency}
+            currency={currency}
+            rules={alerts.filter((alert) => alert.enabled && alert.currency === currency)}
+            onTrigger={handleTrigger}
+          />
+        ))}
+    </AlertsContext.Provider>
+  )
+}
+
+export function useAlerts() {
+  const context = useContext(AlertsContext)
+  if (context === undefined) {
+    throw new Error("useAlerts must be used within an AlertsProvider")
+  }
+  return context
+}
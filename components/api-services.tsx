@@ -0,0 +1,16 @@
+"use client"
+
+import { useEffect } from "react"
+import { initializeApiServices } from "@/lib/api-init"
+
+/**
+ * Initializes the client-side API services once the app has mounted.
+ * Rendered once from the root layout.
+ */
+export function ApiServices() {
+  useEffect(() => {
+    initializeApiServices()
+  }, [])
+
+  return null
+}
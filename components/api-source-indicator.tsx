@@ -1,7 +1,8 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Database, Server, CloudOff, RefreshCw, AlertTriangle } from "lucide-react"
+import Link from "next/link"
+import { Database, Server, CloudOff, RefreshCw, AlertTriangle, Activity } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
@@ -13,7 +14,28 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { apiStatus, getCurrentApiSource } from "@/lib/api-utils"
+import { setCurrentSource as setApiSource } from "@/lib/api-source"
+import { getCurrentApiSource, getProviderStatusReport } from "@/lib/api-utils"
+import { providerPreferences } from "@/lib/provider-preferences"
+import { getProvider, getProviders } from "@/lib/providers/catalog"
+import type { ProviderStatusReport } from "@/lib/providers/registry"
+import type { ProviderId } from "@/lib/providers/types"
+
+const SOURCE_COLORS: Partial<Record<ProviderId, string>> = {
+  coingecko: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  coincap: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  cryptocompare: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  binance: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  mock: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+}
+
+const DEFAULT_SOURCE_COLOR = "bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-400"
+
+function getSourceIcon(source: ProviderId, className = "h-4 w-4") {
+  if (source === "mock") return <CloudOff className={className} />
+  if (source === getProviders()[0]?.id) return <Database className={className} />
+  return <Server className={className} />
+}
 
 interface ApiSourceIndicatorProps {
   className?: string
@@ -21,8 +43,10 @@ interface ApiSourceIndicatorProps {
 }
 
 export function ApiSourceIndicator({ className = "", showControls = false }: ApiSourceIndicatorProps) {
-  const [currentSource, setCurrentSource] = useState<string>(getCurrentApiSource())
+  const [currentSource, setCurrentSource] = useState<ProviderId>(getCurrentApiSource())
   const [isResetting, setIsResetting] = useState(false)
+  // The server's view of provider health, which is what decides where requests go
+  const [report, setReport] = useState<ProviderStatusReport[] | null>(null)
 
   // Update current source when it changes
   useEffect(() => {
@@ -38,65 +62,47 @@ export function ApiSourceIndicator({ className = "", showControls = false }: Api
 
   // Get data source icon and color
   const getDataSourceInfo = () => {
-    switch (currentSource) {
-      case "primary":
-        return {
-          icon: <Database className="h-4 w-4" />,
-          label: "CoinGecko",
-          color: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
-        }
-      case "secondary":
-        return {
-          icon: <Server className="h-4 w-4" />,
-          label: "CoinCap",
-          color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
-        }
-      case "tertiary":
-        return {
-          icon: <Server className="h-4 w-4" />,
-          label: "CryptoCompare",
-          color: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
-        }
-      case "quaternary":
-        return {
-          icon: <Server className="h-4 w-4" />,
-          label: "Binance",
-          color: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
-        }
-      case "mock":
-        return {
-          icon: <CloudOff className="h-4 w-4" />,
-          label: "Mock Data",
-          color: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
-        }
-      default:
-        return {
-          icon: <AlertTriangle className="h-4 w-4" />,
-          label: "Unknown",
-          color: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
-        }
+    const provider = getProvider(currentSource)
+
+    if (!provider) {
+      return {
+        icon: <AlertTriangle className="h-4 w-4" />,
+        label: "Unknown",
+        color: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+      }
+    }
+
+    return {
+      icon: getSourceIcon(provider.id),
+      label: provider.name,
+      color: SOURCE_COLORS[provider.id] || DEFAULT_SOURCE_COLOR,
     }
   }
 
   const handleReset = () => {
     setIsResetting(true)
-    apiStatus.resetStatuses()
+    providerPreferences.pin(null)
     setTimeout(() => {
       setCurrentSource(getCurrentApiSource())
       setIsResetting(false)
     }, 1000)
   }
 
-  const handleSelectSource = (source: string) => {
-    // Only allow selecting operational APIs
-    if (
-      (source === "primary" && apiStatus.primary.operational) ||
-      (source === "secondary" && apiStatus.secondary.operational) ||
-      (source === "tertiary" && apiStatus.tertiary.operational) ||
-      (source === "quaternary" && apiStatus.quaternary.operational) ||
-      source === "mock"
-    ) {
-      apiStatus.currentSource = source as any
+  // Fetched each time the menu opens, as on the /status page
+  const handleMenuOpen = (open: boolean) => {
+    if (!open) return
+    getProviderStatusReport()
+      .then(setReport)
+      .catch((error) => console.error("Error fetching provider status:", error))
+  }
+
+  const isUnavailable = (id: ProviderId) => report?.find((provider) => provider.id === id)?.circuit.state === "open"
+
+  const handleSelectSource = (source: ProviderId) => {
+    // Only allow selecting APIs the server can reach
+    if (source === "mock" || !isUnavailable(source)) {
+      providerPreferences.pin(source)
+      setApiSource(source)
       setCurrentSource(source)
     }
   }
@@ -119,7 +125,7 @@ export function ApiSourceIndicator({ className = "", showControls = false }: Api
       <TooltipProvider>
         <Tooltip>
           <TooltipTrigger asChild>
-            <DropdownMenu>
+            <DropdownMenu onOpenChange={handleMenuOpen}>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm" className={sourceInfo.color}>
                   <span className="flex items-center gap-1">
@@ -131,44 +137,25 @@ export function ApiSourceIndicator({ className = "", showControls = false }: Api
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Select Data Source</DropdownMenuLabel>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem
-                  onClick={() => handleSelectSource("primary")}
-                  disabled={!apiStatus.primary.operational}
-                  className={currentSource === "primary" ? "bg-accent" : ""}
-                >
-                  <Database className="mr-2 h-4 w-4" />
-                  CoinGecko
-                  {!apiStatus.primary.operational && <span className="ml-2 text-xs text-red-500">(Unavailable)</span>}
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={() => handleSelectSource("secondary")}
-                  disabled={!apiStatus.secondary.operational}
-                  className={currentSource === "secondary" ? "bg-accent" : ""}
-                >
-                  <Server className="mr-2 h-4 w-4" />
-                  CoinCap
-                  {!apiStatus.secondary.operational && <span className="ml-2 text-xs text-red-500">(Unavailable)</span>}
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={() => handleSelectSource("tertiary")}
-                  disabled={!apiStatus.tertiary.operational}
-                  className={currentSource === "tertiary" ? "bg-accent" : ""}
-                >
-                  <Server className="mr-2 h-4 w-4" />
-                  CryptoCompare
-                  {!apiStatus.tertiary.operational && <span className="ml-2 text-xs text-red-500">(Unavailable)</span>}
-                </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={() => handleSelectSource("quaternary")}
-                  disabled={!apiStatus.quaternary.operational}
-                  className={currentSource === "quaternary" ? "bg-accent" : ""}
-                >
-                  <Server className="mr-2 h-4 w-4" />
-                  Binance
-                  {!apiStatus.quaternary.operational && (
-                    <span className="ml-2 text-xs text-red-500">(Unavailable)</span>
-                  )}
-                </DropdownMenuItem>
+                {getProviders().map((provider) => {
+                  const disabled = providerPreferences.get().disabled.includes(provider.id)
+                  const operational = !disabled && !isUnavailable(provider.id)
+
+                  return (
+                    <DropdownMenuItem
+                      key={provider.id}
+                      onClick={() => handleSelectSource(provider.id)}
+                      disabled={!operational}
+                      className={currentSource === provider.id ? "bg-accent" : ""}
+                    >
+                      {getSourceIcon(provider.id, "mr-2 h-4 w-4")}
+                      {provider.name}
+                      {!operational && (
+                        <span className="ml-2 text-xs text-red-500">{disabled ? "(Disabled)" : "(Unavailable)"}</span>
+                      )}
+                    </DropdownMenuItem>
+                  )
+                })}
                 <DropdownMenuItem
                   onClick={() => handleSelectSource("mock")}
                   className={currentSource === "mock" ? "bg-accent" : ""}
@@ -176,6 +163,13 @@ export function ApiSourceIndicator({ className = "", showControls = false }: Api
                   <CloudOff className="mr-2 h-4 w-4" />
                   Mock Data
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/status">
+                    <Activity className="mr-2 h-4 w-4" />
+                    Provider Status
+                  </Link>
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </TooltipTrigger>
@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Timer } from "lucide-react"
+
+import { useAutoRefreshState } from "@/components/market-data-provider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AUTO_REFRESH_CONFIG } from "@/lib/api-config"
+
+/**
+ * Auto-refresh interval picker; the setting applies to all data on screen
+ */
+export function AutoRefreshSelect() {
+  const { interval, setInterval } = useAutoRefreshState()
+
+  return (
+    <Select value={String(interval)} onValueChange={(value) => setInterval(Number(value))}>
+      <SelectTrigger className="h-8 w-[100px]" title="Auto-refresh" aria-label="Auto-refresh interval">
+        <Timer className="h-4 w-4 shrink-0 opacity-50" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {AUTO_REFRESH_CONFIG.intervals.map((option) => (
+          <SelectItem key={option.value} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Time until the next automatic refresh, for next to "Last updated"
+ */
+export function RefreshCountdown({ className = "" }: { className?: string }) {
+  const { interval, nextRefreshAt, paused, backoff } = useAutoRefreshState()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!nextRefreshAt) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [nextRefreshAt])
+
+  if (!interval) return null
+
+  const seconds = nextRefreshAt ? Math.max(0, Math.ceil((nextRefreshAt - now) / 1000)) : 0
+  const remaining = seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+
+  return (
+    <span className={`text-xs text-muted-foreground ${className}`}>
+      {paused || !nextRefreshAt ? "· Auto-refresh paused" : `· Next refresh in ${remaining}`}
+      {backoff > 1 && (
+        <span className="ml-1 text-amber-600 dark:text-amber-500">(slowed ×{backoff}, providers are rate limiting)</span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Bell, Plus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertList } from "@/components/alert-list"
+import { useAlerts } from "@/components/alerts-provider"
+import type { PickedCoin } from "@/components/coin-picker"
+import { PriceAlertDialog } from "@/components/price-alert-dialog"
+import type { AlertRule } from "@/lib/alerts"
+
+interface CoinAlertsProps {
+  coin: PickedCoin
+  currency: string
+}
+
+/**
+ * One coin's price alerts, for its detail page
+ */
+export function CoinAlerts({ coin, currency }: CoinAlertsProps) {
+  const { alerts } = useAlerts()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<AlertRule | undefined>()
+
+  const coinAlerts = alerts.filter((alert) => alert.coinId === coin.id)
+
+  const openDialog = (alert?: AlertRule) => {
+    setEditing(alert)
+    setDialogOpen(true)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-center md:justify-between">
+        <div>
+          <CardTitle>Price Alerts</CardTitle>
+          <CardDescription>
+            Get a notification when {coin.name} crosses a price, moves sharply or sets a new all-time high.{" "}
+            <Link href="/alerts" className="underline underline-offset-4 hover:text-foreground">
+              All alerts
+            </Link>
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          New alert
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {coinAlerts.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+            <Bell className="h-8 w-8" />
+            <p className="text-sm">No alerts for {coin.name} yet.</p>
+          </div>
+        ) : (
+          <AlertList alerts={coinAlerts} onEdit={openDialog} />
+        )}
+      </CardContent>
+      <PriceAlertDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        alert={editing}
+        coin={coin}
+        currency={currency}
+        coinName={() => coin.name}
+      />
+    </Card>
+  )
+}
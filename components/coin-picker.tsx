@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Loader2, Plus, Star } from "lucide-react"
+
+import { useFavorites } from "@/components/favorites-provider"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { searchCryptos } from "@/lib/api-utils"
+import type { MarketCoin } from "@/lib/models"
+import { getCachedSuggestions } from "@/lib/search-utils"
+
+export interface PickedCoin {
+  id: string
+  name: string
+  symbol: string
+  image?: string
+}
+
+interface CoinPickerProps {
+  // Already picked, left out of the results
+  selected: string[]
+  onSelect: (coin: PickedCoin) => void
+  // Names and images for favorites, e.g. the market list
+  known?: MarketCoin[]
+  label?: string
+  disabled?: boolean
+}
+
+function CoinItem({ coin, onSelect }: { coin: PickedCoin; onSelect: (coin: PickedCoin) => void }) {
+  return (
+    <CommandItem value={coin.id} onSelect={() => onSelect(coin)}>
+      <Image
+        src={coin.image || "/placeholder.svg"}
+        alt={coin.name}
+        width={16}
+        height={16}
+        className="mr-2 rounded-full"
+      />
+      <span className="truncate">{coin.name}</span>
+      <span className="ml-auto pl-2 text-xs uppercase text-muted-foreground">{coin.symbol}</span>
+    </CommandItem>
+  )
+}
+
+/**
+ * Pick a coin from search results, or from favorites before anything is typed
+ */
+export function CoinPicker({ selected, onSelect, known = [], label = "Add coin", disabled }: CoinPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<PickedCoin[]>([])
+  const [searching, setSearching] = useState(false)
+  const { favorites } = useFavorites()
+
+  useEffect(() => {
+    const needle = query.trim()
+    if (!needle) {
+      setResults([])
+      return
+    }
+
+    const cached = getCachedSuggestions(needle)
+    if (cached) {
+      setResults(cached.map((coin) => ({ ...coin, image: coin.thumb ?? coin.image })))
+      return
+    }
+
+    let cancelled = false
+    // Wait for a pause in typing before searching
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const suggestions = await searchCryptos(needle)
+        if (!cancelled) setResults(suggestions.map((coin) => ({ ...coin, image: coin.thumb ?? coin.image })))
+      } catch (error) {
+        console.error("Error searching coins:", error)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  const favoriteCoins: PickedCoin[] = favorites
+    .filter((id) => !selected.includes(id))
+    .map((id) => {
+      const coin = known.find((item) => item.id === id)
+      return coin
+        ? { id, name: coin.name, symbol: coin.symbol, image: coin.image ?? undefined }
+        : { id, name: id.charAt(0).toUpperCase() + id.slice(1), symbol: "" }
+    })
+
+  const handleSelect = (coin: PickedCoin) => {
+    onSelect(coin)
+    setQuery("")
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9" disabled={disabled}>
+          <Plus className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[280px] p-0">
+        {/* Results come from the search API, so cmdk's own filtering is off */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search coins..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            {searching && (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!searching && query.trim() && <CommandEmpty>No coins found.</CommandEmpty>}
+            {!query.trim() && favoriteCoins.length > 0 && (
+              <CommandGroup
+                heading={
+                  <span className="flex items-center gap-1">
+                    <Star className="h-3 w-3" /> Favorites
+                  </span>
+                }
+              >
+                {favoriteCoins.map((coin) => (
+                  <CoinItem key={coin.id} coin={coin} onSelect={handleSelect} />
+                ))}
+              </CommandGroup>
+            )}
+            {!query.trim() && favoriteCoins.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">Type to search coins</p>
+            )}
+            {!searching && results.length > 0 && (
+              <CommandGroup heading="Results">
+                {results
+                  .filter((coin) => !selected.includes(coin.id))
+                  .map((coin) => (
+                    <CoinItem key={coin.id} coin={coin} onSelect={handleSelect} />
+                  ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
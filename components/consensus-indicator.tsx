@@ -0,0 +1,75 @@
+"use client"
+
+import { AlertTriangle, Scale } from "lucide-react"
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { formatters } from "@/lib/api-utils"
+import type { ConsensusQuote } from "@/lib/consensus"
+import { getProvider } from "@/lib/providers/catalog"
+
+interface ConsensusIndicatorProps {
+  quote: ConsensusQuote
+  currency: string
+  threshold: number
+  className?: string
+}
+
+/**
+ * Per-source breakdown of a consensus price
+ */
+export function ConsensusBreakdown({ quote, currency }: Pick<ConsensusIndicatorProps, "quote" | "currency">) {
+  return (
+    <div className="space-y-1 text-xs">
+      {quote.sources.map((source) => (
+        <div key={source.provider} className="flex justify-between gap-4">
+          <span>{getProvider(source.provider)?.name ?? source.provider}</span>
+          <span className="font-mono">{formatters.currency(source.price, currency)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4 border-t pt-1 font-medium">
+        <span>Median</span>
+        <span className="font-mono">{formatters.currency(quote.median, currency)}</span>
+      </div>
+      <div className="flex justify-between gap-4 text-muted-foreground">
+        <span>Spread</span>
+        <span className="font-mono">{quote.spreadPercent.toFixed(2)}%</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Icon marking a consensus price, amber when the sources disagree, with the breakdown in a tooltip
+ */
+export function ConsensusIndicator({ quote, currency, threshold, className = "" }: ConsensusIndicatorProps) {
+  const singleSource = quote.sources.length < 2
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={`inline-flex cursor-help ${className}`}>
+            {quote.disagreement ? (
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+            ) : (
+              <Scale className={`h-4 w-4 ${singleSource ? "text-muted-foreground/50" : "text-muted-foreground"}`} />
+            )}
+            <span className="sr-only">
+              {quote.disagreement ? "Sources disagree" : singleSource ? "Single source" : "Sources agree"}
+            </span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="w-56">
+          <p className="mb-2 font-medium">
+            {quote.disagreement
+              ? `Sources differ by more than ${threshold}%`
+              : singleSource
+                ? "Only one provider quoted this coin"
+                : `Sources agree within ${threshold}%`}
+          </p>
+          <ConsensusBreakdown quote={quote} currency={currency} />
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
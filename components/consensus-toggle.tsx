@@ -0,0 +1,56 @@
+"use client"
+
+import { Scale } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Switch } from "@/components/ui/switch"
+import type { ConsensusSettings } from "@/hooks/use-consensus"
+import { CONSENSUS_CONFIG } from "@/lib/api-config"
+
+interface ConsensusToggleProps {
+  settings: ConsensusSettings
+  setSettings: (settings: ConsensusSettings) => void
+}
+
+export function ConsensusToggle({ settings, setSettings }: ConsensusToggleProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={settings.enabled ? "secondary" : "outline"} size="sm" className="h-8">
+          <Scale className="mr-2 h-4 w-4" />
+          Consensus{settings.enabled ? ` (${settings.threshold}%)` : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <label className="flex items-center justify-between gap-2 text-sm font-medium">
+          Consensus mode
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => setSettings({ ...settings, enabled })}
+          />
+        </label>
+        <p className="text-xs text-muted-foreground">
+          Compares prices from several providers and shows their median. Coins whose sources differ by more than the
+          threshold are flagged.
+        </p>
+        <div className="space-y-2">
+          <div className="text-sm text-muted-foreground">Disagreement threshold</div>
+          <div className="flex gap-2">
+            {CONSENSUS_CONFIG.thresholdOptions.map((threshold) => (
+              <Button
+                key={threshold}
+                variant={settings.threshold === threshold ? "default" : "outline"}
+                size="sm"
+                className="flex-1"
+                onClick={() => setSettings({ ...settings, threshold })}
+              >
+                {threshold}%
+              </Button>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
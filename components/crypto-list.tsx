@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback, useRef } from "react"
+import { useEffect, useMemo, useState, useRef } from "react"
 import { useSearchParams } from "next/navigation"
 import Link from "next/link"
 import Image from "next/image"
@@ -11,6 +11,12 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Skeleton } from "@/components/ui/skeleton"
 import { CurrencyToggle } from "@/components/currency-toggle"
+import { ConsensusToggle } from "@/components/consensus-toggle"
+import { ConsensusIndicator } from "@/components/consensus-indicator"
+import { FxNote } from "@/components/fx-note"
+import { LiveIndicator } from "@/components/live-indicator"
+import { PriceFlash } from "@/components/price-flash"
+import { ProvenanceMark } from "@/components/provenance-mark"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
@@ -22,9 +28,16 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination"
 import { useFavorites } from "@/components/favorites-provider"
+import { useAutoRefreshState, useMarketList } from "@/components/market-data-provider"
+import { AutoRefreshSelect, RefreshCountdown } from "@/components/auto-refresh-control"
 import { toast } from "@/components/ui/use-toast"
 import { Progress } from "@/components/ui/progress"
-import { getCryptoList, formatErrorMessage, formatters, getCurrentApiSource } from "@/lib/api-utils"
+import { formatters, getCurrentApiSource } from "@/lib/api-utils"
+import { getProvider } from "@/lib/providers/catalog"
+import { useConsensus, useConsensusSettings } from "@/hooks/use-consensus"
+import { useLivePrices } from "@/hooks/use-live-prices"
+import { useLoadingProgress } from "@/hooks/use-loading-progress"
+import type { MarketCoin } from "@/lib/models"
 import { ApiSourceIndicator } from "@/components/api-source-indicator"
 
 interface CryptoListProps {
@@ -34,10 +47,7 @@ interface CryptoListProps {
 export function CryptoList({ filterFavorites = false }: CryptoListProps) {
   const searchParams = useSearchParams()
   const query = searchParams.get("q") || ""
-  const [cryptos, setCryptos] = useState<any[]>([])
-  const [allCryptos, setAllCryptos] = useState<any[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [cryptos, setCryptos] = useState<MarketCoin[]>([])
   const [currency, setCurrency] = useState(() => {
     if (typeof window !== "undefined") {
       return localStorage.getItem("preferred-currency") || "usd"
@@ -56,7 +66,6 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
     }
     return "asc"
   })
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [perPage, setPerPage] = useState(() => {
     if (typeof window !== "undefined") {
       return Number(localStorage.getItem("per-page")) || 25
@@ -65,14 +74,21 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
   })
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
-  const [isRefreshing, setIsRefreshing] = useState(false)
   const tableRef = useRef<HTMLDivElement>(null)
   const { favorites, toggleFavorite, isFavorite } = useFavorites()
-  const [loadingProgress, setLoadingProgress] = useState(0)
   const [dataSource, setDataSource] = useState(getCurrentApiSource())
-  const [retryCount, setRetryCount] = useState(0)
-  const [isRetrying, setIsRetrying] = useState(false)
-  const maxRetries = 3
+  // The list is shared with the rest of the app and revalidated in place
+  const list = useMarketList(currency)
+  const allCryptos = useMemo(() => list.data ?? [], [list.data])
+  const { loading, error, refreshing: isRefreshing, updatedAt: lastUpdated } = list
+  const loadingProgress = useLoadingProgress(loading)
+  const { interval: autoRefreshInterval } = useAutoRefreshState()
+  const { settings: consensusSettings, setSettings: setConsensusSettings } = useConsensusSettings()
+  // Only the coins on the current page are cross-checked
+  const consensus = useConsensus(cryptos.map((crypto) => crypto.id), currency, consensusSettings)
+  const disagreements = Object.values(consensus.quotes).filter((quote) => quote.disagreement).length
+  // Prices on the current page are patched in place as they stream in
+  const live = useLivePrices(cryptos.map((crypto) => crypto.id), currency)
 
   // Save preferences to localStorage
   useEffect(() => {
@@ -99,12 +115,12 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
     return () => clearInterval(checkInterval)
   }, [dataSource])
 
-  // Add a refresh function
-  const refreshData = useCallback(async () => {
-    setIsRefreshing(true)
-    await fetchCryptos(true)
-    setIsRefreshing(false)
-  }, [currency])
+  const refreshData = list.refresh
+
+  // Pick up the source of each new result
+  useEffect(() => {
+    if (lastUpdated) setDataSource(getCurrentApiSource())
+  }, [lastUpdated])
 
   // Handle favorite toggle with toast notification
   const handleToggleFavorite = (id: string, name: string) => {
@@ -118,70 +134,6 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
     })
   }
 
-  // Add the fetchCryptos function as a named function that can be called elsewhere
-  const fetchCryptos = useCallback(
-    async (forceRefresh = false) => {
-      try {
-        setLoading(true)
-        setError(null)
-        setLoadingProgress(10)
-
-        // Simulate progress while fetching
-        const progressInterval = setInterval(() => {
-          setLoadingProgress((prev) => {
-            if (prev >= 90) {
-              clearInterval(progressInterval)
-              return prev
-            }
-            return prev + 10
-          })
-        }, 300)
-
-        const data = await getCryptoList(currency, forceRefresh)
-        setDataSource(getCurrentApiSource())
-
-        // Store the last fetch time
-        sessionStorage.setItem("last-fetch-time", Date.now().toString())
-
-        // Set all cryptos
-        setAllCryptos(Array.isArray(data) ? data : [])
-        setLastUpdated(new Date())
-        setRetryCount(0)
-        setIsRetrying(false)
-        setLoadingProgress(100)
-
-        clearInterval(progressInterval)
-        return data
-      } catch (err) {
-        console.error("Error fetching crypto list:", err)
-        const errorMessage = formatErrorMessage(err)
-        setError(errorMessage)
-
-        if (retryCount < maxRetries && !isRetrying) {
-          // Auto-retry with exponential backoff
-          setIsRetrying(true)
-          const delay = Math.pow(2, retryCount) * 1000
-          toast({
-            title: "Retrying data fetch",
-            description: `Attempt ${retryCount + 1} of ${maxRetries}. Retrying in ${delay / 1000} seconds.`,
-            variant: "default",
-          })
-
-          setTimeout(() => {
-            setRetryCount((prev) => prev + 1)
-            fetchCryptos(true)
-          }, delay)
-        }
-        return []
-      } finally {
-        setLoading(false)
-        // Reset progress after a delay to allow the progress bar to complete visually
-        setTimeout(() => setLoadingProgress(0), 500)
-      }
-    },
-    [currency, retryCount, isRetrying],
-  )
-
   // Process and sort data
   useEffect(() => {
     if (allCryptos.length === 0) return
@@ -254,23 +206,20 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
     setCryptos(filtered.slice(startIndex, endIndex))
   }, [allCryptos, query, sortBy, sortDirection, currentPage, perPage, filterFavorites, favorites, isFavorite])
 
-  // Initial data fetch
+  // Add window focus event listener to refresh data when tab becomes active; with
+  // auto-refresh on, its schedule catches up instead
   useEffect(() => {
-    fetchCryptos()
-  }, [fetchCryptos])
+    if (autoRefreshInterval) return
 
-  // Add window focus event listener to refresh data when tab becomes active
-  useEffect(() => {
     const handleFocus = () => {
-      const lastFetch = sessionStorage.getItem("last-fetch-time")
-      if (lastFetch && Date.now() - Number.parseInt(lastFetch) > 5 * 60 * 1000) {
+      if (lastUpdated && Date.now() - lastUpdated.getTime() > 5 * 60 * 1000) {
         refreshData()
       }
     }
 
     window.addEventListener("focus", handleFocus)
     return () => window.removeEventListener("focus", handleFocus)
-  }, [refreshData])
+  }, [refreshData, lastUpdated, autoRefreshInterval])
 
   const handleSort = (column: string) => {
     if (sortBy === column) {
@@ -308,12 +257,14 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
           {lastUpdated && (
             <p className="text-xs text-muted-foreground">
               Last updated: {lastUpdated.toLocaleTimeString()}
+              <RefreshCountdown className="ml-1" />
               {isRefreshing && (
                 <span className="ml-2 inline-flex items-center">
                   <Loader2 className="mr-1 h-3 w-3 animate-spin" /> Refreshing...
                 </span>
               )}
               <ApiSourceIndicator className="ml-2" />
+              <LiveIndicator state={live.state} className="ml-2" />
             </p>
           )}
           {!loading && !error && (
@@ -322,6 +273,30 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
               {query && ` matching "${query}"`}
             </p>
           )}
+          {!loading && !error && <FxNote provenance={cryptos.find((crypto) => crypto.provenance.fx)?.provenance} />}
+          {consensusSettings.enabled && !loading && (
+            <p className="text-xs text-muted-foreground">
+              {consensus.loading ? (
+                <span className="inline-flex items-center">
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" /> Cross-checking prices...
+                </span>
+              ) : consensus.error ? (
+                `Consensus unavailable: ${consensus.error}`
+              ) : consensus.sources.length < 2 ? (
+                "Consensus needs at least two healthy providers; showing single-source prices."
+              ) : (
+                <>
+                  Median price of {consensus.sources.map((id) => getProvider(id)?.name ?? id).join(", ")}
+                  {disagreements > 0 && (
+                    <span className="ml-1 text-amber-600 dark:text-amber-500">
+                      · {disagreements} {disagreements === 1 ? "coin differs" : "coins differ"} by more than{" "}
+                      {consensusSettings.threshold}%
+                    </span>
+                  )}
+                </>
+              )}
+            </p>
+          )}
         </div>
         <div className="flex flex-wrap items-center gap-2">
           <Select value={perPage.toString()} onValueChange={(value) => setPerPage(Number(value))}>
@@ -335,6 +310,8 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
               <SelectItem value="100">100</SelectItem>
             </SelectContent>
           </Select>
+          <AutoRefreshSelect />
+          <ConsensusToggle settings={consensusSettings} setSettings={setConsensusSettings} />
           <CurrencyToggle currency={currency} setCurrency={setCurrency} />
         </div>
       </div>
@@ -471,74 +448,98 @@ export function CryptoList({ filterFavorites = false }: CryptoListProps) {
                     </TableRow>
                   ))
                 ) : cryptos.length > 0 ? (
-                  cryptos.map((crypto) => (
-                    <TableRow key={crypto.id} className="group">
-                      <TableCell>{crypto.market_cap_rank || "-"}</TableCell>
-                      <TableCell>
-                        <Link
-                          href={`/crypto/${crypto.id}`}
-                          className="flex items-center gap-2 hover:underline group-hover:text-primary"
-                        >
-                          <Image
-                            src={crypto.image || "/placeholder.svg?height=24&width=24"}
-                            alt={crypto.name}
-                            width={24}
-                            height={24}
-                            className="rounded-full"
-                          />
-                          <div>
-                            <div className="font-medium">{crypto.name}</div>
-                            <div className="text-xs text-muted-foreground uppercase">{crypto.symbol}</div>
+                  cryptos.map((crypto) => {
+                    const quote = consensus.quotes[crypto.id]
+                    const showMedian = quote !== undefined && quote.sources.length >= 2
+                    const livePrice = live.prices[crypto.id]?.price
+                    const price = showMedian ? quote.median : (livePrice ?? crypto.current_price)
+
+                    return (
+                      <TableRow key={crypto.id} className="group">
+                        <TableCell>
+                          {crypto.market_cap_rank || "-"}
+                          <ProvenanceMark provenance={crypto.provenance} path="market_cap_rank" className="ml-1" />
+                        </TableCell>
+                        <TableCell>
+                          <Link
+                            href={`/crypto/${crypto.id}`}
+                            className="flex items-center gap-2 hover:underline group-hover:text-primary"
+                          >
+                            <Image
+                              src={crypto.image || "/placeholder.svg?height=24&width=24"}
+                              alt={crypto.name}
+                              width={24}
+                              height={24}
+                              className="rounded-full"
+                            />
+                            <div>
+                              <div className="font-medium">{crypto.name}</div>
+                              <div className="text-xs text-muted-foreground uppercase">{crypto.symbol}</div>
+                            </div>
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          <div className="flex items-center justify-end gap-1">
+                            {quote && (
+                              <ConsensusIndicator
+                                quote={quote}
+                                currency={currency}
+                                threshold={consensusSettings.threshold}
+                              />
+                            )}
+                            {!showMedian && livePrice === undefined && (
+                              <ProvenanceMark provenance={crypto.provenance} path="current_price" />
+                            )}
+                            <PriceFlash value={price}>{formatters.currency(price, currency)}</PriceFlash>
                           </div>
-                        </Link>
-                      </TableCell>
-                      <TableCell className="text-right font-medium">
-                        {formatters.currency(crypto.current_price, currency)}
-                      </TableCell>
-                      <TableCell
-                        className={`text-right font-medium ${
-                          crypto.price_change_percentage_24h > 0
-                            ? "text-green-500"
-                            : crypto.price_change_percentage_24h < 0
-                              ? "text-red-500"
-                              : ""
-                        }`}
-                      >
-                        <div className="flex items-center justify-end">
-                          {crypto.price_change_percentage_24h > 0 ? (
-                            <ChevronUp className="mr-1 h-4 w-4" />
-                          ) : crypto.price_change_percentage_24h < 0 ? (
-                            <ChevronDown className="mr-1 h-4 w-4" />
-                          ) : null}
-                          {formatters.percentage(crypto.price_change_percentage_24h)}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {crypto.market_cap !== undefined && crypto.market_cap !== null
-                          ? formatters.currency(crypto.market_cap, currency, { maximumFractionDigits: 0 })
-                          : "N/A"}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {crypto.total_volume !== undefined && crypto.total_volume !== null
-                          ? formatters.currency(crypto.total_volume, currency, { maximumFractionDigits: 0 })
-                          : "N/A"}
-                      </TableCell>
-                      <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-yellow-400"
-                          onClick={() => handleToggleFavorite(crypto.id, crypto.name)}
-                          title={isFavorite(crypto.id) ? "Remove from favorites" : "Add to favorites"}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            (crypto.price_change_percentage_24h ?? 0) > 0
+                              ? "text-green-500"
+                              : (crypto.price_change_percentage_24h ?? 0) < 0
+                                ? "text-red-500"
+                                : ""
+                          }`}
                         >
-                          <Star className={`h-4 w-4 ${isFavorite(crypto.id) ? "fill-yellow-400" : ""}`} />
-                          <span className="sr-only">
-                            {isFavorite(crypto.id) ? "Remove from favorites" : "Add to favorites"}
-                          </span>
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                          <div className="flex items-center justify-end">
+                            {(crypto.price_change_percentage_24h ?? 0) > 0 ? (
+                              <ChevronUp className="mr-1 h-4 w-4" />
+                            ) : (crypto.price_change_percentage_24h ?? 0) < 0 ? (
+                              <ChevronDown className="mr-1 h-4 w-4" />
+                            ) : null}
+                            {formatters.percentage(crypto.price_change_percentage_24h)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <ProvenanceMark provenance={crypto.provenance} path="market_cap" className="mr-1" />
+                          {crypto.market_cap !== undefined && crypto.market_cap !== null
+                            ? formatters.currency(crypto.market_cap, currency, { maximumFractionDigits: 0 })
+                            : "N/A"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <ProvenanceMark provenance={crypto.provenance} path="total_volume" className="mr-1" />
+                          {crypto.total_volume !== undefined && crypto.total_volume !== null
+                            ? formatters.currency(crypto.total_volume, currency, { maximumFractionDigits: 0 })
+                            : "N/A"}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-yellow-400"
+                            onClick={() => handleToggleFavorite(crypto.id, crypto.name)}
+                            title={isFavorite(crypto.id) ? "Remove from favorites" : "Add to favorites"}
+                          >
+                            <Star className={`h-4 w-4 ${isFavorite(crypto.id) ? "fill-yellow-400" : ""}`} />
+                            <span className="sr-only">
+                              {isFavorite(crypto.id) ? "Remove from favorites" : "Add to favorites"}
+                            </span>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
                 ) : (
                   <TableRow>
                     <TableCell colSpan={7} className="h-24 text-center">
@@ -5,54 +5,62 @@ import { Check, ChevronsUpDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { currencySymbol, QUOTE_CURRENCIES, type QuoteCurrencyKind } from "@/lib/currencies"
 import { cn } from "@/lib/utils"
 import { useState } from "react"
 
-const currencies = [
-  { value: "usd", label: "USD", symbol: "$" },
-  { value: "eur", label: "EUR", symbol: "€" },
-  { value: "gbp", label: "GBP", symbol: "£" },
-  { value: "jpy", label: "JPY", symbol: "¥" },
+const groups: { kind: QuoteCurrencyKind; heading: string }[] = [
+  { kind: "fiat", heading: "Fiat" },
+  { kind: "crypto", heading: "Crypto" },
 ]
 
 interface CurrencyToggleProps {
   currency: string
   setCurrency: (currency: string) => void
+  // Groups to offer, e.g. only fiat where crypto units make no sense
+  kinds?: QuoteCurrencyKind[]
 }
 
-export function CurrencyToggle({ currency, setCurrency }: CurrencyToggleProps) {
+export function CurrencyToggle({ currency, setCurrency, kinds = ["fiat", "crypto"] }: CurrencyToggleProps) {
   const [open, setOpen] = useState(false)
 
-  const selectedCurrency = currencies.find((c) => c.value === currency) || currencies[0]
+  const selectedCurrency = QUOTE_CURRENCIES.find((c) => c.code === currency) || QUOTE_CURRENCIES[0]
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
-        <Button variant="outline" role="combobox" aria-expanded={open} className="w-[120px] justify-between">
-          {selectedCurrency.symbol} {selectedCurrency.label}
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-[130px] justify-between">
+          {currencySymbol(selectedCurrency.code)} {selectedCurrency.code.toUpperCase()}
           <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-[120px] p-0">
+      <PopoverContent className="w-[260px] p-0">
         <Command>
           <CommandInput placeholder="Search currency..." />
           <CommandList>
             <CommandEmpty>No currency found.</CommandEmpty>
-            <CommandGroup>
-              {currencies.map((c) => (
-                <CommandItem
-                  key={c.value}
-                  value={c.value}
-                  onSelect={(currentValue) => {
-                    setCurrency(currentValue)
-                    setOpen(false)
-                  }}
-                >
-                  <Check className={cn("mr-2 h-4 w-4", currency === c.value ? "opacity-100" : "opacity-0")} />
-                  {c.symbol} {c.label}
-                </CommandItem>
+            {groups
+              .filter((group) => kinds.includes(group.kind))
+              .map((group) => (
+                <CommandGroup key={group.kind} heading={group.heading}>
+                  {QUOTE_CURRENCIES.filter((c) => c.kind === group.kind).map((c) => (
+                    <CommandItem
+                      key={c.code}
+                      // Searchable by code and name
+                      value={`${c.code} ${c.name}`}
+                      onSelect={() => {
+                        setCurrency(c.code)
+                        setOpen(false)
+                      }}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", currency === c.code ? "opacity-100" : "opacity-0")} />
+                      <span className="w-12 font-medium">{c.code.toUpperCase()}</span>
+                      <span className="truncate text-muted-foreground">{c.name}</span>
+                      <span className="ml-auto pl-2 text-muted-foreground">{currencySymbol(c.code)}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
               ))}
-            </CommandGroup>
           </CommandList>
         </Command>
       </PopoverContent>
@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { endOfDay, format, startOfDay } from "date-fns"
+import { CalendarRange } from "lucide-react"
+import type { DateRange } from "react-day-picker"
+
+import type { ChartWindow } from "@/components/market-data-provider"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+interface DateRangePickerProps {
+  value: ChartWindow | null
+  onChange: (range: ChartWindow) => void
+  active?: boolean
+}
+
+export function formatDateRange({ from, to }: ChartWindow): string {
+  return `${format(from, "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}`
+}
+
+/**
+ * Picks whole days, from the start of the first to the end of the last
+ */
+export function DateRangePicker({ value, onChange, active }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<DateRange | undefined>()
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) setDraft(value ? { from: new Date(value.from), to: new Date(value.to) } : undefined)
+  }
+
+  const apply = () => {
+    if (!draft?.from) return
+    onChange({ from: startOfDay(draft.from).getTime(), to: endOfDay(draft.to ?? draft.from).getTime() })
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant={active ? "secondary" : "outline"} size="sm" className="h-9">
+          <CalendarRange className="mr-2 h-4 w-4" />
+          {active && value ? formatDateRange(value) : "Custom"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={draft}
+          onSelect={setDraft}
+          defaultMonth={draft?.from}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex items-center justify-between gap-2 border-t p-3">
+          <span className="text-xs text-muted-foreground">
+            {draft?.from
+              ? formatDateRange({ from: draft.from.getTime(), to: (draft.to ?? draft.from).getTime() })
+              : "Pick a start and end date"}
+          </span>
+          <Button size="sm" onClick={apply} disabled={!draft?.from}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import type { Provenance } from "@/lib/models"
+import { getProvider } from "@/lib/providers/catalog"
+
+interface FxNoteProps {
+  provenance: Provenance | undefined
+  className?: string
+}
+
+/**
+ * States the exchange rate used when figures were converted from another currency.
+ * Renders nothing for records that were quoted in the requested currency.
+ */
+export function FxNote({ provenance, className = "" }: FxNoteProps) {
+  const fx = provenance?.fx
+  if (!fx) return null
+
+  const source = fx.source === "mock" ? "offline reference rate" : `${getProvider(fx.source)?.name ?? fx.source} rate`
+
+  return (
+    <p className={`text-xs text-muted-foreground ${className}`}>
+      Converted from {fx.from.toUpperCase()} at 1 {fx.from.toUpperCase()} = {fx.rate.toPrecision(6)}{" "}
+      {fx.to.toUpperCase()} ({source} as of {new Date(fx.timestamp).toLocaleString()})
+    </p>
+  )
+}
@@ -0,0 +1,396 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react"
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import { CoinPicker, type PickedCoin } from "@/components/coin-picker"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import { usePortfolio } from "@/components/portfolio-provider"
+import { formatters, searchCryptos } from "@/lib/api-utils"
+import type { MarketCoin } from "@/lib/models"
+import {
+  detectFormat,
+  GENERIC_FIELDS,
+  guessMapping,
+  IMPORT_FORMATS,
+  knownCoinId,
+  parseImport,
+  prepareImport,
+  readCsv,
+  type CandidateStatus,
+  type ColumnMapping,
+  type ImportFormat,
+  type ParseResult,
+} from "@/lib/transaction-import"
+
+interface ImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currency: string
+  known?: MarketCoin[]
+}
+
+// Preview rows shown; the rest are still imported
+const PREVIEW_ROWS = 200
+const NO_COLUMN = "none"
+
+const STATUS_BADGES: Record<CandidateStatus, { label: string; className: string }> = {
+  ready: {
+    label: "Ready",
+    className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  },
+  duplicate: {
+    label: "Duplicate",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  },
+  unmapped: {
+    label: "Unknown coin",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  },
+  invalid: {
+    label: "Error",
+    className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  },
+}
+
+/**
+ * Import transactions from an exchange's CSV export, previewing what will be added
+ */
+export function ImportDialog({ open, onOpenChange, currency, known = [] }: ImportDialogProps) {
+  const { transactions, addTransactions } = usePortfolio()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [format, setFormat] = useState<ImportFormat>("generic")
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [fallbackCurrency, setFallbackCurrency] = useState(currency)
+  const [coins, setCoins] = useState<Record<string, PickedCoin | null>>({})
+  const [resolving, setResolving] = useState(false)
+  const [fileError, setFileError] = useState<string | null>(null)
+  // Tickers already looked up, so each is searched once
+  const searched = useRef(new Set<string>())
+  // Only supplies display names, so a new market list doesn't trigger a lookup
+  const knownRef = useRef(known)
+  knownRef.current = known
+
+  useEffect(() => {
+    if (open) return
+    setFileName(null)
+    setRows(null)
+    setCoins({})
+    setFileError(null)
+    searched.current.clear()
+  }, [open])
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      const parsed = readCsv(await file.text())
+      setRows(parsed)
+      setFormat(detectFormat(parsed))
+      setMapping(guessMapping(parsed[0]))
+      setFileError(null)
+    } catch (error) {
+      setRows(null)
+      setFileError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const { result, parseError } = useMemo((): { result: ParseResult | null; parseError: string | null } => {
+    if (!rows) return { result: null, parseError: null }
+    try {
+      return { result: parseImport(rows, format, { mapping, currency: fallbackCurrency }), parseError: null }
+    } catch (error) {
+      return { result: null, parseError: error instanceof Error ? error.message : String(error) }
+    }
+  }, [rows, format, mapping, fallbackCurrency])
+
+  const symbols = [...new Set((result?.rows ?? []).map((row) => row.symbol).filter(Boolean))]
+  const symbolList = symbols.join(",")
+
+  // Map tickers through the built-in table, then search for the rest
+  useEffect(() => {
+    const pending = symbolList.split(",").filter((symbol) => symbol && !searched.current.has(symbol))
+    if (pending.length === 0) return
+    pending.forEach((symbol) => searched.current.add(symbol))
+
+    const mapped: Record<string, PickedCoin> = {}
+    for (const symbol of pending) {
+      const id = knownCoinId(symbol)
+      if (id) mapped[symbol] = { id, name: knownRef.current.find((coin) => coin.id === id)?.name ?? id, symbol }
+    }
+    setCoins((previous) => ({ ...mapped, ...previous }))
+
+    const unknown = pending.filter((symbol) => !mapped[symbol])
+    if (unknown.length === 0) return
+
+    let cancelled = false
+    setResolving(true)
+    Promise.all(
+      unknown.map(async (symbol): Promise<[string, PickedCoin | null]> => {
+        try {
+          const suggestions = await searchCryptos(symbol)
+          const match = suggestions.find((coin) => coin.symbol.toLowerCase() === symbol.toLowerCase())
+          return [symbol, match ? { id: match.id, name: match.name, symbol: match.symbol, image: match.thumb } : null]
+        } catch (error) {
+          console.error(`Error looking up ${symbol}:`, error)
+          return [symbol, null]
+        }
+      }),
+    ).then((found) => {
+      if (cancelled) return
+      setCoins((previous) => ({ ...Object.fromEntries(found), ...previous }))
+      setResolving(false)
+    })
+
+    return () => {
+      cancelled = true
+      // Searches cut short are retried on the next run
+      unknown.forEach((symbol) => searched.current.delete(symbol))
+      setResolving(false)
+    }
+  }, [symbolList])
+
+  const candidates = result
+    ? prepareImport(
+        result,
+        Object.fromEntries(Object.entries(coins).map(([symbol, coin]) => [symbol, coin?.id])),
+        transactions,
+      )
+    : []
+  const counts = candidates.reduce(
+    (total, candidate) => ({ ...total, [candidate.status]: total[candidate.status] + 1 }),
+    { ready: 0, duplicate: 0, unmapped: 0, invalid: 0 } as Record<CandidateStatus, number>,
+  )
+  const headers = rows?.[0] ?? []
+
+  const handleImport = () => {
+    const ready = candidates.flatMap((candidate) =>
+      candidate.status === "ready" && candidate.transaction ? [candidate.transaction] : [],
+    )
+    addTransactions(ready)
+    toast({
+      title: `Imported ${ready.length} transaction${ready.length === 1 ? "" : "s"}`,
+      description: counts.duplicate > 0 ? `${counts.duplicate} already in the portfolio were skipped.` : undefined,
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import transactions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV export from Binance, Coinbase or Kraken, or any CSV with one trade per row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFile} className="w-[280px]" />
+          </div>
+          {rows && (
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+                <SelectTrigger className="w-[200px]" aria-label="Export format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} <span className="text-muted-foreground">· {option.description}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {(fileError || parseError) && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Could not read {fileName ?? "the file"}</AlertTitle>
+            <AlertDescription>{fileError ?? parseError}</AlertDescription>
+          </Alert>
+        )}
+
+        {rows && format === "generic" && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Columns</div>
+            <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+              {GENERIC_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="space-y-1 text-xs text-muted-foreground">
+                  {label}
+                  {required && " *"}
+                  <Select
+                    value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === NO_COLUMN ? undefined : Number(value) })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>—</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              ))}
+              {mapping.currency === undefined && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  Prices in
+                  <CurrencyToggle currency={fallbackCurrency} setCurrency={setFallbackCurrency} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {symbols.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              Coins
+              {resolving && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {symbols.map((symbol) => (
+                <div key={symbol} className="flex items-center gap-1 rounded-md border py-1 pl-2 pr-1 text-sm">
+                  <span className="font-medium">{symbol}</span>
+                  <span className="text-muted-foreground">→</span>
+                  <CoinPicker
+                    selected={coins[symbol] ? [coins[symbol]!.id] : []}
+                    onSelect={(coin) => setCoins({ ...coins, [symbol]: coin })}
+                    known={known}
+                    label={coins[symbol]?.name ?? "Pick coin"}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(Object.keys(counts) as CandidateStatus[])
+                .filter((status) => counts[status] > 0)
+                .map((status) => (
+                  <Badge key={status} variant="outline" className={STATUS_BADGES[status].className}>
+                    {counts[status]} {STATUS_BADGES[status].label.toLowerCase()}
+                  </Badge>
+                ))}
+              {result.skipped.length > 0 && (
+                <Badge
+                  variant="outline"
+                  title={result.skipped.map((row) => `Row ${row.row}: ${row.reason}`).join("\n")}
+                >
+                  {result.skipped.length} skipped
+                </Badge>
+              )}
+            </div>
+            <div className="max-h-[320px] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Coin</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.slice(0, PREVIEW_ROWS).map(({ row, status }) => {
+                    const valid = status !== "invalid"
+                    return (
+                      <TableRow key={`${row.row}-${row.externalId ?? ""}`}>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {Number.isFinite(row.date) ? new Date(row.date).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell>{row.type === "buy" ? "Buy" : "Sell"}</TableCell>
+                        <TableCell>{row.symbol || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {Number.isFinite(row.quantity)
+                            ? row.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {valid ? formatters.currency(row.price, row.currency) : row.price}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {valid ? formatters.currency(row.fee, row.currency) : row.fee}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={STATUS_BADGES[status].className}>
+                            {STATUS_BADGES[status].label}
+                          </Badge>
+                          {[...row.errors, ...row.warnings].map((message) => (
+                            <div
+                              key={message}
+                              className={`text-xs ${
+                                row.errors.includes(message) ? "text-red-500" : "text-muted-foreground"
+                              }`}
+                            >
+                              {message}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {candidates.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_ROWS} of {candidates.length} rows.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={counts.ready === 0 || resolving}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Import {counts.ready > 0 ? counts.ready : ""} transaction{counts.ready === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Activity } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Switch } from "@/components/ui/switch"
+import type { IndicatorSettings } from "@/hooks/use-indicator-settings"
+
+interface IndicatorToggleProps {
+  settings: IndicatorSettings
+  setSettings: (settings: IndicatorSettings) => void
+  disabled?: boolean
+}
+
+type IndicatorKey = keyof IndicatorSettings
+
+const LABELS: Record<IndicatorKey, string> = {
+  sma: "SMA",
+  ema: "EMA",
+  bollinger: "Bollinger Bands",
+  vwap: "VWAP",
+  rsi: "RSI",
+  macd: "MACD",
+}
+
+const MIN_PERIOD = 2
+const MAX_PERIOD = 200
+
+function PeriodInput({
+  label,
+  value,
+  onChange,
+  step = 1,
+  min = MIN_PERIOD,
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  step?: number
+  min?: number
+}) {
+  return (
+    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+      {label}
+      <Input
+        type="number"
+        min={min}
+        max={MAX_PERIOD}
+        step={step}
+        // Uncontrolled, so partly typed values such as the "1" of "14" aren't rejected
+        defaultValue={value}
+        onChange={(event) => {
+          const next = Number(event.target.value)
+          if (Number.isFinite(next) && next >= min && next <= MAX_PERIOD) onChange(next)
+        }}
+        className="h-7 w-16 px-2 text-xs"
+      />
+    </label>
+  )
+}
+
+export function IndicatorToggle({ settings, setSettings, disabled }: IndicatorToggleProps) {
+  const active = (Object.keys(settings) as IndicatorKey[]).filter((key) => settings[key].enabled)
+
+  const update = <K extends IndicatorKey>(key: K, changes: Partial<IndicatorSettings[K]>) =>
+    setSettings({ ...settings, [key]: { ...settings[key], ...changes } })
+
+  const row = (key: IndicatorKey, options?: ReactNode) => (
+    <div key={key} className="space-y-2">
+      <label className="flex items-center justify-between gap-2 text-sm font-medium">
+        {LABELS[key]}
+        <Switch checked={settings[key].enabled} onCheckedChange={(enabled) => update(key, { enabled })} />
+      </label>
+      {options && settings[key].enabled && <div className="flex flex-wrap gap-2">{options}</div>}
+    </div>
+  )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={active.length > 0 ? "secondary" : "outline"} size="sm" className="h-8" disabled={disabled}>
+          <Activity className="mr-2 h-4 w-4" />
+          Indicators{active.length > 0 ? ` (${active.length})` : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="text-xs font-medium uppercase text-muted-foreground">Overlays</div>
+        {row(
+          "sma",
+          <PeriodInput label="Period" value={settings.sma.period} onChange={(period) => update("sma", { period })} />,
+        )}
+        {row(
+          "ema",
+          <PeriodInput label="Period" value={settings.ema.period} onChange={(period) => update("ema", { period })} />,
+        )}
+        {row(
+          "bollinger",
+          <>
+            <PeriodInput
+              label="Period"
+              value={settings.bollinger.period}
+              onChange={(period) => update("bollinger", { period })}
+            />
+            <PeriodInput
+              label="σ"
+              value={settings.bollinger.deviations}
+              step={0.5}
+              min={0.5}
+              onChange={(deviations) => update("bollinger", { deviations })}
+            />
+          </>,
+        )}
+        {row("vwap")}
+        <div className="text-xs font-medium uppercase text-muted-foreground">Oscillators</div>
+        {row(
+          "rsi",
+          <PeriodInput label="Period" value={settings.rsi.period} onChange={(period) => update("rsi", { period })} />,
+        )}
+        {row(
+          "macd",
+          <>
+            <PeriodInput label="Fast" value={settings.macd.fast} onChange={(fast) => update("macd", { fast })} />
+            <PeriodInput label="Slow" value={settings.macd.slow} onChange={(slow) => update("macd", { slow })} />
+            <PeriodInput
+              label="Signal"
+              value={settings.macd.signal}
+              onChange={(signal) => update("macd", { signal })}
+            />
+          </>,
+        )}
+        <p className="text-xs text-muted-foreground">
+          Computed from the points shown on the chart, so values need a period&apos;s worth of history before they
+          appear.
+        </p>
+      </PopoverContent>
+    </Popover>
+  )
+}
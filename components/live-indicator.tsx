@@ -0,0 +1,49 @@
+"use client"
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { STREAM_CONFIG } from "@/lib/api-config"
+import type { StreamState } from "@/lib/price-stream"
+import { getProvider } from "@/lib/providers/catalog"
+
+interface LiveIndicatorProps {
+  state: StreamState
+  className?: string
+}
+
+/**
+ * Shows whether prices are streaming live or being polled
+ */
+export function LiveIndicator({ state, className = "" }: LiveIndicatorProps) {
+  const sources = state.sources.map((id) => getProvider(id)?.name ?? id).join(", ")
+  const label = state.status === "live" ? "Live" : state.status === "polling" ? "Polling" : "Connecting"
+  const dot =
+    state.status === "live" ? "bg-green-500 animate-pulse" : state.status === "polling" ? "bg-amber-500" : "bg-muted-foreground"
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={`inline-flex cursor-help items-center gap-1 text-xs text-muted-foreground ${className}`}>
+            <span className={`h-2 w-2 rounded-full ${dot}`} />
+            {label}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {state.status === "polling" ? (
+            <p>Live streams are unavailable; prices refresh every {STREAM_CONFIG.pollInterval / 1000} seconds.</p>
+          ) : state.status === "live" ? (
+            <p>Prices stream live from {sources}.</p>
+          ) : (
+            <p>Connecting to live price streams...</p>
+          )}
+          {state.status !== "polling" && state.polled.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {state.polled.length} {state.polled.length === 1 ? "coin has" : "coins have"} no stream and{" "}
+              {state.polled.length === 1 ? "is" : "are"} polled every {STREAM_CONFIG.pollInterval / 1000} seconds.
+            </p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,347 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import { toast } from "@/components/ui/use-toast"
+import { useAutoRefresh, type AutoRefreshState } from "@/hooks/use-auto-refresh"
+import {
+  formatErrorMessage,
+  getCryptoChartData,
+  getCryptoChartRange,
+  getCryptoDetail,
+  getCryptoList,
+} from "@/lib/api-utils"
+import type { CoinDetail, MarketCoin, PriceSeries } from "@/lib/models"
+
+export type DataSection = "list" | "detail" | "chart"
+
+const SECTION_LABELS: Record<DataSection, string> = {
+  list: "data",
+  detail: "data",
+  chart: "chart data",
+}
+
+const MAX_RETRIES = 3
+// Data no component has shown for this long is dropped
+const EVICT_AFTER = 5 * 60 * 1000
+
+interface Entry {
+  data: unknown
+  error: string | null
+  // "loading" until the first result arrives, "refreshing" while revalidating shown data
+  status: "idle" | "loading" | "refreshing"
+  retrying: boolean
+  updatedAt: Date | null
+}
+
+interface Loader {
+  section: DataSection
+  load: (forceRefresh: boolean) => Promise<unknown>
+  // Mounted components showing this data; only these are revalidated by a refresh
+  subscribers: number
+}
+
+export interface Resource<T> {
+  data: T | undefined
+  error: string | null
+  // No data to show yet
+  loading: boolean
+  // Revalidating data that stays on screen
+  refreshing: boolean
+  retrying: boolean
+  updatedAt: Date | null
+  refresh: () => Promise<void>
+}
+
+type MarketDataContextType = {
+  entries: Record<string, Entry>
+  subscribe: (key: string, section: DataSection, load: Loader["load"]) => () => void
+  revalidate: (key: string, forceRefresh?: boolean) => Promise<void>
+  refresh: (sections?: DataSection[]) => Promise<void>
+  refreshing: Record<DataSection, boolean>
+  autoRefresh: AutoRefreshState
+}
+
+const EMPTY_ENTRY: Entry = { data: undefined, error: null, status: "idle", retrying: false, updatedAt: null }
+
+const MarketDataContext = createContext<MarketDataContextType | undefined>(undefined)
+
+/**
+ * Owns the list, detail and chart data shown on screen, so any part of the UI can
+ * revalidate it in place instead of reloading the page
+ */
+export function MarketDataProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<Record<string, Entry>>({})
+  const loaders = useRef(new Map<string, Loader>())
+  const inFlight = useRef(new Map<string, Promise<void>>())
+  const retries = useRef(new Map<string, number>())
+  const hasData = useRef(new Set<string>())
+  const evictions = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+
+  const update = (key: string, changes: Partial<Entry>) =>
+    setEntries((previous) => ({ ...previous, [key]: { ...EMPTY_ENTRY, ...previous[key], ...changes } }))
+
+  const revalidate = useCallback((key: string, forceRefresh = false): Promise<void> => {
+    const loader = loaders.current.get(key)
+    if (!loader) return Promise.resolve()
+
+    // Concurrent requests for the same data share one fetch
+    const pending = inFlight.current.get(key)
+    if (pending) return pending
+
+    update(key, { status: hasData.current.has(key) ? "refreshing" : "loading" })
+
+    const request = loader
+      .load(forceRefresh)
+      .then((data) => {
+        hasData.current.add(key)
+        retries.current.delete(key)
+        update(key, { data, error: null, status: "idle", retrying: false, updatedAt: new Date() })
+      })
+      .catch((err) => {
+        console.error(`Error fetching ${key}:`, err)
+        const attempt = retries.current.get(key) ?? 0
+        const retrying = attempt < MAX_RETRIES && loaders.current.has(key)
+        update(key, { error: formatErrorMessage(err), status: "idle", retrying })
+
+        if (retrying) {
+          // Auto-retry with exponential backoff
+          const delay = Math.pow(2, attempt) * 1000
+          retries.current.set(key, attempt + 1)
+          // Data on screen stays there, so a failed revalidation retries quietly
+          if (!hasData.current.has(key)) {
+            toast({
+              title: `Retrying ${SECTION_LABELS[loader.section]} fetch`,
+              description: `Attempt ${attempt + 1} of ${MAX_RETRIES}. Retrying in ${delay / 1000} seconds.`,
+              variant: "default",
+            })
+          }
+          setTimeout(() => revalidate(key, true), delay)
+        }
+      })
+      .finally(() => inFlight.current.delete(key))
+
+    inFlight.current.set(key, request)
+    return request
+  }, [])
+
+  const subscribe = useCallback(
+    (key: string, section: DataSection, load: Loader["load"]) => {
+      clearTimeout(evictions.current.get(key))
+      evictions.current.delete(key)
+      const existing = loaders.current.get(key)
+      loaders.current.set(key, { section, load, subscribers: (existing?.subscribers ?? 0) + 1 })
+      // Data shown before stays on screen while it is checked against the cache
+      revalidate(key)
+
+      return () => {
+        const loader = loaders.current.get(key)
+        if (!loader) return
+        if (loader.subscribers > 1) {
+          loaders.current.set(key, { ...loader, subscribers: loader.subscribers - 1 })
+        } else {
+          loaders.current.delete(key)
+          // Kept a while, so going back to a page shows its data straight away
+          evictions.current.set(
+            key,
+            setTimeout(() => {
+              evictions.current.delete(key)
+              hasData.current.delete(key)
+              retries.current.delete(key)
+              setEntries((previous) => {
+                const next = { ...previous }
+                delete next[key]
+                return next
+              })
+            }, EVICT_AFTER),
+          )
+        }
+      }
+    },
+    [revalidate],
+  )
+
+  // Revalidate everything on screen, or only the given sections
+  const refresh = useCallback(
+    async (sections?: DataSection[]) => {
+      const keys = [...loaders.current.entries()]
+        .filter(([, loader]) => !sections || sections.includes(loader.section))
+        .map(([key]) => key)
+      keys.forEach((key) => retries.current.delete(key))
+      await Promise.all(keys.map((key) => revalidate(key, true)))
+    },
+    [revalidate],
+  )
+
+  // One schedule for everything on screen, so the list, details and chart stay in step
+  const autoRefresh = useAutoRefresh(refresh)
+
+  const refreshing = useMemo(() => {
+    const busy = (section: DataSection) =>
+      [...loaders.current.entries()].some(
+        ([key, loader]) => loader.section === section && entries[key]?.status === "refreshing",
+      )
+    return { list: busy("list"), detail: busy("detail"), chart: busy("chart") }
+  }, [entries])
+
+  return (
+    <MarketDataContext.Provider value={{ entries, subscribe, revalidate, refresh, refreshing, autoRefresh }}>
+      {children}
+    </MarketDataContext.Provider>
+  )
+}
+
+function useMarketDataContext() {
+  const context = useContext(MarketDataContext)
+  if (context === undefined) {
+    throw new Error("useMarketData must be used within a MarketDataProvider")
+  }
+  return context
+}
+
+/**
+ * Subscribe to the data behind `key`, fetching it on first use
+ */
+function useResource<T>(key: string, section: DataSection, load: Loader["load"]): Resource<T> {
+  const { entries, subscribe, revalidate } = useMarketDataContext()
+  // The key identifies the request, so the loader only needs to be picked up when it changes
+  const loadRef = useRef(load)
+  loadRef.current = load
+
+  useEffect(() => subscribe(key, section, (forceRefresh) => loadRef.current(forceRefresh)), [key, section, subscribe])
+
+  const refresh = useCallback(() => revalidate(key, true), [key, revalidate])
+  return toResource(entries[key], refresh)
+}
+
+function toResource<T>(entry: Entry = EMPTY_ENTRY, refresh: () => Promise<void>): Resource<T> {
+  return {
+    data: entry.data as T | undefined,
+    error: entry.error,
+    loading: entry.data === undefined && !entry.error,
+    refreshing: entry.status === "refreshing",
+    retrying: entry.retrying,
+    updatedAt: entry.updatedAt,
+    refresh,
+  }
+}
+
+export function useMarketList(currency: string): Resource<MarketCoin[]> {
+  return useResource(`list-${currency}`, "list", (forceRefresh) => getCryptoList(currency, forceRefresh))
+}
+
+export function useCoinDetail(id: string, currency: string): Resource<CoinDetail> {
+  return useResource(`detail-${id}-${currency}`, "detail", (forceRefresh) =>
+    getCryptoDetail(id, currency, forceRefresh),
+  )
+}
+
+// Explicit chart window, in ms
+export interface ChartWindow {
+  from: number
+  to: number
+}
+
+/**
+ * Chart data for a number of days back from now ("max" for all history), or for a window
+ */
+export function useChartData(id: string, currency: string, range: string | ChartWindow): Resource<PriceSeries> {
+  const key = typeof range === "string" ? range : `${range.from}-${range.to}`
+  return useResource(`chart-${id}-${currency}-${key}`, "chart", (forceRefresh) =>
+    loadChart(id, currency, range, forceRefresh),
+  )
+}
+
+function loadChart(id: string, currency: string, range: string | ChartWindow, forceRefresh: boolean) {
+  return typeof range === "string"
+    ? getCryptoChartData(id, currency, range, forceRefresh)
+    : getCryptoChartRange(id, currency, range.from, range.to, forceRefresh)
+}
+
+/**
+ * Subscribe to one resource per id, keyed by id
+ */
+function useResourceSet<T>(
+  ids: string[],
+  keyFor: (id: string) => string,
+  section: DataSection,
+  load: (id: string, forceRefresh: boolean) => Promise<unknown>,
+): Record<string, Resource<T>> {
+  const { entries, subscribe, revalidate } = useMarketDataContext()
+  const loadRef = useRef(load)
+  loadRef.current = load
+  // Compared by value, so a new array with the same ids doesn't resubscribe
+  const keyList = ids.map((id) => `${id}|${keyFor(id)}`).join(",")
+
+  useEffect(() => {
+    const unsubscribes = keyList
+      .split(",")
+      .filter(Boolean)
+      .map((item) => {
+        const [id, key] = item.split("|")
+        return subscribe(key, section, (forceRefresh) => loadRef.current(id, forceRefresh))
+      })
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [keyList, section, subscribe])
+
+  return Object.fromEntries(
+    ids.map((id) => [id, toResource<T>(entries[keyFor(id)], () => revalidate(keyFor(id), true))]),
+  )
+}
+
+/**
+ * Chart data for several coins over the same range, keyed by coin id
+ */
+export function useChartDataSet(
+  ids: string[],
+  currency: string,
+  range: string | ChartWindow,
+): Record<string, Resource<PriceSeries>> {
+  const rangeKey = typeof range === "string" ? range : `${range.from}-${range.to}`
+  return useResourceSet(ids, (id) => `chart-${id}-${currency}-${rangeKey}`, "chart", (id, forceRefresh) =>
+    loadChart(id, currency, range, forceRefresh),
+  )
+}
+
+/**
+ * Chart data for coins each quoted in its own currency over the same range, keyed by `${id}:${currency}`
+ */
+export function useChartDataByCurrency(
+  series: { id: string; currency: string }[],
+  range: string | ChartWindow,
+): Record<string, Resource<PriceSeries>> {
+  const rangeKey = typeof range === "string" ? range : `${range.from}-${range.to}`
+  const keys = series.map(({ id, currency }) => `${id}:${currency}`)
+  return useResourceSet(
+    keys,
+    (key) => `chart-${key.replace(":", "-")}-${rangeKey}`,
+    "chart",
+    (key, forceRefresh) => {
+      const [id, currency] = key.split(":")
+      return loadChart(id, currency, range, forceRefresh)
+    },
+  )
+}
+
+/**
+ * Details for several coins, keyed by coin id
+ */
+export function useCoinDetails(ids: string[], currency: string): Record<string, Resource<CoinDetail>> {
+  return useResourceSet(ids, (id) => `detail-${id}-${currency}`, "detail", (id, forceRefresh) =>
+    getCryptoDetail(id, currency, forceRefresh),
+  )
+}
+
+/**
+ * Revalidate data on screen in place, with per-section refreshing states
+ */
+export function useMarketDataRefresh() {
+  const { refresh, refreshing } = useMarketDataContext()
+  return { refresh, refreshing }
+}
+
+/**
+ * The auto-refresh setting and schedule
+ */
+export function useAutoRefreshState() {
+  return useMarketDataContext().autoRefresh
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect, type ReactNode } from "react"
+import { transactionSchema, type NewTransaction, type Transaction } from "@/lib/portfolio"
+
+const STORAGE_KEY = "crypto-portfolio"
+
+type PortfolioContextType = {
+  transactions: Transaction[]
+  addTransaction: (transaction: NewTransaction) => void
+  addTransactions: (transactions: NewTransaction[]) => void
+  updateTransaction: (id: string, changes: Partial<NewTransaction>) => void
+  removeTransaction: (id: string) => void
+}
+
+const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined)
+
+function transactionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export function PortfolioProvider({ children }: { children: ReactNode }) {
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [isInitialized, setIsInitialized] = useState(false)
+
+  // Load transactions from localStorage on mount, dropping any that no longer parse
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]")
+        setTransactions(
+          Array.isArray(stored)
+            ? stored.flatMap((item) => {
+                const parsed = transactionSchema.safeParse(item)
+                return parsed.success ? [parsed.data] : []
+              })
+            : [],
+        )
+      } catch (error) {
+        console.error("Error loading portfolio:", error)
+        setTransactions([])
+      }
+      setIsInitialized(true)
+    }
+  }, [])
+
+  // Save transactions to localStorage whenever they change
+  useEffect(() => {
+    if (isInitialized && typeof window !== "undefined") {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+    }
+  }, [transactions, isInitialized])
+
+  const addTransaction = (transaction: NewTransaction) => {
+    setTransactions((prev) => [...prev, { ...transaction, id: transactionId() }])
+  }
+
+  const addTransactions = (added: NewTransaction[]) => {
+    setTransactions((prev) => [...prev, ...added.map((transaction) => ({ ...transaction, id: transactionId() }))])
+  }
+
+  const updateTransaction = (id: string, changes: Partial<NewTransaction>) => {
+    setTransactions((prev) =>
+      prev.map((transaction) => (transaction.id === id ? { ...transaction, ...changes } : transaction)),
+    )
+  }
+
+  const removeTransaction = (id: string) => {
+    setTransactions((prev) => prev.filter((transaction) => transaction.id !== id))
+  }
+
+  return (
+    <PortfolioContext.Provider
+      value={{ transactions, addTransaction, addTransactions, updateTransaction, removeTransaction }}
+    >
+      {children}
+    </PortfolioContext.Provider>
+  )
+}
+
+export function usePortfolio() {
+  const context = useContext(PortfolioContext)
+  if (context === undefined) {
+    throw new Error("usePortfolio must be used within a PortfolioProvider")
+  }
+  return context
+}
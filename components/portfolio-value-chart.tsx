@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useChartDataSet } from "@/components/market-data-provider"
+import { formatters } from "@/lib/api-utils"
+import { valueHistory, type Converter, type CostBasisMethod, type Transaction } from "@/lib/portfolio"
+
+const DAY = 24 * 60 * 60 * 1000
+const RANGE_DAYS: Record<string, number> = { "7": 7, "30": 30, "90": 90, "365": 365 }
+
+type ValueView = "total" | "assets"
+
+interface PortfolioValueChartProps {
+  transactions: Transaction[]
+  currency: string
+  method: CostBasisMethod
+  convert: Converter
+  coins: { id: string; name: string; color: string }[]
+}
+
+type ValueRow = { timestamp: number; date: string; total: number; cost: number } & Record<string, number | string>
+
+function formatDate(timestamp: number, span: number): string {
+  const date = new Date(timestamp)
+  if (span <= 90 * DAY) return date.toLocaleDateString([], { month: "short", day: "numeric" })
+  return date.toLocaleDateString([], { month: "short", year: "numeric" })
+}
+
+/**
+ * Portfolio value over time: transactions replayed against daily prices, as a total with
+ * its cost basis or stacked per asset
+ */
+export function PortfolioValueChart({ transactions, currency, method, convert, coins }: PortfolioValueChartProps) {
+  const [timeRange, setTimeRange] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("portfolio-chart-range") || "90"
+    }
+    return "90"
+  })
+  const [view, setView] = useState<ValueView>("total")
+
+  const ids = coins.map((coin) => coin.id)
+  const charts = useChartDataSet(ids, currency, timeRange)
+
+  useEffect(() => {
+    localStorage.setItem("portfolio-chart-range", timeRange)
+  }, [timeRange])
+
+  const loading = ids.some((id) => charts[id]?.loading)
+  const failed = coins.filter((coin) => charts[coin.id]?.error && !charts[coin.id]?.data)
+
+  // Nothing was held before the first transaction, so the chart starts there at the earliest
+  const now = Date.now()
+  const firstTransaction = Math.min(...transactions.map((transaction) => transaction.date))
+  const rangeStart = timeRange in RANGE_DAYS ? now - RANGE_DAYS[timeRange] * DAY : firstTransaction
+  const start = Math.max(rangeStart, firstTransaction)
+
+  const grid: number[] = []
+  for (let day = Math.ceil(start / DAY) * DAY; day < now; day += DAY) grid.push(day)
+  grid.push(now)
+
+  const span = now - start
+  const prices = Object.fromEntries(ids.flatMap((id) => (charts[id]?.data ? [[id, charts[id].data!.prices]] : [])))
+  const rows: ValueRow[] = loading
+    ? []
+    : valueHistory(transactions, prices, grid, method, convert).map(({ timestamp, total, cost, values }) => ({
+        timestamp,
+        date: formatDate(timestamp, span),
+        total,
+        cost,
+        ...values,
+      }))
+
+  const first = rows[0]
+  const last = rows[rows.length - 1]
+  const change = first && last && first.total > 0 ? ((last.total - first.total) / first.total) * 100 : undefined
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-center md:justify-between">
+        <div>
+          <CardTitle>Value over time</CardTitle>
+          <CardDescription>
+            {view === "total"
+              ? "Daily value of the coins held at the time, against their cost basis"
+              : "Daily value contributed by each coin"}
+            {change !== undefined && (
+              <span className={`ml-2 ${change >= 0 ? "text-green-500" : "text-red-500"}`}>
+                {formatters.percentage(change)}
+              </span>
+            )}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && setView(value as ValueView)}
+            aria-label="View"
+          >
+            <ToggleGroupItem value="total" title="Total value and cost basis">
+              Total
+            </ToggleGroupItem>
+            <ToggleGroupItem value="assets" title="Stacked value per coin">
+              By asset
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Tabs value={timeRange} onValueChange={setTimeRange}>
+            <TabsList>
+              <TabsTrigger value="7">7d</TabsTrigger>
+              <TabsTrigger value="30">30d</TabsTrigger>
+              <TabsTrigger value="90">90d</TabsTrigger>
+              <TabsTrigger value="365">1y</TabsTrigger>
+              <TabsTrigger value="max">Max</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {failed.length > 0 && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Some price histories could not be loaded</AlertTitle>
+            <AlertDescription>
+              {failed.map((coin) => coin.name).join(", ")} counted as zero until their prices load.
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="h-[320px] w-full">
+          {loading ? (
+            <Skeleton className="h-full w-full" />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="colorPortfolio" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#8884d8" stopOpacity={0.8} />
+                    <stop offset="95%" stopColor="#8884d8" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                <XAxis
+                  dataKey="timestamp"
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={30}
+                  tickFormatter={(_, index) => rows[index]?.date ?? ""}
+                />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={[0, "auto"]}
+                  tickFormatter={(value) => formatters.compact(value)}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    const row = payload?.[0]?.payload as ValueRow | undefined
+                    if (!active || !row) return null
+
+                    return (
+                      <div className="rounded-lg border bg-background p-2 shadow-md">
+                        <div className="mb-2 font-medium">{new Date(row.timestamp).toLocaleDateString()}</div>
+                        <div className="grid gap-1">
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 w-2 rounded-full bg-[#8884d8]" />
+                            <span>Value: {formatters.currency(row.total, currency)}</span>
+                          </div>
+                          {view === "total" ? (
+                            <div className="flex items-center gap-2">
+                              <div className="h-2 w-2 rounded-full bg-muted-foreground" />
+                              <span>Cost basis: {formatters.currency(row.cost, currency)}</span>
+                            </div>
+                          ) : (
+                            coins
+                              .filter((coin) => Number(row[coin.id]) > 0)
+                              .map((coin) => (
+                                <div key={coin.id} className="flex items-center gap-2">
+                                  <div className="h-2 w-2 rounded-full" style={{ backgroundColor: coin.color }} />
+                                  <span>
+                                    {coin.name}: {formatters.currency(Number(row[coin.id]), currency)}
+                                  </span>
+                                </div>
+                              ))
+                          )}
+                        </div>
+                      </div>
+                    )
+                  }}
+                />
+                {view === "total" ? (
+                  <>
+                    <Area
+                      type="monotone"
+                      dataKey="total"
+                      stroke="#8884d8"
+                      fillOpacity={1}
+                      fill="url(#colorPortfolio)"
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="cost"
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </>
+                ) : (
+                  coins.map((coin) => (
+                    <Area
+                      key={coin.id}
+                      type="monotone"
+                      dataKey={coin.id}
+                      stackId="assets"
+                      stroke={coin.color}
+                      fill={coin.color}
+                      fillOpacity={0.6}
+                      isAnimationActive={false}
+                    />
+                  ))
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,276 @@
+"use client"
+
+import { useEffect, useRef, useState, type FormEvent } from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useAlerts } from "@/components/alerts-provider"
+import { CoinPicker, type PickedCoin } from "@/components/coin-picker"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import {
+  ALERT_COOLDOWNS,
+  ALERT_TYPES,
+  DEFAULT_COOLDOWN,
+  type AlertRule,
+  type AlertType,
+  type ChangeDirection,
+  type ChangeWindow,
+  type NewAlertRule,
+} from "@/lib/alerts"
+import type { MarketCoin } from "@/lib/models"
+
+interface PriceAlertDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edited in place when given, otherwise a new alert is added
+  alert?: AlertRule
+  // Coin new alerts are for; a picker is shown when there is none
+  coin?: PickedCoin
+  // Currency new alerts start in
+  currency: string
+  known?: MarketCoin[]
+  coinName?: (id: string) => string
+}
+
+interface Draft {
+  coin: PickedCoin | null
+  type: AlertType
+  value: string
+  window: ChangeWindow
+  direction: ChangeDirection
+  currency: string
+  cooldown: string
+}
+
+function toDraft(
+  alert: AlertRule | undefined,
+  coin: PickedCoin | undefined,
+  currency: string,
+  coinName: (id: string) => string,
+): Draft {
+  if (!alert) {
+    return {
+      coin: coin ?? null,
+      type: "above",
+      value: "",
+      window: "24h",
+      direction: "either",
+      currency,
+      cooldown: String(DEFAULT_COOLDOWN),
+    }
+  }
+
+  return {
+    coin: { id: alert.coinId, name: coinName(alert.coinId), symbol: "" },
+    type: alert.type,
+    value: alert.value === undefined ? "" : String(alert.value),
+    window: alert.window ?? "24h",
+    direction: alert.direction ?? "either",
+    currency: alert.currency,
+    cooldown: String(alert.cooldown),
+  }
+}
+
+/**
+ * Check a draft, returning the rule to save or the problems to show
+ */
+function validate(draft: Draft): { alert: NewAlertRule; errors: [] } | { alert: null; errors: string[] } {
+  const errors: string[] = []
+  const value = Number(draft.value)
+
+  if (!draft.coin) errors.push("Pick a coin.")
+  if ((draft.type === "above" || draft.type === "below") && !(value > 0)) {
+    errors.push("Target price must be more than zero.")
+  }
+  if (draft.type === "change" && !(value > 0)) errors.push("Change must be more than zero percent.")
+
+  if (errors.length > 0 || !draft.coin) return { alert: null, errors }
+
+  return {
+    alert: {
+      coinId: draft.coin.id,
+      type: draft.type,
+      value: draft.type === "ath" ? undefined : value,
+      window: draft.type === "change" ? draft.window : undefined,
+      direction: draft.type === "change" ? draft.direction : undefined,
+      currency: draft.currency,
+      cooldown: Number(draft.cooldown),
+      enabled: true,
+    },
+    errors: [],
+  }
+}
+
+export function PriceAlertDialog({
+  open,
+  onOpenChange,
+  alert,
+  coin,
+  currency,
+  known,
+  coinName = (id) => id,
+}: PriceAlertDialogProps) {
+  const { addAlert, updateAlert } = useAlerts()
+  const [draft, setDraft] = useState<Draft>(() => toDraft(alert, coin, currency, coinName))
+  const [errors, setErrors] = useState<string[]>([])
+  // Only read to fill the form when the dialog opens
+  const initialRef = useRef({ coin, coinName })
+  initialRef.current = { coin, coinName }
+
+  // Start from the alert being edited, or a blank form, each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setDraft(toDraft(alert, initialRef.current.coin, currency, initialRef.current.coinName))
+    setErrors([])
+  }, [open, alert, currency])
+
+  const update = (changes: Partial<Draft>) => setDraft((previous) => ({ ...previous, ...changes }))
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const result = validate(draft)
+    if (!result.alert) {
+      setErrors(result.errors)
+      return
+    }
+
+    // Editing leaves a paused alert paused
+    if (alert) updateAlert(alert.id, { ...result.alert, enabled: alert.enabled })
+    else addAlert(result.alert)
+    onOpenChange(false)
+  }
+
+  const type = ALERT_TYPES.find((option) => option.value === draft.type)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {alert ? "Edit alert" : "New alert"}
+              {draft.coin && ` for ${draft.coin.name}`}
+            </DialogTitle>
+            <DialogDescription>Checked every minute while the app is open.</DialogDescription>
+          </DialogHeader>
+
+          {!coin && !alert && (
+            <CoinPicker
+              selected={draft.coin ? [draft.coin.id] : []}
+              onSelect={(picked) => update({ coin: picked })}
+              known={known}
+              label={draft.coin ? draft.coin.name : "Pick coin"}
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label>Condition</Label>
+            <Select value={draft.type} onValueChange={(value) => update({ type: value as AlertType })}>
+              <SelectTrigger aria-label="Condition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALERT_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {type && <p className="text-xs text-muted-foreground">{type.description}</p>}
+          </div>
+
+          {draft.type !== "ath" && (
+            <div className="space-y-2">
+              <Label htmlFor="alert-value">{draft.type === "change" ? "Change (%)" : "Target price"}</Label>
+              <Input
+                id="alert-value"
+                type="number"
+                min="0"
+                step="any"
+                value={draft.value}
+                onChange={(event) => update({ value: event.target.value })}
+              />
+            </div>
+          )}
+
+          {draft.type === "change" && (
+            <div className="flex flex-wrap items-center gap-2">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={draft.direction}
+                onValueChange={(value) => value && update({ direction: value as ChangeDirection })}
+                aria-label="Direction"
+              >
+                <ToggleGroupItem value="up">Up</ToggleGroupItem>
+                <ToggleGroupItem value="down">Down</ToggleGroupItem>
+                <ToggleGroupItem value="either">Either</ToggleGroupItem>
+              </ToggleGroup>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={draft.window}
+                onValueChange={(value) => value && update({ window: value as ChangeWindow })}
+                aria-label="Over"
+              >
+                <ToggleGroupItem value="1h">1h</ToggleGroupItem>
+                <ToggleGroupItem value="24h">24h</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <CurrencyToggle currency={draft.currency} setCurrency={(code) => update({ currency: code })} />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label>Repeat at most every</Label>
+              <Select value={draft.cooldown} onValueChange={(value) => update({ cooldown: value })}>
+                <SelectTrigger aria-label="Cooldown">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_COOLDOWNS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="list-inside list-disc text-sm text-red-500">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{alert ? "Save" : "Add"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,290 +1,504 @@
 "use client"
 
-import { useEffect, useState, useCallback, useRef } from "react"
-import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, ReferenceLine } from "recharts"
+import { useCallback, useEffect, useMemo, useState, useRef, type KeyboardEvent } from "react"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  Brush,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
-import { RefreshCw, ZoomIn, ZoomOut, AlertTriangle, Info } from "lucide-react"
+import {
+  RefreshCw,
+  ZoomIn,
+  ZoomOut,
+  RotateCcw,
+  AlertTriangle,
+  Info,
+  ChartArea,
+  ChartCandlestick,
+  ChartLine,
+} from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { toast } from "@/components/ui/use-toast"
 import { Progress } from "@/components/ui/progress"
-import { getCryptoChartData, formatters, formatErrorMessage } from "@/lib/api-utils"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { RefreshCountdown } from "@/components/auto-refresh-control"
+import { IndicatorToggle } from "@/components/indicator-toggle"
+import { DateRangePicker, formatDateRange } from "@/components/date-range-picker"
+import { useChartData, type ChartWindow } from "@/components/market-data-provider"
+import { ProvenanceMark } from "@/components/provenance-mark"
+import { useIndicatorSettings, type IndicatorSettings } from "@/hooks/use-indicator-settings"
+import { useLoadingProgress } from "@/hooks/use-loading-progress"
+import { formatters } from "@/lib/api-utils"
+import { bollinger, ema, macd, rsi, sma, vwap, type IndicatorSeries } from "@/lib/indicators"
 
 interface PriceChartProps {
   cryptoId: string
   currency: string
 }
 
-interface ChartData {
+type ChartType = "area" | "line" | "candlestick"
+
+interface IndicatorValues {
+  sma?: number
+  ema?: number
+  bbUpper?: number
+  bbMiddle?: number
+  bbLower?: number
+  vwap?: number
+  rsi?: number
+  macd?: number
+  macdSignal?: number
+  macdHistogram?: number
+}
+
+interface ChartData extends IndicatorValues {
   date: string
+  // Close price
   price: number
   timestamp: number
+  // Candle, when the source publishes one
+  open?: number
+  high?: number
+  low?: number
   volume?: number
   market_cap?: number
   rawDate?: string
 }
 
+const MAX_POINTS = 500
+// Smallest window the chart zooms in to
+const MIN_VISIBLE_POINTS = 5
+
+// Indexes into the chart data of the first and last visible points
+interface Viewport {
+  start: number
+  end: number
+}
+const UP_COLOR = "#22c55e"
+const DOWN_COLOR = "#ef4444"
+
+const INDICATOR_COLORS = {
+  sma: "#0ea5e9",
+  ema: "#d946ef",
+  bollinger: "#64748b",
+  vwap: "#14b8a6",
+  rsi: "#8b5cf6",
+  macd: "#0ea5e9",
+  macdSignal: "#f97316",
+}
+
+const EMPTY_STATS = { min: 0, max: 0, avg: 0, change: 0, changePercent: 0 }
+
+function calculatePriceStats(data: ChartData[]): typeof EMPTY_STATS {
+  if (!data || data.length === 0) return EMPTY_STATS
+
+  try {
+    const prices = data.map((d) => d.price).filter((price) => !isNaN(price) && isFinite(price))
+
+    if (prices.length === 0) return EMPTY_STATS
+
+    const min = Math.min(...prices)
+    const max = Math.max(...prices)
+    const avg = prices.reduce((sum, price) => sum + price, 0) / prices.length
+
+    const firstPrice = data[0].price
+    const lastPrice = data[data.length - 1].price
+    const change = lastPrice - firstPrice
+    const changePercent = (change / firstPrice) * 100
+
+    return {
+      min: isFinite(min) ? min : 0,
+      max: isFinite(max) ? max : 0,
+      avg: isFinite(avg) ? avg : 0,
+      change: isFinite(change) ? change : 0,
+      changePercent: isFinite(changePercent) ? changePercent : 0,
+    }
+  } catch (err) {
+    console.error("Error calculating price stats:", err)
+    return EMPTY_STATS
+  }
+}
+
+// Merge neighbouring points so long ranges stay fast to draw; each merged candle spans its
+// whole bucket and volumes add up
+function downsample(data: ChartData[], maxPoints: number): ChartData[] {
+  if (data.length <= maxPoints) return data
+
+  const size = Math.ceil(data.length / maxPoints)
+  const merged: ChartData[] = []
+  for (let start = 0; start < data.length; start += size) {
+    const bucket = data.slice(start, start + size)
+    const first = bucket[0]
+    const last = bucket[bucket.length - 1]
+    const hasCandles = bucket.every((point) => point.high !== undefined && point.low !== undefined)
+
+    merged.push({
+      ...first,
+      price: last.price,
+      open: first.open,
+      high: hasCandles ? Math.max(...bucket.map((point) => point.high!)) : undefined,
+      low: hasCandles ? Math.min(...bucket.map((point) => point.low!)) : undefined,
+      volume: bucket.reduce((sum, point) => sum + (point.volume ?? 0), 0),
+      market_cap: last.market_cap,
+    })
+  }
+  return merged
+}
+
+// Add the enabled indicators to every point, computed over the whole series so zooming in
+// doesn't restart their warm-up
+function withIndicators(data: ChartData[], settings: IndicatorSettings): ChartData[] {
+  const closes = data.map((point) => point.price)
+  const series: { [K in keyof IndicatorValues]?: IndicatorSeries } = {}
+
+  if (settings.sma.enabled) series.sma = sma(closes, settings.sma.period)
+  if (settings.ema.enabled) series.ema = ema(closes, settings.ema.period)
+  if (settings.bollinger.enabled) {
+    const bands = bollinger(closes, settings.bollinger.period, settings.bollinger.deviations)
+    series.bbUpper = bands.upper
+    series.bbMiddle = bands.middle
+    series.bbLower = bands.lower
+  }
+  if (settings.vwap.enabled) {
+    // Typical price where the source has candles
+    const typical = data.map((point) =>
+      point.high !== undefined && point.low !== undefined ? (point.high + point.low + point.price) / 3 : point.price,
+    )
+    series.vwap = vwap(
+      typical,
+      data.map((point) => point.volume ?? 0),
+    )
+  }
+  if (settings.rsi.enabled) series.rsi = rsi(closes, settings.rsi.period)
+  if (settings.macd.enabled) {
+    const result = macd(closes, settings.macd.fast, settings.macd.slow, settings.macd.signal)
+    series.macd = result.macd
+    series.macdSignal = result.signal
+    series.macdHistogram = result.histogram
+  }
+
+  const keys = Object.keys(series) as (keyof IndicatorValues)[]
+  if (keys.length === 0) return data
+  return data.map((point, index) => {
+    const values: IndicatorValues = {}
+    keys.forEach((key) => (values[key] = series[key]![index]))
+    return { ...point, ...values }
+  })
+}
+
+// Fit a window into the data, keeping at least MIN_VISIBLE_POINTS; null when it covers everything
+function clampViewport(start: number, end: number, total: number): Viewport | null {
+  const size = Math.min(total - 1, Math.max(MIN_VISIBLE_POINTS - 1, Math.round(end - start)))
+  if (size >= total - 1) return null
+  const first = Math.min(Math.max(0, Math.round(start)), total - 1 - size)
+  return { start: first, end: first + size }
+}
+
+interface CandleShapeProps {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  payload?: ChartData
+}
+
+// Draws one candle over the bar recharts lays out from its low to its high
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload || payload.open === undefined || payload.high === undefined || payload.low === undefined) return null
+
+  const { open, high, low, price: close } = payload
+  const top = Math.min(y, y + height)
+  const span = Math.abs(height)
+  const perUnit = high > low ? span / (high - low) : 0
+  const bodyTop = top + (high - Math.max(open, close)) * perUnit
+  const bodyHeight = Math.max(1, Math.abs(close - open) * perUnit)
+  const center = x + width / 2
+  const color = close >= open ? UP_COLOR : DOWN_COLOR
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={top} y2={top + span} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} />
+    </g>
+  )
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+const RANGE_LABELS: Record<string, string> = {
+  "1": "24h",
+  "7": "7d",
+  "30": "30d",
+  "90": "90d",
+  "365": "1y",
+  max: "Max",
+}
+
+// Format dates based on the time span shown, so custom and "max" ranges get fitting labels
+function formatDate(date: Date, span: number): string {
+  try {
+    if (span <= DAY) {
+      return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    } else if (span <= 7 * DAY) {
+      return date.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })
+    } else if (span <= 90 * DAY) {
+      return date.toLocaleDateString([], { month: "short", day: "numeric" })
+    } else {
+      // For a year or more
+      return date.toLocaleDateString([], { month: "short", year: "numeric" })
+    }
+  } catch (err) {
+    console.error("Error formatting date:", err)
+    return date.toISOString()
+  }
+}
+
 export function PriceChart({ cryptoId, currency }: PriceChartProps) {
-  const [chartData, setChartData] = useState<ChartData[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
   const [timeRange, setTimeRange] = useState(() => {
     if (typeof window !== "undefined") {
       return localStorage.getItem(`chart-timerange-${cryptoId}`) || "7"
     }
     return "7"
   })
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  // Used while the time range is "custom"
+  const [dateRange, setDateRange] = useState<ChartWindow | null>(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const stored = localStorage.getItem(`chart-daterange-${cryptoId}`)
+        if (stored) return JSON.parse(stored)
+      } catch (error) {
+        console.error("Error reading chart date range:", error)
+      }
+    }
+    return null
+  })
+  const [chartType, setChartType] = useState<ChartType>(() => {
+    if (typeof window !== "undefined") {
+      return (localStorage.getItem("chart-type") as ChartType) || "area"
+    }
+    return "area"
+  })
   const [showVolume, setShowVolume] = useState(false)
   const [showMarketCap, setShowMarketCap] = useState(false)
-  const [zoomLevel, setZoomLevel] = useState(1)
+  // Zoomed-in window, or null for the whole range
+  const [viewport, setViewport] = useState<Viewport | null>(null)
+  // Timestamps of a drag-to-zoom selection in progress
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null)
+  const { settings: indicators, setSettings: setIndicators } = useIndicatorSettings(cryptoId)
   const chartContainerRef = useRef<HTMLDivElement>(null)
-  const [priceStats, setPriceStats] = useState({
-    min: 0,
-    max: 0,
-    avg: 0,
-    change: 0,
-    changePercent: 0,
-  })
-  const [retryCount, setRetryCount] = useState(0)
-  const [isRetrying, setIsRetrying] = useState(false)
-  const [fetchProgress, setFetchProgress] = useState(0)
-  const maxRetries = 3
-  const abortControllerRef = useRef<AbortController | null>(null)
+  // Shared with the detail page's refresh button and revalidated in place; only a time
+  // range without data yet shows the loading state
+  const range = timeRange === "custom" ? (dateRange ?? "7") : timeRange
+  const chart = useChartData(cryptoId, currency, range)
+  const { loading, error, refreshing, retrying: isRetrying, updatedAt: lastUpdated } = chart
+  const provenance = chart.data?.provenance
+  const fetchProgress = useLoadingProgress(loading)
 
   // Save time range preference
   useEffect(() => {
     localStorage.setItem(`chart-timerange-${cryptoId}`, timeRange)
   }, [timeRange, cryptoId])
 
-  // Cleanup function for aborting ongoing requests when component unmounts or timeRange changes
   useEffect(() => {
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort()
-      }
-    }
-  }, [timeRange])
+    if (dateRange) localStorage.setItem(`chart-daterange-${cryptoId}`, JSON.stringify(dateRange))
+  }, [dateRange, cryptoId])
 
-  const fetchChartData = useCallback(
-    async (forceRefresh = false) => {
-      // Abort any ongoing request
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort()
-      }
+  useEffect(() => {
+    localStorage.setItem("chart-type", chartType)
+  }, [chartType])
 
-      // Create a new AbortController for this request
-      abortControllerRef.current = new AbortController()
+  const chartData = useMemo(() => {
+    const data = chart.data
+    if (!data || !Array.isArray(data.prices)) return []
 
-      try {
-        setLoading(true)
-        setError(null)
-        setFetchProgress(10) // Start progress
-
-        // Simulate progress while fetching
-        const progressInterval = setInterval(() => {
-          setFetchProgress((prev) => {
-            if (prev >= 90) {
-              clearInterval(progressInterval)
-              return prev
-            }
-            return prev + 10
-          })
-        }, 300)
-
-        const data = await getCryptoChartData(cryptoId, currency, timeRange, forceRefresh)
-
-        if (!data || !data.prices || !Array.isArray(data.prices)) {
-          throw new Error("Invalid chart data received")
-        }
-
-        // Format the data for the chart
-        const formattedData = data.prices.map((item: [number, number], index: number) => {
-          const date = new Date(item[0])
-          const volumeData = data.total_volumes && data.total_volumes[index] ? data.total_volumes[index][1] : 0
-          const marketCapData = data.market_caps && data.market_caps[index] ? data.market_caps[index][1] : 0
-
-          return {
-            date: formatDate(date, timeRange),
-            price: item[1],
-            timestamp: date.getTime(),
-            volume: volumeData,
-            market_cap: marketCapData,
-            rawDate: date.toISOString(),
-          }
-        })
-
-        // Sort data by timestamp to ensure chronological order
-        formattedData.sort((a, b) => a.timestamp - b.timestamp)
-
-        // For long time ranges, reduce the number of data points to improve performance
-        let processedData = formattedData
-        if (formattedData.length > 500) {
-          const factor = Math.ceil(formattedData.length / 500)
-          processedData = formattedData.filter((_, index) => index % factor === 0)
-        }
-
-        // Ensure we have at least the first and last data points
-        if (
-          processedData.length > 0 &&
-          formattedData.length > 0 &&
-          processedData[processedData.length - 1].timestamp !== formattedData[formattedData.length - 1].timestamp
-        ) {
-          processedData.push(formattedData[formattedData.length - 1])
-        }
-
-        setChartData(processedData)
-        calculatePriceStats(processedData)
-        setLastUpdated(new Date())
-        setRetryCount(0) // Reset retry count on success
-        setIsRetrying(false)
-
-        clearInterval(progressInterval)
-        setFetchProgress(100) // Complete progress
-      } catch (err) {
-        // Don't handle aborted requests as errors
-        if (abortControllerRef.current?.signal.aborted) {
-          console.log("Request was aborted")
-          return
-        }
-
-        console.error("Chart data fetch error:", err)
-        const errorMessage = formatErrorMessage(err)
-        setError(errorMessage)
-
-        if (retryCount < maxRetries && !isRetrying) {
-          // Auto-retry with exponential backoff
-          setIsRetrying(true)
-          const delay = Math.pow(2, retryCount) * 1000
-          toast({
-            title: "Retrying chart data fetch",
-            description: `Attempt ${retryCount + 1} of ${maxRetries}. Retrying in ${delay / 1000} seconds.`,
-            variant: "default",
-          })
-
-          setTimeout(() => {
-            setRetryCount((prev) => prev + 1)
-            fetchChartData(true)
-          }, delay)
-        }
-      } finally {
-        setLoading(false)
-        // Reset progress after a delay to allow the progress bar to complete visually
-        setTimeout(() => setFetchProgress(0), 500)
+    const candles = new Map(data.ohlc?.map((candle) => [candle[0], candle]))
+    const times = data.prices.map(([time]) => time)
+    const span = Math.max(...times) - Math.min(...times)
+
+    // Format the data for the chart
+    const formattedData: ChartData[] = data.prices.map((item: [number, number], index: number) => {
+      const date = new Date(item[0])
+      const volumeData = data.total_volumes && data.total_volumes[index] ? data.total_volumes[index][1] : 0
+      const marketCapData = data.market_caps && data.market_caps[index] ? data.market_caps[index][1] : 0
+      const candle = candles.get(item[0])
+
+      return {
+        date: formatDate(date, span),
+        price: item[1],
+        timestamp: date.getTime(),
+        open: candle?.[1],
+        high: candle?.[2],
+        low: candle?.[3],
+        volume: volumeData,
+        market_cap: marketCapData,
+        rawDate: date.toISOString(),
       }
+    })
+
+    // Sort data by timestamp to ensure chronological order
+    formattedData.sort((a, b) => a.timestamp - b.timestamp)
+
+    // For long time ranges, reduce the number of data points to improve performance
+    return downsample(formattedData, MAX_POINTS)
+  }, [chart.data])
+
+  const plotData = useMemo(() => withIndicators(chartData, indicators), [chartData, indicators])
+
+  // A new range starts zoomed out; refreshed data for the same range keeps the window
+  const rangeKey = typeof range === "string" ? range : `${range.from}-${range.to}`
+  useEffect(() => {
+    setViewport(null)
+  }, [rangeKey, currency])
+
+  const total = plotData.length
+  const start = viewport ? Math.min(viewport.start, Math.max(0, total - MIN_VISIBLE_POINTS)) : 0
+  const end = viewport ? Math.min(viewport.end, total - 1) : total - 1
+  const zoomed = start > 0 || end < total - 1
+  const visibleData = useMemo(() => plotData.slice(start, end + 1), [plotData, start, end])
+  // Stats follow the zoom, so they describe exactly what is on screen
+  const priceStats = useMemo(() => calculatePriceStats(visibleData), [visibleData])
+
+  // Scale the window by `factor` around `anchor`, a fraction of its width (0.5 is the middle);
+  // false when the window can't grow or shrink any further
+  const zoomBy = useCallback(
+    (factor: number, anchor = 0.5): boolean => {
+      if (total < MIN_VISIBLE_POINTS) return false
+      const size = end - start
+      const center = start + size * anchor
+      const nextSize = size * factor
+      const next = clampViewport(center - nextSize * anchor, center + nextSize * (1 - anchor), total)
+      if ((next?.start ?? 0) === start && (next?.end ?? total - 1) === end) return false
+      setViewport(next)
+      return true
     },
-    [cryptoId, currency, timeRange, retryCount, isRetrying],
+    [start, end, total],
   )
 
-  const calculatePriceStats = (data: ChartData[]) => {
-    if (!data || data.length === 0) return
-
-    try {
-      const prices = data.map((d) => d.price).filter((price) => !isNaN(price) && isFinite(price))
-
-      if (prices.length === 0) return
-
-      const min = Math.min(...prices)
-      const max = Math.max(...prices)
-      const avg = prices.reduce((sum, price) => sum + price, 0) / prices.length
-
-      const firstPrice = data[0].price
-      const lastPrice = data[data.length - 1].price
-      const change = lastPrice - firstPrice
-      const changePercent = (change / firstPrice) * 100
-
-      setPriceStats({
-        min: isFinite(min) ? min : 0,
-        max: isFinite(max) ? max : 0,
-        avg: isFinite(avg) ? avg : 0,
-        change: isFinite(change) ? change : 0,
-        changePercent: isFinite(changePercent) ? changePercent : 0,
-      })
-    } catch (err) {
-      console.error("Error calculating price stats:", err)
-      setPriceStats({ min: 0, max: 0, avg: 0, change: 0, changePercent: 0 })
-    }
-  }
+  // Move the window by a fraction of its width; negative values go back in time
+  const panBy = useCallback(
+    (fraction: number) => {
+      if (!zoomed) return
+      const shift = Math.sign(fraction) * Math.max(1, Math.round((end - start) * Math.abs(fraction)))
+      setViewport(clampViewport(start + shift, end + shift, total))
+    },
+    [start, end, total, zoomed],
+  )
 
+  const resetZoom = () => setViewport(null)
+
+  // Wheel zoom around the pointer; a native listener, since React's is passive and can't stop the page scrolling
   useEffect(() => {
-    fetchChartData()
-  }, [fetchChartData])
-
-  // Add a helper function to format dates based on time range
-  function formatDate(date: Date, range: string): string {
-    try {
-      if (range === "1") {
-        return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
-      } else if (range === "7") {
-        return date.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })
-      } else if (range === "30" || range === "90") {
-        return date.toLocaleDateString([], { month: "short", day: "numeric" })
-      } else {
-        // For 365 days
-        return date.toLocaleDateString([], { month: "short", year: "numeric" })
-      }
-    } catch (err) {
-      console.error("Error formatting date:", err)
-      return date.toISOString()
+    const container = chartContainerRef.current
+    if (!container) return
+
+    // The page only stops scrolling when the chart zooms, so scrolling past a fully zoomed chart still works
+    const handleWheel = (event: WheelEvent) => {
+      const bounds = container.getBoundingClientRect()
+      const anchor = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width))
+      if (zoomBy(event.deltaY < 0 ? 0.8 : 1.25, anchor)) event.preventDefault()
     }
-  }
 
-  const handleZoomIn = () => {
-    setZoomLevel((prev) => Math.min(prev + 0.5, 3))
-  }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [zoomBy])
 
-  const handleZoomOut = () => {
-    setZoomLevel((prev) => Math.max(prev - 0.5, 1))
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const actions: Record<string, () => void> = {
+      ArrowLeft: () => panBy(-0.1),
+      ArrowRight: () => panBy(0.1),
+      "+": () => zoomBy(0.8),
+      "=": () => zoomBy(0.8),
+      "-": () => zoomBy(1.25),
+      "0": resetZoom,
+      Escape: resetZoom,
+    }
+    const action = actions[event.key]
+    if (!action) return
+    event.preventDefault()
+    action()
   }
 
-  // Get visible data based on zoom level
-  const getVisibleData = () => {
-    if (zoomLevel === 1 || !chartData || chartData.length === 0) return chartData
-
-    try {
-      const dataLength = chartData.length
-      const visibleLength = Math.floor(dataLength / zoomLevel)
-      const startIndex = Math.floor((dataLength - visibleLength) / 2)
-
-      return chartData.slice(startIndex, startIndex + visibleLength)
-    } catch (err) {
-      console.error("Error calculating visible data:", err)
-      return chartData
+  // Drag across the chart to zoom in on the selected points
+  const finishSelection = () => {
+    if (selection && selection.from !== selection.to) {
+      const from = plotData.findIndex((point) => point.timestamp === Math.min(selection.from, selection.to))
+      const to = plotData.findIndex((point) => point.timestamp === Math.max(selection.from, selection.to))
+      if (from >= 0 && to >= 0) setViewport(clampViewport(from, to, total))
     }
+    setSelection(null)
   }
 
-  const visibleData = getVisibleData()
   const hasData = chartData && chartData.length > 0
+  const hasCandles = hasData && chartData.every((point) => point.open !== undefined)
+  // Falls back to an area chart while the data shown has no candles
+  const shownType = chartType === "candlestick" && !hasCandles ? "area" : chartType
+
+  const oscillators = (["rsi", "macd"] as const).filter((key) => indicators[key].enabled)
+  // Keeps the tooltip and hover position in step across the price chart and its sub-panes
+  const syncId = `price-chart-${cryptoId}`
+
+  const handleChartTypeChange = (value: string) => {
+    if (!value) return
+    setChartType(value as ChartType)
+    // Candles read best with their volume underneath
+    if (value === "candlestick") setShowVolume(true)
+  }
 
   return (
     <div className="space-y-4">
       <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-        <Tabs defaultValue={timeRange} onValueChange={setTimeRange} value={timeRange}>
-          <TabsList>
-            <TabsTrigger value="1">24h</TabsTrigger>
-            <TabsTrigger value="7">7d</TabsTrigger>
-            <TabsTrigger value="30">30d</TabsTrigger>
-            <TabsTrigger value="90">90d</TabsTrigger>
-            <TabsTrigger value="365">1y</TabsTrigger>
-          </TabsList>
-        </Tabs>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs defaultValue={timeRange} onValueChange={setTimeRange} value={timeRange}>
+            <TabsList>
+              <TabsTrigger value="1">24h</TabsTrigger>
+              <TabsTrigger value="7">7d</TabsTrigger>
+              <TabsTrigger value="30">30d</TabsTrigger>
+              <TabsTrigger value="90">90d</TabsTrigger>
+              <TabsTrigger value="365">1y</TabsTrigger>
+              <TabsTrigger value="max">Max</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <DateRangePicker
+            value={dateRange}
+            active={timeRange === "custom" && !!dateRange}
+            onChange={(picked) => {
+              setDateRange(picked)
+              setTimeRange("custom")
+            }}
+          />
+        </div>
 
         <div className="flex items-center gap-2">
           {lastUpdated && (
-            <span className="text-xs text-muted-foreground">Updated: {lastUpdated.toLocaleTimeString()}</span>
+            <span className="text-xs text-muted-foreground">
+              Updated: {lastUpdated.toLocaleTimeString()}
+              <RefreshCountdown className="ml-1" />
+            </span>
           )}
           <Button
             variant="outline"
             size="icon"
-            onClick={() => fetchChartData(true)}
+            onClick={chart.refresh}
             title="Refresh chart data"
-            disabled={loading || isRetrying}
+            disabled={loading || refreshing || isRetrying}
           >
-            <RefreshCw className={`h-4 w-4 ${loading || isRetrying ? "animate-spin" : ""}`} />
+            <RefreshCw className={`h-4 w-4 ${loading || refreshing || isRetrying ? "animate-spin" : ""}`} />
             <span className="sr-only">Refresh chart data</span>
           </Button>
         </div>
@@ -306,8 +520,8 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => fetchChartData(true)}
-              disabled={loading || isRetrying}
+              onClick={chart.refresh}
+              disabled={loading || refreshing || isRetrying}
               className="self-start"
             >
               {isRetrying ? "Retrying..." : "Try Again"}
@@ -321,14 +535,51 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
           <CardContent className="p-4">
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-2">
-                <Button variant="outline" size="icon" onClick={handleZoomIn} disabled={zoomLevel >= 3 || !hasData}>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => zoomBy(0.5)}
+                  disabled={!hasData || end - start < MIN_VISIBLE_POINTS}
+                >
                   <ZoomIn className="h-4 w-4" />
                   <span className="sr-only">Zoom in</span>
                 </Button>
-                <Button variant="outline" size="icon" onClick={handleZoomOut} disabled={zoomLevel <= 1 || !hasData}>
+                <Button variant="outline" size="icon" onClick={() => zoomBy(2)} disabled={!zoomed}>
                   <ZoomOut className="h-4 w-4" />
                   <span className="sr-only">Zoom out</span>
                 </Button>
+                <Button variant="outline" size="icon" onClick={resetZoom} disabled={!zoomed} title="Reset zoom">
+                  <RotateCcw className="h-4 w-4" />
+                  <span className="sr-only">Reset zoom</span>
+                </Button>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={shownType}
+                  onValueChange={handleChartTypeChange}
+                  aria-label="Chart type"
+                >
+                  <ToggleGroupItem value="area" title="Area chart" aria-label="Area chart">
+                    <ChartArea className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="line" title="Line chart" aria-label="Line chart">
+                    <ChartLine className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem
+                    value="candlestick"
+                    disabled={!hasCandles}
+                    title={
+                      hasCandles
+                        ? "Candlestick chart"
+                        : "Candles are only published by CryptoCompare and Binance; pin one on the status page"
+                    }
+                    aria-label="Candlestick chart"
+                  >
+                    <ChartCandlestick className="h-4 w-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <IndicatorToggle settings={indicators} setSettings={setIndicators} disabled={!hasData} />
               </div>
               <div className="flex items-center gap-4">
                 <div className="flex items-center gap-2">
@@ -341,6 +592,7 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                   <Label htmlFor="show-volume" className="text-sm">
                     Volume
                   </Label>
+                  <ProvenanceMark provenance={provenance} path="total_volumes" />
                 </div>
                 <div className="flex items-center gap-2">
                   <Checkbox
@@ -352,34 +604,49 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                   <Label htmlFor="show-market-cap" className="text-sm">
                     Market Cap
                   </Label>
+                  <ProvenanceMark provenance={provenance} path="market_caps" />
                 </div>
               </div>
             </div>
-            <div ref={chartContainerRef} className="h-[300px]">
+            <div
+              ref={chartContainerRef}
+              className="h-[300px] rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              tabIndex={hasData ? 0 : undefined}
+              onKeyDown={handleKeyDown}
+              aria-label="Price chart. Drag or scroll to zoom, arrow keys to pan, Escape to reset."
+            >
               {loading ? (
                 <div className="flex h-full items-center justify-center">
                   <Skeleton className="h-full w-full" />
                 </div>
               ) : hasData ? (
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart
+                  <ComposedChart
                     data={visibleData}
+                    syncId={syncId}
                     margin={{
                       top: 10,
                       right: 30,
                       left: 0,
                       bottom: 0,
                     }}
+                    onMouseDown={(state) => {
+                      const timestamp = Number(state?.activeLabel)
+                      if (Number.isFinite(timestamp)) setSelection({ from: timestamp, to: timestamp })
+                    }}
+                    onMouseMove={(state) => {
+                      const timestamp = Number(state?.activeLabel)
+                      if (selection && Number.isFinite(timestamp)) setSelection({ ...selection, to: timestamp })
+                    }}
+                    onMouseUp={finishSelection}
+                    onMouseLeave={() => setSelection(null)}
+                    className="select-none"
                   >
                     <defs>
                       <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor="#8884d8" stopOpacity={0.8} />
                         <stop offset="95%" stopColor="#8884d8" stopOpacity={0} />
                       </linearGradient>
-                      <linearGradient id="colorVolume" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#82ca9d" stopOpacity={0.8} />
-                        <stop offset="95%" stopColor="#82ca9d" stopOpacity={0} />
-                      </linearGradient>
                       <linearGradient id="colorMarketCap" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor="#ffc658" stopOpacity={0.8} />
                         <stop offset="95%" stopColor="#ffc658" stopOpacity={0} />
@@ -387,7 +654,7 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
                     <XAxis
-                      dataKey="date"
+                      dataKey="timestamp"
                       tick={{ fontSize: 12 }}
                       tickLine={false}
                       axisLine={false}
@@ -396,91 +663,162 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                       tickFormatter={(_, index) => visibleData[index]?.date || ""}
                     />
                     <YAxis
-                      dataKey="price"
                       tick={{ fontSize: 12 }}
                       tickLine={false}
                       axisLine={false}
                       domain={["auto", "auto"]}
-                      tickFormatter={(value) => {
-                        if (value >= 1000) return `${(value / 1000).toFixed(1)}k`
-                        return value.toFixed(1)
-                      }}
+                      // Compact significant digits, so BTC- or sats-denominated prices stay legible
+                      tickFormatter={(value) => formatters.compact(value)}
                     />
-                    {showVolume && (
-                      <YAxis
-                        yAxisId="right"
-                        orientation="right"
-                        dataKey="volume"
-                        tick={{ fontSize: 12 }}
-                        tickLine={false}
-                        axisLine={false}
-                        domain={["auto", "auto"]}
-                        tickFormatter={(value) => {
-                          if (value >= 1e9) return `${(value / 1e9).toFixed(1)}B`
-                          if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`
-                          if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`
-                          return value.toFixed(0)
-                        }}
-                      />
-                    )}
+                    {/* Volume bars fill the bottom quarter, underneath the price */}
+                    <YAxis yAxisId="volume" hide domain={[0, (dataMax: number) => dataMax * 4]} />
+                    {/* Bars sharing an x-axis are laid out side by side; its own keeps volume under each candle */}
+                    <XAxis xAxisId="volume" dataKey="timestamp" hide />
                     <Tooltip
-                      content={({ active, payload, label }) => {
-                        if (active && payload && payload.length) {
-                          return (
-                            <div className="rounded-lg border bg-background p-2 shadow-md">
-                              <div className="mb-2 font-medium">{label}</div>
-                              <div className="grid gap-1">
+                      content={({ active, payload }) => {
+                        const point = payload?.[0]?.payload as ChartData | undefined
+                        if (!active || !point) return null
+
+                        return (
+                          <div className="rounded-lg border bg-background p-2 shadow-md">
+                            <div className="mb-2 font-medium">{point.date}</div>
+                            <div className="grid gap-1">
+                              {shownType === "candlestick" ? (
+                                <div className="grid grid-cols-2 gap-x-3">
+                                  <span>O: {formatters.currency(point.open!, currency)}</span>
+                                  <span>H: {formatters.currency(point.high!, currency)}</span>
+                                  <span>L: {formatters.currency(point.low!, currency)}</span>
+                                  <span>C: {formatters.currency(point.price, currency)}</span>
+                                </div>
+                              ) : (
                                 <div className="flex items-center gap-2">
                                   <div className="h-2 w-2 rounded-full bg-[#8884d8]" />
-                                  <span>Price: {formatters.currency(payload[0].value as number, currency)}</span>
+                                  <span>Price: {formatters.currency(point.price, currency)}</span>
+                                </div>
+                              )}
+                              {(
+                                [
+                                  ["sma", `SMA ${indicators.sma.period}`, INDICATOR_COLORS.sma],
+                                  ["ema", `EMA ${indicators.ema.period}`, INDICATOR_COLORS.ema],
+                                  ["bbUpper", "BB upper", INDICATOR_COLORS.bollinger],
+                                  ["bbLower", "BB lower", INDICATOR_COLORS.bollinger],
+                                  ["vwap", "VWAP", INDICATOR_COLORS.vwap],
+                                ] as const
+                              ).map(
+                                ([key, name, color]) =>
+                                  point[key] !== undefined && (
+                                    <div key={key} className="flex items-center gap-2">
+                                      <div className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                                      <span>
+                                        {name}: {formatters.currency(point[key]!, currency)}
+                                      </span>
+                                    </div>
+                                  ),
+                              )}
+                              {showVolume && point.volume !== undefined && (
+                                <div className="flex items-center gap-2">
+                                  <div className="h-2 w-2 rounded-full bg-[#82ca9d]" />
+                                  <span>Volume: {formatters.currency(point.volume, currency)}</span>
                                 </div>
-                                {showVolume && payload[1] && (
-                                  <div className="flex items-center gap-2">
-                                    <div className="h-2 w-2 rounded-full bg-[#82ca9d]" />
-                                    <span>Volume: {formatters.currency(payload[1].value as number, currency)}</span>
-                                  </div>
-                                )}
-                                {showMarketCap && payload[showVolume ? 2 : 1] && (
-                                  <div className="flex items-center gap-2">
-                                    <div className="h-2 w-2 rounded-full bg-[#ffc658]" />
-                                    <span>
-                                      Market Cap:{" "}
-                                      {formatters.currency(payload[showVolume ? 2 : 1].value as number, currency)}
-                                    </span>
-                                  </div>
-                                )}
-                              </div>
+                              )}
+                              {showMarketCap && point.market_cap !== undefined && (
+                                <div className="flex items-center gap-2">
+                                  <div className="h-2 w-2 rounded-full bg-[#ffc658]" />
+                                  <span>Market Cap: {formatters.currency(point.market_cap, currency)}</span>
+                                </div>
+                              )}
                             </div>
-                          )
-                        }
-                        return null
+                          </div>
+                        )
                       }}
                     />
+                    {selection && selection.from !== selection.to && (
+                      <ReferenceArea x1={selection.from} x2={selection.to} fill="#8884d8" fillOpacity={0.15} />
+                    )}
                     <ReferenceLine
                       y={priceStats.avg}
                       stroke="#ff7300"
                       strokeDasharray="3 3"
                       label={{ value: "Avg", position: "insideBottomRight" }}
                     />
-                    <Area
-                      type="monotone"
-                      dataKey="price"
-                      stroke="#8884d8"
-                      fillOpacity={1}
-                      fill="url(#colorPrice)"
-                      isAnimationActive={true}
-                      animationDuration={1000}
-                    />
                     {showVolume && (
+                      <Bar
+                        dataKey="volume"
+                        xAxisId="volume"
+                        yAxisId="volume"
+                        fill="#82ca9d"
+                        opacity={0.5}
+                        isAnimationActive={false}
+                      >
+                        {shownType === "candlestick" &&
+                          visibleData.map((point) => (
+                            <Cell key={point.timestamp} fill={point.price >= point.open! ? UP_COLOR : DOWN_COLOR} />
+                          ))}
+                      </Bar>
+                    )}
+                    {shownType === "area" && (
                       <Area
                         type="monotone"
-                        dataKey="volume"
-                        stroke="#82ca9d"
-                        fillOpacity={0.3}
-                        fill="url(#colorVolume)"
-                        yAxisId="right"
+                        dataKey="price"
+                        stroke="#8884d8"
+                        fillOpacity={1}
+                        fill="url(#colorPrice)"
+                        isAnimationActive={true}
+                        animationDuration={1000}
+                      />
+                    )}
+                    {shownType === "line" && (
+                      <Line
+                        type="monotone"
+                        dataKey="price"
+                        stroke="#8884d8"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={true}
+                        animationDuration={1000}
                       />
                     )}
+                    {shownType === "candlestick" && (
+                      <Bar
+                        dataKey={(point: ChartData) => [point.low, point.high]}
+                        shape={<CandleShape />}
+                        isAnimationActive={false}
+                      />
+                    )}
+                    {indicators.bollinger.enabled && (
+                      <>
+                        <Line
+                          dataKey="bbUpper"
+                          stroke={INDICATOR_COLORS.bollinger}
+                          strokeDasharray="4 2"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          dataKey="bbMiddle"
+                          stroke={INDICATOR_COLORS.bollinger}
+                          strokeOpacity={0.6}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          dataKey="bbLower"
+                          stroke={INDICATOR_COLORS.bollinger}
+                          strokeDasharray="4 2"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </>
+                    )}
+                    {indicators.sma.enabled && (
+                      <Line dataKey="sma" stroke={INDICATOR_COLORS.sma} dot={false} isAnimationActive={false} />
+                    )}
+                    {indicators.ema.enabled && (
+                      <Line dataKey="ema" stroke={INDICATOR_COLORS.ema} dot={false} isAnimationActive={false} />
+                    )}
+                    {indicators.vwap.enabled && (
+                      <Line dataKey="vwap" stroke={INDICATOR_COLORS.vwap} dot={false} isAnimationActive={false} />
+                    )}
                     {showMarketCap && (
                       <Area
                         type="monotone"
@@ -490,7 +828,7 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                         fill="url(#colorMarketCap)"
                       />
                     )}
-                  </AreaChart>
+                  </ComposedChart>
                 </ResponsiveContainer>
               ) : (
                 <div className="flex h-full flex-col items-center justify-center gap-2">
@@ -499,31 +837,145 @@ export function PriceChart({ cryptoId, currency }: PriceChartProps) {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => fetchChartData(true)}
-                    disabled={loading || isRetrying}
+                    onClick={chart.refresh}
+                    disabled={loading || refreshing || isRetrying}
                   >
                     Try Again
                   </Button>
                 </div>
               )}
             </div>
+            {hasData && !loading && total > MIN_VISIBLE_POINTS && (
+              // Overview of the whole range; drag the handles or the window to zoom and pan
+              <div className="mt-2 h-[50px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={plotData} margin={{ top: 0, right: 30, left: 60, bottom: 0 }}>
+                    <Brush
+                      dataKey="timestamp"
+                      height={48}
+                      startIndex={start}
+                      endIndex={end}
+                      stroke="#8884d8"
+                      travellerWidth={8}
+                      tickFormatter={(_, index) => plotData[index]?.date ?? ""}
+                      onChange={({ startIndex, endIndex }) => {
+                        if (startIndex !== undefined && endIndex !== undefined) {
+                          setViewport(clampViewport(startIndex, endIndex, total))
+                        }
+                      }}
+                    >
+                      <AreaChart data={plotData}>
+                        <Area
+                          dataKey="price"
+                          stroke="#8884d8"
+                          fill="#8884d8"
+                          fillOpacity={0.2}
+                          isAnimationActive={false}
+                        />
+                      </AreaChart>
+                    </Brush>
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            {hasData &&
+              !loading &&
+              oscillators.map((key) => (
+                <div key={key} className="mt-2 h-[120px] border-t pt-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart
+                      data={visibleData}
+                      syncId={syncId}
+                      margin={{ top: 5, right: 30, left: 0, bottom: 0 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+                      <XAxis dataKey="timestamp" hide />
+                      {key === "rsi" ? (
+                        <>
+                          <YAxis
+                            domain={[0, 100]}
+                            ticks={[30, 70]}
+                            tick={{ fontSize: 12 }}
+                            tickLine={false}
+                            axisLine={false}
+                          />
+                          <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+                          <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" />
+                          <Line dataKey="rsi" stroke={INDICATOR_COLORS.rsi} dot={false} isAnimationActive={false} />
+                        </>
+                      ) : (
+                        <>
+                          <YAxis
+                            tick={{ fontSize: 12 }}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={(value) => formatters.compact(value)}
+                          />
+                          <ReferenceLine y={0} stroke="#888" />
+                          <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                            {visibleData.map((point) => (
+                              <Cell
+                                key={point.timestamp}
+                                fill={(point.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR}
+                              />
+                            ))}
+                          </Bar>
+                          <Line dataKey="macd" stroke={INDICATOR_COLORS.macd} dot={false} isAnimationActive={false} />
+                          <Line
+                            dataKey="macdSignal"
+                            stroke={INDICATOR_COLORS.macdSignal}
+                            dot={false}
+                            isAnimationActive={false}
+                          />
+                        </>
+                      )}
+                      <Tooltip
+                        content={({ active, payload }) => {
+                          const point = payload?.[0]?.payload as ChartData | undefined
+                          if (!active || !point) return null
+
+                          return (
+                            <div className="rounded-lg border bg-background p-2 text-xs shadow-md">
+                              {key === "rsi" ? (
+                                <span>
+                                  RSI {indicators.rsi.period}: {point.rsi?.toFixed(1) ?? "–"}
+                                </span>
+                              ) : (
+                                <div className="grid gap-1">
+                                  <span>
+                                    MACD: {point.macd !== undefined ? formatters.compact(point.macd) : "–"}
+                                  </span>
+                                  <span>
+                                    Signal:{" "}
+                                    {point.macdSignal !== undefined ? formatters.compact(point.macdSignal) : "–"}
+                                  </span>
+                                  <span>
+                                    Histogram:{" "}
+                                    {point.macdHistogram !== undefined ? formatters.compact(point.macdHistogram) : "–"}
+                                  </span>
+                                </div>
+                              )}
+                            </div>
+                          )
+                        }}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              ))}
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
-            <CardTitle>Price Statistics</CardTitle>
+            <CardTitle>
+              Price Statistics
+              <ProvenanceMark provenance={provenance} path="prices" className="ml-1" />
+            </CardTitle>
             <CardDescription>
-              {timeRange === "1"
-                ? "24h"
-                : timeRange === "7"
-                  ? "7d"
-                  : timeRange === "30"
-                    ? "30d"
-                    : timeRange === "90"
-                      ? "90d"
-                      : "1y"}{" "}
-              price data
+              {zoomed && visibleData.length > 0
+                ? `${visibleData[0].date} – ${visibleData[visibleData.length - 1].date} (zoomed)`
+                : `${typeof range === "string" ? RANGE_LABELS[range] : formatDateRange(range)} price data`}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useRef, useState, type ReactNode } from "react"
+
+import { STREAM_CONFIG } from "@/lib/api-config"
+
+interface PriceFlashProps {
+  value: number | undefined
+  children: ReactNode
+  className?: string
+}
+
+/**
+ * Briefly tints its content green or red when `value` goes up or down
+ */
+export function PriceFlash({ value, children, className = "" }: PriceFlashProps) {
+  const previous = useRef(value)
+  const [direction, setDirection] = useState<"up" | "down" | null>(null)
+
+  useEffect(() => {
+    const last = previous.current
+    previous.current = value
+    if (value === undefined || last === undefined || value === last) return
+
+    setDirection(value > last ? "up" : "down")
+    const timer = setTimeout(() => setDirection(null), STREAM_CONFIG.flashDuration)
+    return () => clearTimeout(timer)
+  }, [value])
+
+  const flash =
+    direction === "up"
+      ? "bg-green-500/15 text-green-600 dark:text-green-400"
+      : direction === "down"
+        ? "bg-red-500/15 text-red-600 dark:text-red-400"
+        : ""
+
+  return <span className={`rounded px-1 transition-colors duration-500 ${flash} ${className}`}>{children}</span>
+}
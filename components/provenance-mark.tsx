@@ -0,0 +1,40 @@
+"use client"
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { Provenance } from "@/lib/models"
+import { getFieldProvenance } from "@/lib/provenance"
+import { getProvider } from "@/lib/providers/catalog"
+
+interface ProvenanceMarkProps {
+  provenance: Provenance | undefined
+  // Dotted field path, e.g. "market_cap" or "market_data.current_price.eur"
+  path: string
+  className?: string
+}
+
+/**
+ * Marks an estimated figure with "≈" and explains where the value came from in a tooltip.
+ * Measured and derived figures render nothing.
+ */
+export function ProvenanceMark({ provenance, path, className = "" }: ProvenanceMarkProps) {
+  if (!provenance) return null
+
+  const field = getFieldProvenance(provenance, path)
+  if (field.kind !== "estimated") return null
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className={`cursor-help font-medium text-amber-600 dark:text-amber-500 ${className}`}>
+            ≈<span className="sr-only">Estimated value</span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="font-medium">Estimated by {getProvider(field.source)?.name ?? field.source}</p>
+          {field.note && <p className="text-xs text-muted-foreground">{field.note}</p>}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -12,7 +12,8 @@ import { Button } from "@/components/ui/button"
 import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { useFavorites } from "@/components/favorites-provider"
-import { getCachedSuggestions, cacheSuggestions, SearchSuggestion } from "@/lib/search-utils"
+import { getCachedSuggestions, SearchSuggestion } from "@/lib/search-utils"
+import { searchCryptos } from "@/lib/api-utils"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Skeleton } from "@/components/ui/skeleton"
 
@@ -99,32 +100,8 @@ export function SearchBar() {
       setError(null)
 
       try {
-        const response = await fetch(
-          `https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(
-            searchQuery,
-          )}`,
-          {
-            headers: {
-              Accept: "application/json",
-            },
-          },
-        )
-
-        if (!response.ok) {
-          throw new Error(`API request failed with status ${response.status}`)
-        }
-
-        const data = await response.json()
-        const newSuggestions = data.coins.map((coin: any) => ({
-          id: coin.id,
-          name: coin.name,
-          symbol: coin.symbol.toUpperCase(),
-          thumb: coin.thumb,
-        }))
-
-        // Cache the suggestions
-        cacheSuggestions(searchQuery, newSuggestions)
-
+        // Results are cached by searchCryptos
+        const newSuggestions = await searchCryptos(searchQuery)
         setSuggestions(newSuggestions)
       } catch (err) {
         console.error("Error fetching suggestions:", err)
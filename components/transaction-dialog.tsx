@@ -0,0 +1,340 @@
+"use client"
+
+import { useEffect, useRef, useState, type FormEvent } from "react"
+import { format } from "date-fns"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CoinPicker, type PickedCoin } from "@/components/coin-picker"
+import { CurrencyToggle } from "@/components/currency-toggle"
+import { usePortfolio } from "@/components/portfolio-provider"
+import type { MarketCoin } from "@/lib/models"
+import { quantityHeld, type NewTransaction, type Transaction, type TransactionType } from "@/lib/portfolio"
+
+interface TransactionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edited in place when given, otherwise a new transaction is added
+  transaction?: Transaction
+  // Currency new transactions start in
+  currency: string
+  known?: MarketCoin[]
+  coinName?: (id: string) => string
+}
+
+interface Draft {
+  type: TransactionType
+  coin: PickedCoin | null
+  quantity: string
+  price: string
+  fee: string
+  currency: string
+  date: string
+  note: string
+  // Sells only: quantity to take from each chosen buy, keyed by its ID
+  lots: Record<string, string>
+}
+
+const DATE_FORMAT = "yyyy-MM-dd'T'HH:mm"
+
+function toDraft(transaction: Transaction | undefined, currency: string, coinName: (id: string) => string): Draft {
+  if (!transaction) {
+    return {
+      type: "buy",
+      coin: null,
+      quantity: "",
+      price: "",
+      fee: "0",
+      currency,
+      date: format(new Date(), DATE_FORMAT),
+      note: "",
+      lots: {},
+    }
+  }
+
+  return {
+    type: transaction.type,
+    coin: { id: transaction.coinId, name: coinName(transaction.coinId), symbol: "" },
+    quantity: String(transaction.quantity),
+    price: String(transaction.price),
+    fee: String(transaction.fee),
+    currency: transaction.currency,
+    date: format(new Date(transaction.date), DATE_FORMAT),
+    note: transaction.note ?? "",
+    lots: Object.fromEntries((transaction.lots ?? []).map((lot) => [lot.transactionId, String(lot.quantity)])),
+  }
+}
+
+/**
+ * Check a draft, returning the transaction to save or the problems to show
+ */
+function validate(
+  draft: Draft,
+  others: Transaction[],
+): { transaction: NewTransaction; errors: [] } | { transaction: null; errors: string[] } {
+  const errors: string[] = []
+  const quantity = Number(draft.quantity)
+  const price = Number(draft.price)
+  const fee = Number(draft.fee || 0)
+  const date = new Date(draft.date).getTime()
+
+  if (!draft.coin) errors.push("Pick a coin.")
+  if (!(quantity > 0)) errors.push("Quantity must be more than zero.")
+  if (draft.price === "" || !(price >= 0)) errors.push("Price must be zero or more.")
+  if (!(fee >= 0)) errors.push("Fee must be zero or more.")
+  if (!Number.isFinite(date)) errors.push("Enter a valid date.")
+  else if (date > Date.now()) errors.push("Date can't be in the future.")
+
+  if (draft.coin && draft.type === "sell" && quantity > 0 && Number.isFinite(date)) {
+    const held = quantityHeld(others, draft.coin.id, date)
+    if (quantity > held + 1e-12) {
+      errors.push(`Only ${held.toLocaleString(undefined, { maximumFractionDigits: 8 })} held on that date.`)
+    }
+  }
+
+  const lots: { transactionId: string; quantity: number }[] = []
+  if (draft.type === "sell") {
+    for (const [transactionId, value] of Object.entries(draft.lots)) {
+      if (value.trim() === "" || Number(value) === 0) continue
+      const buy = others.find((item) => item.id === transactionId)
+      const lotQuantity = Number(value)
+      if (!buy) continue
+      if (!(lotQuantity > 0)) errors.push("Quantities taken from buys must be more than zero.")
+      else if (lotQuantity > buy.quantity + 1e-12) errors.push("A buy can't supply more than was bought.")
+      else lots.push({ transactionId, quantity: lotQuantity })
+    }
+    if (lots.reduce((sum, lot) => sum + lot.quantity, 0) > quantity + 1e-12) {
+      errors.push("The chosen buys add up to more than the sell.")
+    }
+  }
+
+  if (errors.length > 0 || !draft.coin) return { transaction: null, errors }
+
+  return {
+    transaction: {
+      coinId: draft.coin.id,
+      type: draft.type,
+      quantity,
+      price,
+      fee,
+      currency: draft.currency,
+      date,
+      ...(draft.note.trim() ? { note: draft.note.trim() } : {}),
+      lots: lots.length > 0 ? lots : undefined,
+    },
+    errors: [],
+  }
+}
+
+export function TransactionDialog({
+  open,
+  onOpenChange,
+  transaction,
+  currency,
+  known,
+  coinName = (id) => id,
+}: TransactionDialogProps) {
+  const { transactions, addTransaction, updateTransaction } = usePortfolio()
+  const [draft, setDraft] = useState<Draft>(() => toDraft(transaction, currency, coinName))
+  const [errors, setErrors] = useState<string[]>([])
+  // Only read to label the coin when the dialog opens
+  const coinNameRef = useRef(coinName)
+  coinNameRef.current = coinName
+
+  // Start from the transaction being edited, or a blank form, each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setDraft(toDraft(transaction, currency, coinNameRef.current))
+    setErrors([])
+  }, [open, transaction, currency])
+
+  const update = (changes: Partial<Draft>) => setDraft((previous) => ({ ...previous, ...changes }))
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const others = transactions.filter((item) => item.id !== transaction?.id)
+    const result = validate(draft, others)
+    if (!result.transaction) {
+      setErrors(result.errors)
+      return
+    }
+
+    if (transaction) updateTransaction(transaction.id, result.transaction)
+    else addTransaction(result.transaction)
+    onOpenChange(false)
+  }
+
+  const total = Number(draft.quantity) * Number(draft.price)
+  // Buys of the coin up to the sell, which specific identification can sell from
+  const sellDate = new Date(draft.date).getTime()
+  const buys =
+    draft.type === "sell" && draft.coin
+      ? transactions
+          .filter(
+            (item) =>
+              item.id !== transaction?.id &&
+              item.type === "buy" &&
+              item.coinId === draft.coin?.id &&
+              item.date <= sellDate,
+          )
+          .sort((a, b) => a.date - b.date)
+      : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{transaction ? "Edit transaction" : "Add transaction"}</DialogTitle>
+            <DialogDescription>Price and fee are in the transaction&apos;s own currency.</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={draft.type}
+              onValueChange={(value) => value && update({ type: value as TransactionType })}
+              aria-label="Transaction type"
+            >
+              <ToggleGroupItem value="buy">Buy</ToggleGroupItem>
+              <ToggleGroupItem value="sell">Sell</ToggleGroupItem>
+            </ToggleGroup>
+            <CoinPicker
+              selected={draft.coin ? [draft.coin.id] : []}
+              onSelect={(coin) => update({ coin })}
+              known={known}
+              label={draft.coin ? draft.coin.name : "Pick coin"}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transaction-quantity">Quantity</Label>
+              <Input
+                id="transaction-quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={draft.quantity}
+                onChange={(event) => update({ quantity: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-date">Date</Label>
+              <Input
+                id="transaction-date"
+                type="datetime-local"
+                value={draft.date}
+                max={format(new Date(), DATE_FORMAT)}
+                onChange={(event) => update({ date: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-price">Price per coin</Label>
+              <Input
+                id="transaction-price"
+                type="number"
+                min="0"
+                step="any"
+                value={draft.price}
+                onChange={(event) => update({ price: event.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-fee">Fee</Label>
+              <Input
+                id="transaction-fee"
+                type="number"
+                min="0"
+                step="any"
+                value={draft.fee}
+                onChange={(event) => update({ fee: event.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <CurrencyToggle currency={draft.currency} setCurrency={(code) => update({ currency: code })} />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="transaction-note">Note</Label>
+              <Input
+                id="transaction-note"
+                value={draft.note}
+                placeholder="Optional"
+                onChange={(event) => update({ note: event.target.value })}
+              />
+            </div>
+          </div>
+
+          {buys.length > 0 && (
+            <div className="space-y-2">
+              <Label>Sell from specific buys</Label>
+              <p className="text-xs text-muted-foreground">
+                Used by the Specific ID method. Anything not chosen here comes from the oldest buys.
+              </p>
+              <div className="max-h-40 space-y-2 overflow-y-auto pr-1">
+                {buys.map((buy) => (
+                  <div key={buy.id} className="flex items-center justify-between gap-4 text-sm">
+                    <label htmlFor={`transaction-lot-${buy.id}`} className="text-muted-foreground">
+                      {format(new Date(buy.date), "PP")} &middot;{" "}
+                      {buy.quantity.toLocaleString(undefined, { maximumFractionDigits: 8 })} at{" "}
+                      {buy.price.toLocaleString(undefined, { maximumFractionDigits: 8 })} {buy.currency.toUpperCase()}
+                    </label>
+                    <Input
+                      id={`transaction-lot-${buy.id}`}
+                      type="number"
+                      min="0"
+                      max={buy.quantity}
+                      step="any"
+                      placeholder="0"
+                      className="h-8 w-28"
+                      value={draft.lots[buy.id] ?? ""}
+                      onChange={(event) => update({ lots: { ...draft.lots, [buy.id]: event.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {Number.isFinite(total) && total > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Total {total.toLocaleString(undefined, { maximumFractionDigits: 8 })} {draft.currency.toUpperCase()}
+              {Number(draft.fee) > 0 && ` ${draft.type === "buy" ? "plus" : "less"} ${draft.fee} fee`}
+            </p>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="list-inside list-disc text-sm text-red-500">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{transaction ? "Save" : "Add"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from "react"
+import { AUTO_REFRESH_CONFIG } from "@/lib/api-config"
+import { getProviderStatusReport } from "@/lib/api-utils"
+
+const STORAGE_KEY = "auto-refresh-interval"
+
+export interface AutoRefreshState {
+  // Milliseconds between refreshes, 0 when off
+  interval: number
+  setInterval: (interval: number) => void
+  // When the next refresh is due, or null while off or paused
+  nextRefreshAt: number | null
+  // The document is hidden
+  paused: boolean
+  // Multiplier applied to the interval while providers are rate limiting
+  backoff: number
+}
+
+/**
+ * Whether the server reports providers as rate limited: a circuit opened by a 429, or
+ * requests waiting for their request budget
+ */
+async function providersThrottled(): Promise<boolean> {
+  try {
+    const providers = await getProviderStatusReport()
+    return providers.some(
+      (provider) =>
+        provider.enabled &&
+        ((provider.circuit.state !== "closed" && provider.circuit.lastFailureKind === "rate_limit") ||
+          (provider.rateLimit?.queued ?? 0) > 0),
+    )
+  } catch {
+    // Without a status report there is nothing to back off from
+    return false
+  }
+}
+
+/**
+ * Run `refresh` on the user's auto-refresh interval, persisted in localStorage. Pauses while
+ * the document is hidden (catching up when it becomes visible) and doubles the interval, up to
+ * a limit, while providers are rate limiting.
+ */
+export function useAutoRefresh(refresh: () => Promise<void>): AutoRefreshState {
+  const [interval, setIntervalValue] = useState(() => {
+    if (typeof window !== "undefined") {
+      const stored = Number(localStorage.getItem(STORAGE_KEY))
+      if (AUTO_REFRESH_CONFIG.intervals.some((option) => option.value === stored)) return stored
+    }
+    return AUTO_REFRESH_CONFIG.defaultInterval
+  })
+  const [paused, setPaused] = useState(false)
+  const [backoff, setBackoff] = useState(1)
+  const [nextRefreshAt, setNextRefreshAt] = useState<number | null>(null)
+  // Bumped after every run so the next one is scheduled even if nothing else changed
+  const [runs, setRuns] = useState(0)
+  const lastRunAt = useRef(Date.now())
+  const refreshRef = useRef(refresh)
+  refreshRef.current = refresh
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, String(interval))
+  }, [interval])
+
+  useEffect(() => {
+    const update = () => setPaused(document.hidden)
+    update()
+    document.addEventListener("visibilitychange", update)
+    return () => document.removeEventListener("visibilitychange", update)
+  }, [])
+
+  useEffect(() => {
+    if (!interval || paused) {
+      setNextRefreshAt(null)
+      return
+    }
+
+    // Counted from the previous run, so a refresh that came due while hidden happens right away
+    const due = lastRunAt.current + interval * backoff
+    setNextRefreshAt(due)
+
+    const timer = setTimeout(
+      async () => {
+        const throttled = await providersThrottled()
+        if (!throttled) await refreshRef.current()
+        lastRunAt.current = Date.now()
+        setBackoff((previous) => (throttled ? Math.min(previous * 2, AUTO_REFRESH_CONFIG.maxBackoff) : 1))
+        setRuns((previous) => previous + 1)
+      },
+      Math.max(0, due - Date.now()),
+    )
+    return () => clearTimeout(timer)
+  }, [interval, paused, backoff, runs])
+
+  // A new interval starts counting from now
+  const changeInterval = (value: number) => {
+    lastRunAt.current = Date.now()
+    setBackoff(1)
+    setIntervalValue(value)
+  }
+
+  return { interval, setInterval: changeInterval, nextRefreshAt, paused, backoff }
+}
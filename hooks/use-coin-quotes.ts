@@ -0,0 +1,56 @@
+import { useCoinDetails, useMarketList } from "@/components/market-data-provider"
+
+export interface CoinQuote {
+  id: string
+  name: string
+  symbol: string
+  image: string | null
+  price: number
+  change24h?: number
+}
+
+/**
+ * Current prices and names for any set of coins. Coins in the market list are priced
+ * from it; the rest fall back to their own details.
+ */
+export function useCoinQuotes(ids: string[], currency: string) {
+  const market = useMarketList(currency)
+  const listed = new Map((market.data ?? []).map((coin) => [coin.id, coin]))
+  // Wait for the list before asking for details, so listed coins don't fetch twice
+  const missing = market.loading ? [] : ids.filter((id) => !listed.has(id))
+  const details = useCoinDetails(missing, currency)
+
+  const quotes: Record<string, CoinQuote> = {}
+  for (const id of ids) {
+    const coin = listed.get(id)
+    if (coin) {
+      quotes[id] = {
+        id,
+        name: coin.name,
+        symbol: coin.symbol,
+        image: coin.image,
+        price: coin.current_price,
+        change24h: coin.price_change_percentage_24h,
+      }
+      continue
+    }
+
+    const detail = details[id]?.data
+    const price = detail?.market_data.current_price[currency]
+    if (detail && price !== undefined) {
+      quotes[id] = {
+        id,
+        name: detail.name,
+        symbol: detail.symbol,
+        image: detail.image.large,
+        price,
+        change24h: detail.market_data.price_change_percentage_24h,
+      }
+    }
+  }
+
+  const errors = missing.flatMap((id) => (details[id]?.error ? [{ id, error: details[id].error! }] : []))
+  const loading = market.loading || missing.some((id) => details[id]?.loading)
+
+  return { quotes, loading, errors, updatedAt: market.updatedAt }
+}
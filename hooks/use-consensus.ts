@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { CONSENSUS_CONFIG } from "@/lib/api-config"
+import { getConsensusPrices } from "@/lib/api-utils"
+import type { ConsensusQuote } from "@/lib/consensus"
+import type { ProviderId } from "@/lib/providers/types"
+
+const STORAGE_KEY = "consensus-settings"
+
+export interface ConsensusSettings {
+  enabled: boolean
+  // Spread in % above which sources are flagged as disagreeing
+  threshold: number
+}
+
+const DEFAULT_SETTINGS: ConsensusSettings = { enabled: false, threshold: CONSENSUS_CONFIG.defaultThreshold }
+
+/**
+ * Consensus mode settings, persisted in localStorage
+ */
+export function useConsensusSettings() {
+  const [settings, setSettings] = useState<ConsensusSettings>(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const stored = localStorage.getItem(STORAGE_KEY)
+        if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) }
+      } catch (error) {
+        console.error("Error reading consensus settings:", error)
+      }
+    }
+    return DEFAULT_SETTINGS
+  })
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  }, [settings])
+
+  return { settings, setSettings }
+}
+
+/**
+ * Cross-check the prices of the given coins across providers while consensus mode is on
+ */
+export function useConsensus(ids: string[], currency: string, settings: ConsensusSettings) {
+  const [quotes, setQuotes] = useState<Record<string, ConsensusQuote>>({})
+  const [sources, setSources] = useState<ProviderId[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Re-run only when the set of coins changes, not on every new array
+  const idsKey = ids.join(",")
+  // Only the latest request may update state, so a slow response can't overwrite a newer one
+  const latestRequest = useRef(0)
+
+  const fetchConsensus = useCallback(async () => {
+    const request = ++latestRequest.current
+    if (!settings.enabled || !idsKey) {
+      setQuotes({})
+      setSources([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await getConsensusPrices(idsKey.split(","), currency, settings.threshold)
+      if (request !== latestRequest.current) return
+      setQuotes(Object.fromEntries(result.data.map((quote) => [quote.id, quote])))
+      setSources(result.sources)
+      setError(null)
+    } catch (err) {
+      console.error("Error fetching consensus prices:", err)
+      if (request === latestRequest.current) {
+        setError(err instanceof Error ? err.message : "Consensus prices are unavailable")
+      }
+    } finally {
+      if (request === latestRequest.current) setLoading(false)
+    }
+  }, [idsKey, currency, settings.enabled, settings.threshold])
+
+  useEffect(() => {
+    fetchConsensus()
+  }, [fetchConsensus])
+
+  return { quotes, sources, loading, error, refresh: fetchConsensus }
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react"
+import { z } from "zod"
+
+const enabled = z.boolean().catch(false)
+const period = (fallback: number) => z.number().int().positive().catch(fallback)
+
+// Missing or invalid fields fall back to their defaults, so settings saved before an option existed keep working
+function indicator<T extends z.ZodRawShape>(shape: T) {
+  const schema = z.object(shape)
+  return schema.catch(schema.parse({}))
+}
+
+const indicatorSettingsSchema = z.object({
+  sma: indicator({ enabled, period: period(20) }),
+  ema: indicator({ enabled, period: period(50) }),
+  bollinger: indicator({ enabled, period: period(20), deviations: z.number().positive().catch(2) }),
+  vwap: indicator({ enabled }),
+  rsi: indicator({ enabled, period: period(14) }),
+  macd: indicator({ enabled, fast: period(12), slow: period(26), signal: period(9) }),
+})
+
+export type IndicatorSettings = z.infer<typeof indicatorSettingsSchema>
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = indicatorSettingsSchema.parse({})
+
+/**
+ * Chart indicator settings for a coin, persisted in localStorage
+ */
+export function useIndicatorSettings(cryptoId: string) {
+  const storageKey = `chart-indicators-${cryptoId}`
+  const [settings, setSettings] = useState<IndicatorSettings>(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const stored = localStorage.getItem(storageKey)
+        if (stored) {
+          return indicatorSettingsSchema.parse(JSON.parse(stored))
+        }
+      } catch (error) {
+        console.error("Error reading indicator settings:", error)
+      }
+    }
+    return DEFAULT_INDICATOR_SETTINGS
+  })
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(settings))
+  }, [settings, storageKey])
+
+  return { settings, setSettings }
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react"
+import { STREAM_CONFIG } from "@/lib/api-config"
+import { getExchangeRates, getLivePrices } from "@/lib/api-utils"
+import { getRate } from "@/lib/fx"
+import { openPriceStream, type PriceTick, type StreamState } from "@/lib/price-stream"
+import type { ProviderId } from "@/lib/providers/types"
+
+export interface LivePrice {
+  // In the requested currency
+  price: number
+  source: ProviderId
+  updatedAt: number
+}
+
+const INITIAL_STATE: StreamState = { status: "connecting", sources: [], polled: [] }
+
+/**
+ * Live prices for the given coins: streamed over WebSockets where a feed serves them,
+ * polled through the provider fallback chain otherwise
+ */
+export function useLivePrices(ids: string[], currency: string) {
+  const [ticks, setTicks] = useState<Record<string, PriceTick>>({})
+  const [polled, setPolled] = useState<Record<string, LivePrice>>({})
+  const [state, setState] = useState<StreamState>(INITIAL_STATE)
+  const [rate, setRate] = useState<number | null>(currency === "usd" ? 1 : null)
+  const pending = useRef<Record<string, PriceTick>>({})
+  // Re-subscribe only when the set of coins changes, not on every new array
+  const idsKey = [...ids].sort().join(",")
+  const polledKey = state.polled.join(",")
+
+  // Streams are in USD; convert with the same reference rates as the server
+  useEffect(() => {
+    if (currency === "usd") {
+      setRate(1)
+      return
+    }
+
+    let cancelled = false
+    setRate(null)
+    getExchangeRates()
+      .then((fx) => !cancelled && setRate(getRate(fx, "usd", currency) ?? null))
+      .catch((error) => console.error("Error fetching exchange rates:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [currency])
+
+  useEffect(() => {
+    if (!idsKey) return
+
+    // Ticks arrive many times a second; render them in batches
+    const flush = setInterval(() => {
+      const batch = pending.current
+      if (Object.keys(batch).length === 0) return
+      pending.current = {}
+      setTicks((previous) => ({ ...previous, ...batch }))
+    }, STREAM_CONFIG.flushInterval)
+
+    const close = openPriceStream(idsKey.split(","), {
+      onTicks(received) {
+        for (const tick of received) pending.current[tick.id] = tick
+      },
+      onState: setState,
+    })
+
+    return () => {
+      close()
+      clearInterval(flush)
+      pending.current = {}
+      setState(INITIAL_STATE)
+    }
+  }, [idsKey])
+
+  // Coins without a stream are polled, skipping polls while the page is hidden
+  useEffect(() => {
+    setPolled({})
+    if (!polledKey) return
+
+    let cancelled = false
+    const poll = async () => {
+      if (document.hidden) return
+      try {
+        const { data, source } = await getLivePrices(polledKey.split(","), currency)
+        // A poll still in flight when the coins or currency change is dropped
+        if (cancelled) return
+        const updatedAt = Date.now()
+        setPolled(Object.fromEntries(Object.entries(data).map(([id, price]) => [id, { price, source, updatedAt }])))
+      } catch (error) {
+        console.error("Error polling prices:", error)
+      }
+    }
+
+    // Polled coins get a price right away rather than after the first interval
+    poll()
+    const timer = setInterval(poll, STREAM_CONFIG.pollInterval)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [polledKey, currency])
+
+  const prices: Record<string, LivePrice> = { ...polled }
+  if (rate !== null) {
+    for (const tick of Object.values(ticks)) {
+      prices[tick.id] = { price: tick.price * rate, source: tick.source, updatedAt: tick.timestamp }
+    }
+  }
+
+  return { prices, state }
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Simulated progress for a request that reports none: creeps towards 90% while `active`,
+ * jumps to 100% when it ends, then resets so the progress bar can disappear
+ */
+export function useLoadingProgress(active: boolean) {
+  const [progress, setProgress] = useState(0)
+
+  useEffect(() => {
+    if (!active) {
+      setProgress((prev) => (prev > 0 ? 100 : 0))
+      // Reset progress after a delay to allow the progress bar to complete visually
+      const timer = setTimeout(() => setProgress(0), 500)
+      return () => clearTimeout(timer)
+    }
+
+    setProgress(10)
+    const interval = setInterval(() => setProgress((prev) => (prev >= 90 ? prev : prev + 10)), 300)
+    return () => clearInterval(interval)
+  }, [active])
+
+  return progress
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react"
+import { useChartDataByCurrency } from "@/components/market-data-provider"
+import { getExchangeRates } from "@/lib/api-utils"
+import { OFFLINE_EXCHANGE_RATES } from "@/lib/fx"
+import type { ExchangeRates } from "@/lib/models"
+import type { Transaction } from "@/lib/portfolio"
+import { historyKey, restateTransactions } from "@/lib/tax-report"
+
+/**
+ * Transactions restated in `currency` at the rates on their dates. Trades recorded in another
+ * currency are converted at the rate implied by the coin's price in both currencies on the day;
+ * see restateTransactions for the ones that end up estimated.
+ */
+export function useRestatedTransactions(transactions: Transaction[], currency: string) {
+  // Only used for trades with no exchange rate on their date
+  const [fx, setFx] = useState<ExchangeRates>(OFFLINE_EXCHANGE_RATES)
+
+  const foreign = transactions.filter((transaction) => transaction.currency !== currency)
+  const series = [
+    ...new Set(
+      foreign.flatMap((transaction) => [
+        historyKey(transaction.coinId, currency),
+        historyKey(transaction.coinId, transaction.currency),
+      ]),
+    ),
+  ].map((key) => {
+    const [id, code] = key.split(":")
+    return { id, currency: code }
+  })
+  const charts = useChartDataByCurrency(series, "max")
+
+  useEffect(() => {
+    let cancelled = false
+    getExchangeRates()
+      .then((rates) => !cancelled && setFx(rates))
+      .catch((error) => console.error("Error fetching exchange rates:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const loading = series.some(({ id, currency: code }) => charts[historyKey(id, code)]?.loading)
+  const history = Object.fromEntries(
+    series.flatMap(({ id, currency: code }) => {
+      const chart = charts[historyKey(id, code)]
+      return chart?.data ? [[historyKey(id, code), chart.data]] : []
+    }),
+  )
+
+  return { ...restateTransactions(transactions, currency, history, fx), loading }
+}
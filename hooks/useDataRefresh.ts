@@ -1,38 +1,28 @@
-import { useCallback, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
+import { useMarketDataRefresh, type DataSection } from '@/components/market-data-provider'
 
 const DEBOUNCE_DELAY = 1000 // 1 second
-const CRYPTO_PREFIX = 'crypto-'
 
 export function useDataRefresh() {
   const debounceTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const { refresh, refreshing } = useMarketDataRefresh()
 
-  const clearCryptoStorage = useCallback(() => {
-    Object.keys(sessionStorage).forEach((key) => {
-      if (key.startsWith(CRYPTO_PREFIX)) {
-        sessionStorage.removeItem(key)
-      }
-    })
-  }, [])
+  // Cleanup on unmount
+  useEffect(() => () => clearTimeout(debounceTimer.current), [])
 
-  const refreshData = useCallback(() => {
-    // Clear any pending refresh
-    if (debounceTimer.current) {
+  // Revalidate the data on screen in place, optionally only some sections
+  const refreshData = useCallback(
+    (sections?: DataSection[]) => {
+      // Clear any pending refresh
       clearTimeout(debounceTimer.current)
-    }
 
-    // Debounce the refresh to prevent multiple rapid refreshes
-    debounceTimer.current = setTimeout(() => {
-      clearCryptoStorage()
-      window.location.reload()
-    }, DEBOUNCE_DELAY)
+      // Debounce the refresh to prevent multiple rapid refreshes
+      debounceTimer.current = setTimeout(() => {
+        refresh(sections)
+      }, DEBOUNCE_DELAY)
+    },
+    [refresh],
+  )
 
-    // Cleanup on unmount
-    return () => {
-      if (debounceTimer.current) {
-        clearTimeout(debounceTimer.current)
-      }
-    }
-  }, [clearCryptoStorage])
-
-  return { refreshData }
-} 
\ No newline at end of file
+  return { refreshData, refreshing }
+}
@@ -0,0 +1,146 @@
+/**
+ * Price alerts
+ * Rules are checked against each fresh snapshot of a coin's market data. A rule fires
+ * whenever its condition holds and it hasn't fired within its cooldown, so a price that
+ * stays above a threshold is reported again once per cooldown rather than on every refresh.
+ */
+
+import { z } from "zod"
+
+import { formatCurrencyAmount } from "./currencies"
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+export const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  coinId: z.string().min(1),
+  type: z.enum(["above", "below", "change", "ath"]),
+  // Price for "above" and "below", percent for "change"; unused for "ath"
+  value: z.number().optional(),
+  // "change" only
+  window: z.enum(["1h", "24h"]).optional(),
+  direction: z.enum(["up", "down", "either"]).optional(),
+  currency: z.string().min(1),
+  // Least time between two firings, in ms
+  cooldown: z.number().nonnegative(),
+  enabled: z.boolean(),
+  createdAt: z.number(),
+  lastTriggeredAt: z.number().optional(),
+})
+
+export type AlertRule = z.infer<typeof alertRuleSchema>
+export type AlertType = AlertRule["type"]
+export type ChangeWindow = NonNullable<AlertRule["window"]>
+export type ChangeDirection = NonNullable<AlertRule["direction"]>
+
+export type NewAlertRule = Omit<AlertRule, "id" | "createdAt" | "lastTriggeredAt">
+
+export const alertEventSchema = z.object({
+  id: z.string().min(1),
+  alertId: z.string().min(1),
+  coinId: z.string().min(1),
+  // Kept so history still reads well after the rule is deleted
+  coinName: z.string(),
+  message: z.string(),
+  price: z.number(),
+  currency: z.string().min(1),
+  triggeredAt: z.number(),
+})
+
+export type AlertEvent = z.infer<typeof alertEventSchema>
+
+export const ALERT_TYPES: { value: AlertType; label: string; description: string }[] = [
+  { value: "above", label: "Price above", description: "When the price is at or above a target" },
+  { value: "below", label: "Price below", description: "When the price is at or below a target" },
+  { value: "change", label: "Price change", description: "When the price moves by a percentage over 1h or 24h" },
+  { value: "ath", label: "New all-time high", description: "When the price reaches the recorded all-time high" },
+]
+
+export const ALERT_COOLDOWNS: { value: number; label: string }[] = [
+  { value: 15 * MINUTE, label: "15 minutes" },
+  { value: HOUR, label: "1 hour" },
+  { value: 4 * HOUR, label: "4 hours" },
+  { value: 24 * HOUR, label: "1 day" },
+]
+
+export const DEFAULT_COOLDOWN = HOUR
+
+// Market data a rule is checked against, in the rule's currency
+export interface AlertSnapshot {
+  price: number
+  // Percent
+  change1h?: number
+  change24h?: number
+  // Left out when the source only has an estimate, so "ath" rules wait for a recorded one
+  ath?: number
+}
+
+/**
+ * Percent change between the last price and the price `span` ms before it, or undefined
+ * if the series doesn't reach back that far
+ */
+export function changeOver(prices: [number, number][], span: number): number | undefined {
+  const last = prices[prices.length - 1]
+  if (!last) return undefined
+
+  let start: [number, number] | undefined
+  for (const point of prices) {
+    if (point[0] > last[0] - span) break
+    start = point
+  }
+  return start && start[1] > 0 ? ((last[1] - start[1]) / start[1]) * 100 : undefined
+}
+
+/**
+ * The rule in words, e.g. "Price above $70,000" or "Up 5% in 1h"
+ */
+export function describeAlert(rule: AlertRule): string {
+  const value = rule.value ?? 0
+  switch (rule.type) {
+    case "above":
+      return `Price above ${formatCurrencyAmount(value, rule.currency)}`
+    case "below":
+      return `Price below ${formatCurrencyAmount(value, rule.currency)}`
+    case "change": {
+      const verb = rule.direction === "up" ? "Up" : rule.direction === "down" ? "Down" : "Moves"
+      return `${verb} ${value}% in ${rule.window ?? "24h"}`
+    }
+    case "ath":
+      return "New all-time high"
+  }
+}
+
+/**
+ * Whether the rule fired too recently to fire again at `now`
+ */
+export function isCoolingDown(rule: AlertRule, now = Date.now()): boolean {
+  return rule.lastTriggeredAt !== undefined && now - rule.lastTriggeredAt < rule.cooldown
+}
+
+/**
+ * Why the rule fires on this snapshot, or null if its condition doesn't hold
+ */
+export function evaluateAlert(rule: AlertRule, snapshot: AlertSnapshot): string | null {
+  const price = formatCurrencyAmount(snapshot.price, rule.currency)
+  const value = rule.value ?? 0
+
+  switch (rule.type) {
+    case "above":
+      return snapshot.price >= value ? `Price is ${price}, above ${formatCurrencyAmount(value, rule.currency)}` : null
+    case "below":
+      return snapshot.price <= value ? `Price is ${price}, below ${formatCurrencyAmount(value, rule.currency)}` : null
+    case "change": {
+      const span = rule.window ?? "24h"
+      const change = span === "1h" ? snapshot.change1h : snapshot.change24h
+      if (change === undefined) return null
+      const direction = rule.direction ?? "either"
+      const moved = (direction !== "down" && change >= value) || (direction !== "up" && change <= -value)
+      return moved ? `${change >= 0 ? "Up" : "Down"} ${Math.abs(change).toFixed(2)}% in ${span}, now ${price}` : null
+    }
+    case "ath":
+      return snapshot.ath !== undefined && snapshot.ath > 0 && snapshot.price >= snapshot.ath
+        ? `New all-time high at ${price}`
+        : null
+  }
+}
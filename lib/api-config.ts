@@ -1,63 +1,10 @@
 /**
  * API Configuration
- * This file contains configuration for all API endpoints used in the application
+ * This file contains configuration shared by all market data providers.
+ * Endpoint details live in each adapter under ./providers
  */
 
-// API endpoints
-export const API_CONFIG = {
-  primary: {
-    name: "CoinGecko",
-    baseUrl: "https://api.coingecko.com/api/v3",
-    endpoints: {
-      markets: "/coins/markets",
-      coinDetail: "/coins/{id}",
-      marketChart: "/coins/{id}/market_chart",
-      search: "/search",
-    },
-    headers: {
-      Accept: "application/json",
-    },
-  },
-  secondary: {
-    name: "CoinCap",
-    baseUrl: "https://api.coincap.io/v2",
-    endpoints: {
-      markets: "/assets",
-      coinDetail: "/assets/{id}",
-      marketChart: "/assets/{id}/history",
-    },
-    headers: {
-      Accept: "application/json",
-    },
-  },
-  tertiary: {
-    name: "CryptoCompare",
-    baseUrl: "https://min-api.cryptocompare.com/data",
-    endpoints: {
-      priceMultiFull: "/pricemultifull",
-      coinList: "/all/coinlist",
-      histoDay: "/histoday",
-      histoHour: "/histohour",
-      histoMinute: "/histominute",
-      coinInfo: "/coin/generalinfo",
-    },
-    headers: {
-      Accept: "application/json",
-    },
-  },
-  quaternary: {
-    name: "Binance",
-    baseUrl: "https://api.binance.com/api/v3",
-    endpoints: {
-      ticker24hr: "/ticker/24hr",
-      klines: "/klines",
-      exchangeInfo: "/exchangeInfo",
-    },
-    headers: {
-      Accept: "application/json",
-    },
-  },
-}
+import { QUOTE_CURRENCIES } from "./currencies"
 
 // Cache configuration
 export const CACHE_CONFIG = {
@@ -65,6 +12,66 @@ export const CACHE_CONFIG = {
   coinDetail: 15 * 60 * 1000, // 15 minutes
   marketChart: 20 * 60 * 1000, // 20 minutes
   search: 30 * 60 * 1000, // 30 minutes
+  exchangeRates: 60 * 60 * 1000, // 1 hour
+  prices: 15 * 1000, // 15 seconds
+}
+
+// How long an expired entry may still be served while it is refreshed in the background
+export const CACHE_STALE_TIME = 60 * 60 * 1000 // 1 hour
+
+// Consensus mode: cross-checks prices from several providers
+export const CONSENSUS_CONFIG = {
+  // Providers asked for prices in a single consensus request
+  maxProviders: 3,
+  // Coins per request, enough for the largest list page
+  maxCoins: 100,
+  // Spread between the highest and lowest source, as a % of the median, above which a coin is flagged
+  defaultThreshold: 1,
+  thresholdOptions: [0.5, 1, 2, 5],
+}
+
+// Charts over explicit windows: custom date ranges and "max"
+export const CHART_RANGE_CONFIG = {
+  // Start of "max" history; providers return whatever they have from there on
+  maxHistoryStart: Date.UTC(2010, 6, 17),
+  // Pages stitched into one chart at most, since a single rate-limit token covers them all
+  maxPages: 10,
+  // Windows ending within the same slot share a cache entry, so "until now" requests are reused
+  cacheSlot: 5 * 60 * 1000,
+}
+
+// Automatic revalidation of the list, detail and chart data on screen
+export const AUTO_REFRESH_CONFIG = {
+  intervals: [
+    { value: 0, label: "Off" },
+    { value: 15 * 1000, label: "15s" },
+    { value: 30 * 1000, label: "30s" },
+    { value: 60 * 1000, label: "1m" },
+    { value: 5 * 60 * 1000, label: "5m" },
+  ],
+  defaultInterval: 0,
+  // The interval doubles while providers are rate limiting, up to this factor
+  maxBackoff: 8,
+}
+
+// Live prices: WebSocket feeds for the coins on screen, with polling when no feed can serve a coin
+export const STREAM_CONFIG = {
+  maxCoins: 100,
+  // Reconnects before a feed is given up for the session, waiting 1s, 2s, 4s, ...
+  reconnectAttempts: 3,
+  reconnectDelay: 1000,
+  // A socket that has been quiet this long is reconnected
+  staleAfter: 60 * 1000,
+  // Ticks are batched into one update per interval
+  flushInterval: 1000,
+  pollInterval: 30 * 1000,
+  flashDuration: 1000,
+}
+
+// Price alerts keep their own schedule, so they are checked with auto-refresh off
+export const ALERT_CONFIG = {
+  // Alerted coins' data older than this is revalidated
+  checkInterval: 60 * 1000,
 }
 
 // Common cryptocurrency symbols to fetch by default
@@ -96,13 +103,13 @@ export const COMMON_SYMBOLS = [
   "GALA",
 ]
 
-// Currency mapping for different APIs
-export const CURRENCY_MAPPING: Record<string, string> = {
-  usd: "USD",
-  eur: "EUR",
-  gbp: "GBP",
-  jpy: "JPY",
-}
+// Currency mapping for different APIs; satoshis have no code of their own and are converted from USD
+export const CURRENCY_MAPPING: Record<string, string> = Object.fromEntries(
+  QUOTE_CURRENCIES.filter((currency) => currency.code !== "sats").map((currency) => [
+    currency.code,
+    currency.code.toUpperCase(),
+  ]),
+)
 
 // Symbol to ID mapping for common cryptocurrencies
 export const SYMBOL_TO_ID_MAPPING: Record<string, string> = {
@@ -1,24 +1,28 @@
-import { setupApiStatusReset } from "./api-utils"
-import { API_SOURCES, apiStatusTracker, setupApiStatusReset as setupNewApiStatusReset } from "./api-client"
+import { cacheUtils } from "./api"
+import { setCurrentSource } from "./api-source"
+import { mockProvider } from "./providers/mock"
+
+let initialized = false
 
 /**
  * Initialize API services
- * This function should be called once when the application starts
+ * Called from the ApiServices component; later calls are ignored. Failed providers
+ * recover through their circuit breakers, so no periodic status reset is needed.
  */
 export function initializeApiServices() {
-  // Set up periodic API status resets to recover from temporary outages
-  setupApiStatusReset(15) // Check every 15 minutes
-  setupNewApiStatusReset(15) // Also set up the new API client
+  if (initialized || typeof window === "undefined") return
+  initialized = true
+
+  // Drop cache entries written in an older format
+  cacheUtils.migrate()
 
   // Set up online/offline event listeners
-  if (typeof window !== "undefined") {
-    window.addEventListener("online", handleOnline)
-    window.addEventListener("offline", handleOffline)
+  window.addEventListener("online", handleOnline)
+  window.addEventListener("offline", handleOffline)
 
-    // Check connection status immediately
-    if (!navigator.onLine) {
-      handleOffline()
-    }
+  // Check connection status immediately
+  if (!navigator.onLine) {
+    handleOffline()
   }
 
   console.log("API services initialized")
@@ -28,10 +32,7 @@ export function initializeApiServices() {
  * Handle browser coming online
  */
 function handleOnline() {
-  console.log("Browser is online. Resetting API statuses...")
-
-  // Reset API statuses to try all APIs again
-  apiStatusTracker.resetStatuses()
+  console.log("Browser is online. Requesting data from the server again...")
 
   // Clear API-related error messages
   const errorMessages = document.querySelectorAll('[data-error-type="api"]')
@@ -52,21 +53,8 @@ function handleOnline() {
 function handleOffline() {
   console.log("Browser is offline. Switching to offline mode...")
 
-  // Set all APIs as non-operational
-  Object.keys(apiStatusTracker)
-    .filter(
-      (key) => key !== "currentSource" && typeof apiStatusTracker[key as keyof typeof apiStatusTracker] === "object",
-    )
-    .forEach((key) => {
-      const apiKey = key as keyof typeof apiStatusTracker
-      if (typeof apiStatusTracker[apiKey] === "object" && apiStatusTracker[apiKey] !== null) {
-        // @ts-ignore - We know this is an object with an operational property
-        apiStatusTracker[apiKey].operational = false
-      }
-    })
-
-  // Set current source to mock
-  apiStatusTracker.currentSource = API_SOURCES.MOCK
+  // Requests fall back to mock data until the browser is back online
+  setCurrentSource(mockProvider.id)
 
   // Show offline notification
   if (typeof window !== "undefined") {
@@ -74,9 +62,3 @@ function handleOffline() {
     window.dispatchEvent(event)
   }
 }
-
-// Initialize API services when this module is imported
-if (typeof window !== "undefined") {
-  // Only run in browser environment
-  window.addEventListener("load", initializeApiServices)
-}
@@ -0,0 +1,20 @@
+/**
+ * Current API source
+ * The provider that served the latest market data shown in this browser. The fallback
+ * chain and its status tracking run on the server (see ./providers/registry.ts); the
+ * client only remembers where its last answer came from.
+ */
+
+import { getProviders } from "./providers/catalog"
+import { mockProvider } from "./providers/mock"
+import type { ProviderId } from "./providers/types"
+
+let currentSource: ProviderId = getProviders()[0]?.id ?? mockProvider.id
+
+export function getCurrentSource(): ProviderId {
+  return currentSource
+}
+
+export function setCurrentSource(id: ProviderId) {
+  currentSource = id
+}
@@ -2,6 +2,9 @@
  * Utility functions for API requests
  */
 
+import { createCacheEntry, isCacheEntry, readCacheEntry, type CacheEntry, type CacheKind } from "./cache/entry"
+import type { ProviderId } from "./providers/types"
+
 // Default timeout for fetch requests (in milliseconds)
 const DEFAULT_TIMEOUT = 30000
 
@@ -48,6 +51,41 @@ export async function fetchWithTimeout(
   }
 }
 
+/**
+ * Error for non-2xx responses. For 429s, `retryAfter` holds the wait in seconds.
+ * `detail` is the reason the server gave, if any, e.g. our API routes' `error` field.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    statusText: string,
+    public readonly retryAfter?: number,
+    detail?: string,
+  ) {
+    super(detail || `Request failed with status ${status} ${statusText}`)
+    this.name = "HttpError"
+  }
+}
+
+/**
+ * Fetch a URL and parse the JSON body, throwing an HttpError on non-2xx responses
+ */
+export async function fetchJson<T = any>(url: string, options: RequestInit = {}): Promise<T> {
+  const response = await fetchWithTimeout(url, options)
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new HttpError(
+      response.status,
+      response.statusText,
+      isRateLimited(response) ? getRetryAfter(response) : undefined,
+      typeof body?.error === "string" ? body.error : undefined,
+    )
+  }
+
+  return response.json()
+}
+
 /**
  * Retry a function with exponential backoff
  */
@@ -118,19 +156,32 @@ export function getRetryAfter(response: Response): number {
   return 60
 }
 
+// sessionStorage key prefixes written by the data layer, with the kind of data behind each
+const CACHE_KEY_KINDS: [string, CacheKind][] = [
+  ["crypto-list-", "marketsList"],
+  ["crypto-detail-", "coinDetail"],
+  ["chart-", "marketChart"],
+  ["search-suggestions-", "search"],
+]
+
 /**
  * Cache management utilities
  */
 export const cacheUtils = {
   /**
-   * Get data from cache
+   * Get a fresh entry from cache. Expired entries and entries in an older format are removed.
    */
-  get<T>(key: string): { data: T; timestamp: number } | null {
+  get<T>(key: string, kind: CacheKind): CacheEntry<T> | null {
     try {
       const cached = sessionStorage.getItem(key)
-      if (cached) {
-        return JSON.parse(cached)
+      if (!cached) return null
+
+      const read = readCacheEntry<T>(JSON.parse(cached), kind)
+      if (read?.fresh) {
+        return read.entry
       }
+
+      sessionStorage.removeItem(key)
     } catch (error) {
       console.error("Error retrieving from cache:", error)
     }
@@ -138,25 +189,16 @@ export const cacheUtils = {
   },
 
   /**
-   * Store data in cache
+   * Store data in cache with the TTL configured for its kind
    */
-  set<T>(key: string, data: T, timestamp = Date.now()): void {
+  set<T>(key: string, kind: CacheKind, value: T, source: ProviderId): void {
     try {
-      sessionStorage.setItem(key, JSON.stringify({ data, timestamp }))
+      sessionStorage.setItem(key, JSON.stringify(createCacheEntry(kind, value, source)))
     } catch (error) {
       console.error("Error storing in cache:", error)
     }
   },
 
-  /**
-   * Check if cached data is still valid
-   */
-  isValid(key: string, maxAge: number): boolean {
-    const cached = this.get(key)
-    if (!cached) return false
-    return Date.now() - cached.timestamp < maxAge
-  },
-
   /**
    * Clear specific cache entry
    */
@@ -182,4 +224,29 @@ export const cacheUtils = {
       console.error("Error clearing cache by prefix:", error)
     }
   },
+
+  /**
+   * Remove entries written in an older cache format (e.g. `{ data, timestamp }`)
+   */
+  migrate(): void {
+    try {
+      Object.keys(sessionStorage).forEach((key) => {
+        const kind = CACHE_KEY_KINDS.find(([prefix]) => key.startsWith(prefix))?.[1]
+        if (!kind) return
+
+        let raw: unknown = null
+        try {
+          raw = JSON.parse(sessionStorage.getItem(key) ?? "null")
+        } catch {
+          // Unparseable entries are discarded below
+        }
+
+        if (!isCacheEntry(raw, kind)) {
+          sessionStorage.removeItem(key)
+        }
+      })
+    } catch (error) {
+      console.error("Error migrating cache:", error)
+    }
+  },
 }
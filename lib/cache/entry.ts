@@ -0,0 +1,74 @@
+/**
+ * Cache entry format
+ * Shared by the server cache and the browser sessionStorage cache. Entries record
+ * when they were created, when they expire and which provider produced them, and
+ * carry a version so entries written in an older format can be recognised and discarded.
+ */
+
+import { CACHE_CONFIG } from "../api-config"
+import type { ProviderId } from "../providers/types"
+
+// Bump when the entry format or the cached data shapes change
+export const CACHE_ENTRY_VERSION = 4
+
+// Kinds of cached data, each with its own TTL in CACHE_CONFIG
+export type CacheKind = keyof typeof CACHE_CONFIG
+
+export interface CacheEntry<T = unknown> {
+  version: number
+  kind: CacheKind
+  value: T
+  source: ProviderId
+  createdAt: number
+  expiresAt: number
+}
+
+export interface CacheRead<T> {
+  entry: CacheEntry<T>
+  // False once the entry is past its TTL
+  fresh: boolean
+}
+
+/**
+ * Create an entry that expires after the TTL configured for its kind
+ */
+export function createCacheEntry<T>(kind: CacheKind, value: T, source: ProviderId, now = Date.now()): CacheEntry<T> {
+  return {
+    version: CACHE_ENTRY_VERSION,
+    kind,
+    value,
+    source,
+    createdAt: now,
+    expiresAt: now + CACHE_CONFIG[kind],
+  }
+}
+
+/**
+ * Check that a stored value is an entry of the current version and the expected kind
+ */
+export function isCacheEntry(raw: unknown, kind: CacheKind): raw is CacheEntry {
+  if (!raw || typeof raw !== "object") return false
+
+  const entry = raw as Partial<CacheEntry>
+  return (
+    entry.version === CACHE_ENTRY_VERSION &&
+    entry.kind === kind &&
+    "value" in entry &&
+    typeof entry.source === "string" &&
+    typeof entry.createdAt === "number" &&
+    typeof entry.expiresAt === "number"
+  )
+}
+
+/**
+ * The single read path for cached data. Returns null for anything that isn't a
+ * current entry of the given kind, otherwise the entry and whether it is still fresh.
+ * Freshness uses the shorter of the stored expiry and the kind's current TTL, so
+ * lowering a TTL in CACHE_CONFIG takes effect for entries already in the cache.
+ */
+export function readCacheEntry<T>(raw: unknown, kind: CacheKind, now = Date.now()): CacheRead<T> | null {
+  if (!isCacheEntry(raw, kind)) return null
+
+  const expiresAt = Math.min(raw.expiresAt, raw.createdAt + CACHE_CONFIG[kind])
+  return { entry: raw as CacheEntry<T>, fresh: now < expiresAt }
+}
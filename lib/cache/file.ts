@@ -0,0 +1,48 @@
+/**
+ * File cache backend
+ * Stores each entry as a JSON file so the cache survives server restarts and can
+ * be shared by processes on the same machine
+ */
+
+import { createHash } from "crypto"
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+import path from "path"
+import type { CacheBackend } from "./types"
+
+interface StoredEntry {
+  entry: unknown
+  removeAt: number
+}
+
+export function createFileCache(directory: string): CacheBackend {
+  // Keys contain characters that aren't safe in file names
+  const fileFor = (key: string) => path.join(directory, `${createHash("sha1").update(key).digest("hex")}.json`)
+
+  return {
+    name: "file",
+
+    async get(key: string) {
+      try {
+        const stored: StoredEntry = JSON.parse(await readFile(fileFor(key), "utf8"))
+        if (stored.removeAt <= Date.now()) {
+          await rm(fileFor(key), { force: true })
+          return null
+        }
+        return stored.entry
+      } catch {
+        // Missing or unreadable files are treated as a cache miss
+        return null
+      }
+    },
+
+    async set(key: string, entry: unknown, retainFor: number) {
+      const stored: StoredEntry = { entry, removeAt: Date.now() + retainFor }
+      await mkdir(directory, { recursive: true })
+      await writeFile(fileFor(key), JSON.stringify(stored), "utf8")
+    },
+
+    async delete(key: string) {
+      await rm(fileFor(key), { force: true })
+    },
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Server cache
+ * Picks the cache backend from the environment and implements stale-while-revalidate
+ * with in-flight request de-duplication on top of it.
+ *
+ * CACHE_BACKEND=memory (default) | file | redis
+ * CACHE_MAX_ENTRIES  - memory backend size (default 500)
+ * CACHE_DIR          - file backend directory (default .cache/market-data)
+ * REDIS_REST_URL / REDIS_REST_TOKEN - redis backend connection
+ */
+
+import path from "path"
+import { CACHE_CONFIG, CACHE_STALE_TIME } from "../api-config"
+import type { ProviderId } from "../providers/types"
+import { sharedState } from "../shared-state"
+import { createCacheEntry, readCacheEntry, type CacheKind, type CacheRead } from "./entry"
+import { createFileCache } from "./file"
+import { createMemoryCache } from "./memory"
+import { createRedisCache } from "./redis"
+import type { CacheBackend } from "./types"
+
+export type { CacheBackend } from "./types"
+export type { CacheEntry, CacheKind } from "./entry"
+
+const state = sharedState("serverCache", () => ({ backend: null as CacheBackend | null }))
+
+// Loads currently running, keyed by cache key, so concurrent requests share one upstream call
+const inflight = sharedState("cacheInflight", () => new Map<string, Promise<unknown>>())
+
+function createBackend(): CacheBackend {
+  const kind = process.env.CACHE_BACKEND ?? "memory"
+
+  if (kind === "file") {
+    return createFileCache(process.env.CACHE_DIR ?? path.join(process.cwd(), ".cache", "market-data"))
+  }
+
+  if (kind === "redis") {
+    const url = process.env.REDIS_REST_URL
+    if (url) return createRedisCache({ url, token: process.env.REDIS_REST_TOKEN })
+    console.warn("CACHE_BACKEND=redis but REDIS_REST_URL is not set; using the memory cache")
+  }
+
+  return createMemoryCache(Number(process.env.CACHE_MAX_ENTRIES) || undefined)
+}
+
+/**
+ * Get the configured cache backend
+ */
+export function getCacheBackend(): CacheBackend {
+  if (!state.backend) state.backend = createBackend()
+  return state.backend
+}
+
+/**
+ * Replace the cache backend, e.g. to plug in a custom adapter
+ */
+export function setCacheBackend(next: CacheBackend) {
+  state.backend = next
+}
+
+export interface CachedOptions {
+  // Ignore any cached value and load fresh data
+  refresh?: boolean
+}
+
+export interface SourcedValue<T> {
+  data: T
+  source: ProviderId
+}
+
+function dedupe<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const running = inflight.get(key)
+  if (running) return running as Promise<T>
+
+  const promise = load().finally(() => inflight.delete(key))
+  inflight.set(key, promise)
+  return promise
+}
+
+async function loadAndStore<T>(
+  key: string,
+  kind: CacheKind,
+  load: () => Promise<SourcedValue<T>>,
+): Promise<SourcedValue<T>> {
+  const result = await load()
+
+  // Don't cache demo data
+  if (result.source !== "mock") {
+    try {
+      const entry = createCacheEntry(kind, result.data, result.source)
+      await getCacheBackend().set(key, entry, CACHE_CONFIG[kind] + CACHE_STALE_TIME)
+    } catch (error) {
+      console.error(`Cache write failed for ${key}:`, error)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Return a cached value, loading it when missing. Expired entries are served as-is
+ * while a background refresh runs; identical concurrent loads are collapsed into one.
+ * TTLs come from CACHE_CONFIG for the given kind.
+ */
+export async function cached<T>(
+  key: string,
+  kind: CacheKind,
+  load: () => Promise<SourcedValue<T>>,
+  options: CachedOptions = {},
+): Promise<SourcedValue<T>> {
+  if (!options.refresh) {
+    let read: CacheRead<T> | null = null
+    try {
+      const backend = getCacheBackend()
+      const raw = await backend.get(key)
+      read = readCacheEntry<T>(raw, kind)
+
+      // Discard entries written in an older format
+      if (raw && !read) await backend.delete(key)
+    } catch (error) {
+      // A broken cache shouldn't take the data layer down with it
+      console.error(`Cache read failed for ${key}:`, error)
+    }
+
+    if (read) {
+      if (!read.fresh) {
+        dedupe(key, () => loadAndStore(key, kind, load)).catch((error) => {
+          console.error(`Background refresh failed for ${key}:`, error)
+        })
+      }
+      return { data: read.entry.value, source: read.entry.source }
+    }
+  }
+
+  return dedupe(key, () => loadAndStore(key, kind, load))
+}
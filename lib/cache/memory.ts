@@ -0,0 +1,51 @@
+/**
+ * In-memory LRU cache backend
+ * Default backend. Entries live in the server process and the least recently used
+ * ones are evicted once `maxEntries` is reached.
+ */
+
+import type { CacheBackend } from "./types"
+
+interface StoredEntry {
+  entry: unknown
+  removeAt: number
+}
+
+export function createMemoryCache(maxEntries = 500): CacheBackend {
+  // Map keeps insertion order, so the first key is always the least recently used
+  const entries = new Map<string, StoredEntry>()
+
+  return {
+    name: "memory",
+
+    async get(key: string) {
+      const stored = entries.get(key)
+      if (!stored) return null
+
+      if (stored.removeAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+
+      // Move to the most recently used position
+      entries.delete(key)
+      entries.set(key, stored)
+      return stored.entry
+    },
+
+    async set(key: string, entry: unknown, retainFor: number) {
+      entries.delete(key)
+      entries.set(key, { entry, removeAt: Date.now() + retainFor })
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+
+    async delete(key: string) {
+      entries.delete(key)
+    },
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Redis cache backend
+ * Talks to any server that speaks the Redis REST protocol (Upstash, serverless-redis-http, ...)
+ * so no Redis client library is needed
+ */
+
+import { fetchJson } from "../api"
+import type { CacheBackend } from "./types"
+
+export interface RedisCacheOptions {
+  url: string
+  token?: string
+  // Prefix for every key, so several apps can share one database
+  prefix?: string
+}
+
+export function createRedisCache({ url, token, prefix = "cryptotracker:" }: RedisCacheOptions): CacheBackend {
+  const command = async (...args: (string | number)[]) => {
+    const response = await fetchJson<{ result: unknown }>(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args),
+    })
+    return response.result
+  }
+
+  return {
+    name: "redis",
+
+    async get(key: string) {
+      const raw = await command("GET", `${prefix}${key}`)
+      return typeof raw === "string" ? JSON.parse(raw) : null
+    },
+
+    async set(key: string, entry: unknown, retainFor: number) {
+      await command("SET", `${prefix}${key}`, JSON.stringify(entry), "PX", Math.max(1, Math.round(retainFor)))
+    },
+
+    async delete(key: string) {
+      await command("DEL", `${prefix}${key}`)
+    },
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Cache backend contract
+ * The server-side data layer stores entries through this interface, so the storage
+ * (memory, files, Redis) can be swapped without touching callers. Backends store
+ * whatever they are given; the entry format is checked in ./entry.ts
+ */
+
+export interface CacheBackend {
+  name: string
+
+  get(key: string): Promise<unknown>
+  // `retainFor` is how long the backend should keep the entry, in ms
+  set(key: string, entry: unknown, retainFor: number): Promise<void>
+  delete(key: string): Promise<void>
+}
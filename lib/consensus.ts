@@ -0,0 +1,67 @@
+/**
+ * Price consensus
+ * Combines the prices several providers report for the same coins into a median
+ * and flags coins whose sources disagree by more than a threshold
+ */
+
+import type { PriceQuotes } from "./models"
+import type { ProviderId } from "./providers/types"
+
+export interface ConsensusSource {
+  provider: ProviderId
+  price: number
+}
+
+export interface ConsensusQuote {
+  id: string
+  median: number
+  sources: ConsensusSource[]
+  // Highest minus lowest price as a % of the median; 0 with a single source
+  spreadPercent: number
+  // True when at least two sources answered and their spread exceeds the threshold
+  disagreement: boolean
+}
+
+export interface ConsensusResult {
+  data: ConsensusQuote[]
+  // Providers that answered, in priority order
+  sources: ProviderId[]
+  // Threshold the disagreement flags were computed with, in %
+  threshold: number
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Build a consensus quote for every requested coin that at least one provider priced
+ */
+export function buildConsensus(
+  ids: string[],
+  results: { data: PriceQuotes; source: ProviderId }[],
+  threshold: number,
+): ConsensusQuote[] {
+  return ids.flatMap((id) => {
+    const sources = results
+      .filter((result) => result.data[id] !== undefined)
+      .map((result) => ({ provider: result.source, price: result.data[id] }))
+    if (sources.length === 0) return []
+
+    const prices = sources.map((source) => source.price)
+    const mid = median(prices)
+    const spreadPercent = ((Math.max(...prices) - Math.min(...prices)) / mid) * 100
+
+    return [
+      {
+        id,
+        median: mid,
+        sources,
+        spreadPercent,
+        disagreement: sources.length >= 2 && spreadPercent > threshold,
+      },
+    ]
+  })
+}
@@ -0,0 +1,66 @@
+/**
+ * CSV
+ * Reading and writing comma-separated text as exchanges export it: RFC 4180 quoting,
+ * CRLF or LF line endings, and an optional byte order mark.
+ */
+
+/**
+ * Split CSV text into rows of fields, skipping blank lines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some((value) => value.trim() !== "")) rows.push(row)
+    row = []
+    field = ""
+  }
+
+  const input = text.replace(/^\uFEFF/, "")
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) endRow()
+
+  return rows
+}
+
+function escapeField(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Join rows into CSV text, quoting fields where needed
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n")
+}
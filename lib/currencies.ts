@@ -0,0 +1,123 @@
+/**
+ * Quote currencies
+ * Prices can be shown in any ISO fiat currency the providers publish rates for, or in
+ * BTC, ETH and satoshis. Fiat decimals and symbols come from Intl, so they follow
+ * ISO 4217 (JPY has none, KWD has three) and the user's locale.
+ */
+
+export type QuoteCurrencyKind = "fiat" | "crypto"
+
+export interface QuoteCurrency {
+  // Lower-case code as used by the providers, e.g. "eur" or "sats"
+  code: string
+  name: string
+  kind: QuoteCurrencyKind
+}
+
+export const SATS_PER_BTC = 1e8
+
+// Fiat currencies with provider rates (CoinGecko's vs currencies, less metals and defunct codes)
+const FIAT_CODES = [
+  "usd", "eur", "gbp", "jpy", "cny", "cad", "aud", "chf", "hkd", "sgd", "sek", "nok", "dkk", "nzd", "krw",
+  "inr", "brl", "mxn", "zar", "try", "pln", "aed", "sar", "thb", "ars", "bdt", "bhd", "bmd", "clp", "czk",
+  "gel", "huf", "idr", "ils", "kwd", "lkr", "mmk", "myr", "ngn", "php", "pkr", "rub", "twd", "uah", "vnd",
+]
+
+// Crypto units have no ISO code, so their symbol and precision are fixed here
+const CRYPTO_UNITS: Record<string, { name: string; symbol: string; decimals: number }> = {
+  btc: { name: "Bitcoin", symbol: "₿", decimals: 8 },
+  eth: { name: "Ether", symbol: "Ξ", decimals: 6 },
+  sats: { name: "Satoshis", symbol: "sats", decimals: 0 },
+}
+
+function currencyName(code: string): string {
+  try {
+    return new Intl.DisplayNames(undefined, { type: "currency" }).of(code.toUpperCase()) ?? code.toUpperCase()
+  } catch {
+    return code.toUpperCase()
+  }
+}
+
+export const QUOTE_CURRENCIES: QuoteCurrency[] = [
+  ...FIAT_CODES.map((code) => ({ code, name: currencyName(code), kind: "fiat" as const })),
+  ...Object.entries(CRYPTO_UNITS).map(([code, unit]) => ({ code, name: unit.name, kind: "crypto" as const })),
+]
+
+/**
+ * Whether prices can be shown in `code`
+ */
+export function isQuoteCurrency(code: string): boolean {
+  return QUOTE_CURRENCIES.some((currency) => currency.code === code.toLowerCase())
+}
+
+/**
+ * Whether `code` is a fiat currency rather than a crypto unit
+ */
+export function isFiatCurrency(code: string): boolean {
+  return FIAT_CODES.includes(code.toLowerCase())
+}
+
+/**
+ * Standard number of decimals for amounts in a currency
+ */
+export function currencyDecimals(code: string): number {
+  const unit = CRYPTO_UNITS[code.toLowerCase()]
+  if (unit) return unit.decimals
+
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency: code }).resolvedOptions().maximumFractionDigits ?? 2
+  } catch {
+    return 2
+  }
+}
+
+/**
+ * Symbol of a currency in the user's locale, e.g. "$", "€" or "₿"
+ */
+export function currencySymbol(code: string): string {
+  const unit = CRYPTO_UNITS[code.toLowerCase()]
+  if (unit) return unit.symbol
+
+  try {
+    const parts = new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: code,
+      currencyDisplay: "narrowSymbol",
+    }).formatToParts(0)
+    return parts.find((part) => part.type === "currency")?.value ?? code.toUpperCase()
+  } catch {
+    return code.toUpperCase()
+  }
+}
+
+/**
+ * Format an amount in a currency with the locale's symbol placement and the currency's decimals.
+ * Amounts below one unit keep four significant digits, so small prices don't round to zero.
+ */
+export function formatCurrencyAmount(value: number, code: string, options: Intl.NumberFormatOptions = {}): string {
+  const currency = code.toLowerCase()
+  const decimals = currencyDecimals(currency)
+  const magnitude = Math.abs(value)
+  const maximumFractionDigits =
+    options.maximumFractionDigits ??
+    (magnitude > 0 && magnitude < 1 ? Math.min(20, Math.max(decimals, 3 - Math.floor(Math.log10(magnitude)))) : decimals)
+  const digits = {
+    minimumFractionDigits: Math.min(options.minimumFractionDigits ?? decimals, maximumFractionDigits),
+    maximumFractionDigits,
+  }
+
+  const unit = CRYPTO_UNITS[currency]
+  if (unit) {
+    const amount = new Intl.NumberFormat(undefined, { ...options, ...digits }).format(value)
+    // Satoshis read as a count ("1,234 sats"); coins take a leading symbol
+    return currency === "sats" ? `${amount} ${unit.symbol}` : `${unit.symbol}${amount}`
+  }
+
+  return new Intl.NumberFormat(undefined, {
+    ...options,
+    ...digits,
+    style: "currency",
+    currency: currency.toUpperCase(),
+    currencyDisplay: "narrowSymbol",
+  }).format(value)
+}
@@ -0,0 +1,227 @@
+/**
+ * Fiat exchange rates
+ * Providers that can't quote the requested currency return USD figures (CoinCap,
+ * and Binance's USDT pairs). These helpers convert such records with reference
+ * rates and record the rate and its timestamp in the record's provenance.
+ * Rates come from CoinGecko or CryptoCompare through the provider chain (see
+ * getExchangeRates in ./market-data.ts); the mock provider serves the offline table below.
+ */
+
+import { SATS_PER_BTC } from "./currencies"
+import type { Candle, CoinDetail, ExchangeRates, MarketCoin, PriceQuotes, PriceSeries, Provenance } from "./models"
+import { getFieldProvenance } from "./provenance"
+import type { ProviderId } from "./providers/types"
+
+export interface FxRates extends ExchangeRates {
+  source: ProviderId
+}
+
+// Approximate reference rates per 1 USD as of 2025-01-01, used when no live rates are available.
+// Covers every quote currency in ./currencies.ts
+export const OFFLINE_EXCHANGE_RATES: ExchangeRates = {
+  timestamp: Date.UTC(2025, 0, 1),
+  rates: {
+    usd: 1,
+    eur: 0.966,
+    gbp: 0.799,
+    jpy: 157.2,
+    cny: 7.299,
+    cad: 1.438,
+    aud: 1.615,
+    chf: 0.907,
+    hkd: 7.768,
+    sgd: 1.365,
+    sek: 11.05,
+    nok: 11.36,
+    dkk: 7.205,
+    nzd: 1.785,
+    krw: 1472,
+    inr: 85.6,
+    brl: 6.18,
+    mxn: 20.79,
+    zar: 18.84,
+    try: 35.36,
+    pln: 4.13,
+    aed: 3.6725,
+    sar: 3.75,
+    thb: 34.1,
+    ars: 1031,
+    bdt: 119.5,
+    bhd: 0.376,
+    bmd: 1,
+    clp: 995,
+    czk: 24.3,
+    gel: 2.81,
+    huf: 397,
+    idr: 16200,
+    ils: 3.65,
+    kwd: 0.308,
+    lkr: 293,
+    mmk: 2098,
+    myr: 4.47,
+    ngn: 1540,
+    php: 57.9,
+    pkr: 278.5,
+    rub: 110,
+    twd: 32.8,
+    uah: 42.0,
+    vnd: 25450,
+    btc: 1 / 93430,
+    eth: 1 / 3332,
+    sats: SATS_PER_BTC / 93430,
+  },
+}
+
+/**
+ * Units of `to` per unit of `from`, or undefined if either currency has no rate
+ */
+export function getRate(fx: ExchangeRates, from: string, to: string): number | undefined {
+  const fromRate = fx.rates[from]
+  const toRate = fx.rates[to]
+  return fromRate && toRate ? toRate / fromRate : undefined
+}
+
+/**
+ * Mark the given fields as converted and record the rate on the provenance. With an
+ * `approximation`, the fields are estimates whatever the rates, e.g. history converted at today's rate.
+ */
+function convertedProvenance(
+  provenance: Provenance,
+  paths: string[],
+  from: string,
+  to: string,
+  rate: number,
+  fx: FxRates,
+  approximation?: string,
+): Provenance {
+  const rateNote = `Converted from ${from.toUpperCase()} at 1 ${from.toUpperCase()} = ${rate.toPrecision(6)} ${to.toUpperCase()}`
+  const conversion = approximation ? `${rateNote}; ${approximation}` : rateNote
+  // Offline rates are only approximate, so anything converted with them is an estimate
+  const estimate = fx.source === "mock" || approximation !== undefined
+  const fields = { ...provenance.fields }
+
+  for (const path of paths) {
+    const field = getFieldProvenance(provenance, path)
+    fields[path] = {
+      source: field.source,
+      kind: field.kind === "estimated" || estimate ? "estimated" : "derived",
+      note: field.note ? `${field.note}. ${conversion}` : conversion,
+    }
+  }
+
+  return {
+    ...provenance,
+    fields,
+    quoteCurrency: to,
+    fx: { from, to, rate, source: fx.source, timestamp: fx.timestamp },
+  }
+}
+
+/**
+ * Convert market list entries quoted in another currency into `currency`
+ */
+export function convertMarkets(coins: MarketCoin[], currency: string, fx: FxRates): MarketCoin[] {
+  return coins.map((coin) => {
+    const from = coin.provenance.quoteCurrency
+    const rate = from && from !== currency ? getRate(fx, from, currency) : undefined
+    if (!from || !rate) return coin
+
+    const scale = (value: number | undefined) => (value === undefined ? undefined : value * rate)
+    return {
+      ...coin,
+      current_price: coin.current_price * rate,
+      market_cap: scale(coin.market_cap),
+      total_volume: scale(coin.total_volume),
+      provenance: convertedProvenance(
+        coin.provenance,
+        ["current_price", "market_cap", "total_volume"],
+        from,
+        currency,
+        rate,
+        fx,
+      ),
+    }
+  })
+}
+
+/**
+ * Convert a price series quoted in another currency into `currency`
+ */
+export function convertSeries(series: PriceSeries, currency: string, fx: FxRates): PriceSeries {
+  const from = series.provenance.quoteCurrency
+  const rate = from && from !== currency ? getRate(fx, from, currency) : undefined
+  if (!from || !rate) return series
+
+  const scale = (points: [number, number][]) => points.map(([time, value]): [number, number] => [time, value * rate])
+  return {
+    ...series,
+    prices: scale(series.prices),
+    market_caps: scale(series.market_caps),
+    total_volumes: scale(series.total_volumes),
+    ohlc: series.ohlc?.map(([time, open, high, low, close]): Candle => [
+      time,
+      open * rate,
+      high * rate,
+      low * rate,
+      close * rate,
+    ]),
+    provenance: convertedProvenance(
+      series.provenance,
+      series.ohlc ? ["prices", "ohlc", "market_caps", "total_volumes"] : ["prices", "market_caps", "total_volumes"],
+      from,
+      currency,
+      rate,
+      fx,
+      "past points use today's rate, not the rate on their date",
+    ),
+  }
+}
+
+/**
+ * Convert USD prices keyed by coin id into `currency`
+ */
+export function convertPrices(prices: PriceQuotes, currency: string, fx: FxRates): PriceQuotes {
+  const rate = getRate(fx, "usd", currency)
+  if (!rate || currency === "usd") return prices
+
+  return Object.fromEntries(Object.entries(prices).map(([id, price]) => [id, price * rate]))
+}
+
+// Detail figures keyed by currency; missing entries are filled from the USD value
+const CONVERTED_DETAIL_FIELDS = ["current_price", "market_cap", "total_volume", "ath", "atl"] as const
+// Percentages and dates that don't change with the currency, copied from USD
+const COPIED_DETAIL_FIELDS = ["ath_change_percentage", "atl_change_percentage", "ath_date", "atl_date"] as const
+
+/**
+ * Fill in the `currency` entries of a coin's per-currency figures from their USD values
+ */
+export function convertCoin(coin: CoinDetail, currency: string, fx: FxRates): CoinDetail {
+  const from = "usd"
+  const rate = getRate(fx, from, currency)
+  if (currency === from || !rate || coin.market_data.current_price[currency] !== undefined) return coin
+
+  const marketData = { ...coin.market_data }
+  const converted: string[] = []
+
+  for (const field of CONVERTED_DETAIL_FIELDS) {
+    const values = marketData[field]
+    // A missing or zero USD figure is a gap in the source, not a measurement to convert
+    if (values?.[from] && values[currency] === undefined) {
+      marketData[field] = { ...values, [currency]: values[from] * rate }
+      converted.push(`market_data.${field}.${currency}`)
+    }
+  }
+
+  // Assigned one field at a time, since percentages and dates have different value types
+  const copy = <K extends (typeof COPIED_DETAIL_FIELDS)[number]>(field: K) => {
+    const values = marketData[field]
+    if (values?.[from] !== undefined && values[currency] === undefined) {
+      marketData[field] = { ...values, [currency]: values[from] }
+    }
+  }
+  COPIED_DETAIL_FIELDS.forEach(copy)
+
+  const provenance = convertedProvenance(coin.provenance, converted, from, currency, rate, fx)
+  // Detail records keep their other currencies, so they are not re-labelled as one quote currency
+  return { ...coin, market_data: marketData, provenance: { ...provenance, quoteCurrency: coin.provenance.quoteCurrency } }
+}
@@ -0,0 +1,131 @@
+/**
+ * Technical indicators
+ * Computed client-side from a chart series. Every function returns one value per input point,
+ * left undefined until the indicator has enough history (its warm-up period).
+ */
+
+export type IndicatorSeries = (number | undefined)[]
+
+export interface BollingerBands {
+  upper: IndicatorSeries
+  middle: IndicatorSeries
+  lower: IndicatorSeries
+}
+
+export interface Macd {
+  macd: IndicatorSeries
+  signal: IndicatorSeries
+  histogram: IndicatorSeries
+}
+
+/**
+ * Simple moving average over `period` points
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  let sum = 0
+  return values.map((value, index) => {
+    sum += value
+    if (index >= period) sum -= values[index - period]
+    return index >= period - 1 ? sum / period : undefined
+  })
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` points
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  const k = 2 / (period + 1)
+  let previous: number | undefined
+  return values.map((value, index) => {
+    if (index < period - 1) return undefined
+    previous =
+      previous === undefined
+        ? values.slice(0, period).reduce((sum, point) => sum + point, 0) / period
+        : value * k + previous * (1 - k)
+    return previous
+  })
+}
+
+/**
+ * Bollinger Bands: the SMA plus and minus `deviations` population standard deviations
+ */
+export function bollinger(values: number[], period: number, deviations: number): BollingerBands {
+  const middle = sma(values, period)
+  const width = middle.map((mean, index) => {
+    if (mean === undefined) return undefined
+    const window = values.slice(index - period + 1, index + 1)
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period
+    return Math.sqrt(variance) * deviations
+  })
+
+  return {
+    upper: middle.map((mean, index) => (mean === undefined ? undefined : mean + width[index]!)),
+    middle,
+    lower: middle.map((mean, index) => (mean === undefined ? undefined : mean - width[index]!)),
+  }
+}
+
+/**
+ * Volume-weighted average price from the start of the series. `prices` should be typical prices
+ * ((high + low + close) / 3) where candles are available.
+ */
+export function vwap(prices: number[], volumes: number[]): IndicatorSeries {
+  let weighted = 0
+  let total = 0
+  return prices.map((price, index) => {
+    const volume = volumes[index] ?? 0
+    weighted += price * volume
+    total += volume
+    return total > 0 ? weighted / total : undefined
+  })
+}
+
+/**
+ * Relative strength index with Wilder's smoothing, from 0 to 100
+ */
+export function rsi(values: number[], period: number): IndicatorSeries {
+  let gain = 0
+  let loss = 0
+  return values.map((value, index) => {
+    if (index === 0) return undefined
+    const change = value - values[index - 1]
+    const up = Math.max(change, 0)
+    const down = Math.max(-change, 0)
+
+    if (index <= period) {
+      gain += up / period
+      loss += down / period
+      if (index < period) return undefined
+    } else {
+      gain = (gain * (period - 1) + up) / period
+      loss = (loss * (period - 1) + down) / period
+    }
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss)
+  })
+}
+
+/**
+ * MACD: the fast EMA minus the slow EMA, its EMA as the signal line, and their difference
+ */
+export function macd(values: number[], fast: number, slow: number, signalPeriod: number): Macd {
+  const fastEma = ema(values, fast)
+  const slowEma = ema(values, slow)
+  const line = values.map((_, index) =>
+    fastEma[index] === undefined || slowEma[index] === undefined ? undefined : fastEma[index]! - slowEma[index]!,
+  )
+
+  // The signal line starts once the MACD line has `signalPeriod` values
+  const start = line.findIndex((value) => value !== undefined)
+  const signal: IndicatorSeries =
+    start < 0
+      ? line.map(() => undefined)
+      : [...line.slice(0, start), ...ema(line.slice(start) as number[], signalPeriod)]
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, index) =>
+      value === undefined || signal[index] === undefined ? undefined : value - signal[index]!,
+    ),
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Market data service
+ * Server-side data access used by the app/api route handlers. Requests run through
+ * the provider fallback chain and successful results are kept in the server cache
+ * (./cache), shared by every client, so all tabs draw from a single rate-limit budget.
+ */
+
+import { NextResponse } from "next/server"
+import { CHART_RANGE_CONFIG, CONSENSUS_CONFIG, STREAM_CONFIG } from "./api-config"
+import { cached, type CacheKind } from "./cache"
+import { buildConsensus, type ConsensusResult } from "./consensus"
+import { convertCoin, convertMarkets, convertPrices, convertSeries, type FxRates } from "./fx"
+import {
+  coinDetailSchema,
+  exchangeRatesSchema,
+  marketListSchema,
+  priceQuotesSchema,
+  priceSeriesSchema,
+  searchResultsSchema,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketCoin,
+  type PriceQuotes,
+  type PriceSeries,
+  type SearchSuggestion,
+} from "./models"
+import { fetchFromSeveral, fetchWithFallback, getProvider, getProviders } from "./providers/registry"
+import type { RequestPriority } from "./providers/rate-limiter"
+import type { ProviderId } from "./providers/types"
+
+export interface MarketDataResult<T> {
+  data: T
+  source: ProviderId
+}
+
+export interface MarketDataOptions {
+  // Provider the user picked manually, tried first
+  preferred?: ProviderId | null
+  // Providers the user disabled for their session
+  excluded?: ProviderId[]
+  // Skip the cache and fetch fresh data
+  refresh?: boolean
+  // Set to "prefetch" for requests the user isn't waiting on
+  priority?: RequestPriority
+}
+
+/**
+ * Error for requests that can't be served as asked, e.g. an invalid parameter
+ */
+export class MarketDataRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400,
+  ) {
+    super(message)
+    this.name = "MarketDataRequestError"
+  }
+}
+
+function cachedResult<T>(
+  key: string,
+  kind: CacheKind,
+  options: MarketDataOptions,
+  load: () => Promise<MarketDataResult<T>>,
+): Promise<MarketDataResult<T>> {
+  // Requests with provider preferences get their own cache entries
+  const excluded = [...(options.excluded ?? [])].sort().join(",")
+  const cacheKey = options.preferred || excluded ? `${key}@${options.preferred ?? ""}-${excluded}` : key
+
+  return cached(cacheKey, kind, load, { refresh: options.refresh })
+}
+
+function checkCurrency(currency: string): string {
+  const normalized = currency.toLowerCase()
+  if (!/^[a-z]{3,5}$/.test(normalized)) {
+    throw new MarketDataRequestError(`Unsupported currency "${currency}"`)
+  }
+  return normalized
+}
+
+// Ids end up in provider URLs, so only slugs are passed on
+function checkCoinId(id: string) {
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    throw new MarketDataRequestError(`Invalid coin ID "${id}"`)
+  }
+}
+
+/**
+ * Get USD-based fiat reference rates from the first provider that publishes them.
+ * The mock provider serves a bundled offline table when none is available.
+ */
+export function getExchangeRates(options: MarketDataOptions = {}): Promise<MarketDataResult<ExchangeRates>> {
+  // Only some providers publish rates
+  const withoutRates = getProviders()
+    .filter((provider) => !provider.getExchangeRates)
+    .map((provider) => provider.id)
+
+  return cachedResult("fx-usd", "exchangeRates", options, () =>
+    fetchWithFallback(
+      "exchange rates",
+      exchangeRatesSchema,
+      (provider) => {
+        if (!provider.getExchangeRates) throw new Error(`${provider.name} does not publish exchange rates`)
+        return provider.getExchangeRates()
+      },
+      {
+        preferred: options.preferred,
+        excluded: [...(options.excluded ?? []), ...withoutRates],
+        priority: options.priority ?? "list",
+      },
+    ),
+  )
+}
+
+/**
+ * Rates for converting USD-quoted provider output into `currency`; null for USD itself
+ */
+async function ratesFor(currency: string, options: MarketDataOptions): Promise<FxRates | null> {
+  if (currency === "usd") return null
+
+  // Rates are shared by every request, so a forced refresh of one list doesn't refetch them
+  const { data, source } = await getExchangeRates({ ...options, refresh: false })
+  if (data.rates[currency] === undefined) {
+    throw new MarketDataRequestError(`Unsupported currency "${currency}"`)
+  }
+  return { ...data, source }
+}
+
+/**
+ * Get the market list for a currency
+ */
+export function getMarkets(currency: string, options: MarketDataOptions = {}): Promise<MarketDataResult<MarketCoin[]>> {
+  const vsCurrency = checkCurrency(currency)
+
+  return cachedResult(`markets-${vsCurrency}`, "marketsList", options, async () => {
+    const fx = await ratesFor(vsCurrency, options)
+    const schema = fx ? marketListSchema.transform((coins) => convertMarkets(coins, vsCurrency, fx)) : marketListSchema
+
+    return fetchWithFallback("markets", schema, (provider) => provider.listMarkets(vsCurrency), {
+      preferred: options.preferred,
+      excluded: options.excluded,
+      priority: options.priority ?? "list",
+    })
+  })
+}
+
+/**
+ * Get detailed information about a coin
+ */
+export function getCoin(
+  id: string,
+  currency: string,
+  options: MarketDataOptions = {},
+): Promise<MarketDataResult<CoinDetail>> {
+  checkCoinId(id)
+  const vsCurrency = checkCurrency(currency)
+
+  return cachedResult(`coin-${id}-${vsCurrency}`, "coinDetail", options, async () => {
+    const fx = await ratesFor(vsCurrency, options)
+    // Providers without a price in the requested currency get one converted from USD, and a
+    // detail response is only usable if it ends up priced in the requested currency
+    const schema = coinDetailSchema
+      .transform((coin) => (fx ? convertCoin(coin, vsCurrency, fx) : coin))
+      .refine((coin) => coin.market_data.current_price[vsCurrency] !== undefined, {
+        message: `Missing ${vsCurrency} price`,
+        path: ["market_data", "current_price", vsCurrency],
+      })
+
+    return fetchWithFallback(id, schema, (provider) => provider.getCoin(id, vsCurrency), {
+      preferred: options.preferred,
+      excluded: options.excluded,
+      priority: options.priority ?? "detail",
+    })
+  })
+}
+
+/**
+ * Get historical price data for a coin
+ */
+export function getChart(
+  id: string,
+  currency: string,
+  days: string,
+  options: MarketDataOptions = {},
+): Promise<MarketDataResult<PriceSeries>> {
+  checkCoinId(id)
+  const vsCurrency = checkCurrency(currency)
+  if (days !== "max" && (!/^\d+$/.test(days) || Number(days) < 1)) {
+    throw new MarketDataRequestError(`Invalid range "${days}"`)
+  }
+
+  return cachedResult(`chart-${id}-${vsCurrency}-${days}`, "marketChart", options, async () => {
+    const fx = await ratesFor(vsCurrency, options)
+    const schema = fx ? priceSeriesSchema.transform((series) => convertSeries(series, vsCurrency, fx)) : priceSeriesSchema
+
+    return fetchWithFallback(`chart data ${id}`, schema, (provider) => provider.getChart(id, vsCurrency, days), {
+      preferred: options.preferred,
+      excluded: options.excluded,
+      priority: options.priority ?? "chart",
+    })
+  })
+}
+
+/**
+ * Get historical price data for a coin between two dates, `from` and `to` in ms
+ */
+export function getChartRange(
+  id: string,
+  currency: string,
+  from: number,
+  to: number,
+  options: MarketDataOptions = {},
+): Promise<MarketDataResult<PriceSeries>> {
+  checkCoinId(id)
+  const vsCurrency = checkCurrency(currency)
+  // Nothing to fetch after now
+  const end = Math.min(to, Date.now())
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from < 0 || from >= end) {
+    throw new MarketDataRequestError("Invalid date range")
+  }
+  const slot = Math.floor(end / CHART_RANGE_CONFIG.cacheSlot)
+
+  return cachedResult(`chart-${id}-${vsCurrency}-${from}-${slot}`, "marketChart", options, async () => {
+    const fx = await ratesFor(vsCurrency, options)
+    const schema = fx ? priceSeriesSchema.transform((series) => convertSeries(series, vsCurrency, fx)) : priceSeriesSchema
+
+    return fetchWithFallback(
+      `chart data ${id}`,
+      schema,
+      (provider) => provider.getChartRange(id, vsCurrency, from, end),
+      { preferred: options.preferred, excluded: options.excluded, priority: options.priority ?? "chart" },
+    )
+  })
+}
+
+/**
+ * Search coins by name or symbol
+ */
+export function searchCoins(query: string, options: MarketDataOptions = {}): Promise<MarketDataResult<SearchSuggestion[]>> {
+  const needle = query.trim()
+  if (!needle) {
+    throw new MarketDataRequestError("Missing search query")
+  }
+
+  return cachedResult(`search-${needle.toLowerCase()}`, "search", options, () =>
+    fetchWithFallback(
+      `search "${needle}"`,
+      searchResultsSchema,
+      (provider) => provider.search(needle),
+      // Search results are shown while the user types
+      { preferred: options.preferred, excluded: options.excluded, priority: options.priority ?? "detail" },
+    ),
+  )
+}
+
+/**
+ * Ask several providers for the current prices of a set of coins and compare them.
+ * Not cached: the point is to cross-check live quotes.
+ */
+export async function getConsensus(
+  ids: string[],
+  currency: string,
+  threshold: number = CONSENSUS_CONFIG.defaultThreshold,
+  options: MarketDataOptions = {},
+): Promise<ConsensusResult> {
+  const vsCurrency = checkCurrency(currency)
+  const coins = [...new Set(ids.map((id) => id.trim()).filter(Boolean))]
+  if (coins.length === 0 || coins.length > CONSENSUS_CONFIG.maxCoins) {
+    throw new MarketDataRequestError(`Between 1 and ${CONSENSUS_CONFIG.maxCoins} coin IDs are required`)
+  }
+  coins.forEach(checkCoinId)
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+    throw new MarketDataRequestError(`Invalid threshold "${threshold}"`)
+  }
+
+  const results = await fetchFromSeveral(
+    "consensus prices",
+    priceQuotesSchema,
+    (provider) => provider.getPrices(coins, vsCurrency),
+    { excluded: options.excluded, priority: options.priority ?? "detail", limit: CONSENSUS_CONFIG.maxProviders },
+  )
+
+  return {
+    data: buildConsensus(coins, results, threshold),
+    sources: results.filter((result) => Object.keys(result.data).length > 0).map((result) => result.source),
+    threshold,
+  }
+}
+
+/**
+ * Get current prices for a set of coins from the first provider that has them, in `currency`.
+ * Used to poll prices when live streams are unavailable; like the streams, prices are fetched
+ * in USD and converted with the reference rates.
+ */
+export function getPrices(
+  ids: string[],
+  currency: string,
+  options: MarketDataOptions = {},
+): Promise<MarketDataResult<PriceQuotes>> {
+  const vsCurrency = checkCurrency(currency)
+  const coins = [...new Set(ids.map((id) => id.trim()).filter(Boolean))].sort()
+  if (coins.length === 0 || coins.length > STREAM_CONFIG.maxCoins) {
+    throw new MarketDataRequestError(`Between 1 and ${STREAM_CONFIG.maxCoins} coin IDs are required`)
+  }
+  coins.forEach(checkCoinId)
+
+  return cachedResult(`prices-${vsCurrency}-${coins.join(",")}`, "prices", options, async () => {
+    const fx = await ratesFor(vsCurrency, options)
+    // A provider that knows none of the coins falls through to the next one
+    const schema = priceQuotesSchema
+      .refine((prices) => Object.keys(prices).length > 0, { message: "No prices for the requested coins" })
+      .transform((prices) => (fx ? convertPrices(prices, vsCurrency, fx) : prices))
+
+    return fetchWithFallback("prices", schema, (provider) => provider.getPrices(coins, "usd"), {
+      preferred: options.preferred,
+      excluded: options.excluded,
+      priority: options.priority ?? "list",
+    })
+  })
+}
+
+function toProviderId(value: string | null): ProviderId | null {
+  return value && getProvider(value as ProviderId) ? (value as ProviderId) : null
+}
+
+/**
+ * Read the shared options (`source`, `exclude`, `refresh`, `priority`) from a request's query string
+ */
+export function readOptions(searchParams: URLSearchParams): MarketDataOptions {
+  return {
+    preferred: toProviderId(searchParams.get("source")),
+    excluded: (searchParams.get("exclude") ?? "")
+      .split(",")
+      .map(toProviderId)
+      .filter((id): id is ProviderId => id !== null),
+    refresh: searchParams.get("refresh") === "1",
+    // Clients can only lower the priority of their own requests
+    priority: searchParams.get("priority") === "prefetch" ? "prefetch" : undefined,
+  }
+}
+
+/**
+ * Run a service call and turn its result or error into a JSON response
+ */
+export async function respond<T>(load: () => Promise<T>): Promise<NextResponse> {
+  try {
+    return NextResponse.json(await load())
+  } catch (error) {
+    if (error instanceof MarketDataRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Market data request failed:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Market data is unavailable" },
+      { status: 502 },
+    )
+  }
+}
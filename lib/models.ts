@@ -0,0 +1,165 @@
+/**
+ * Domain models
+ * Canonical shapes for market data. Every provider response is validated against
+ * these schemas before it reaches the UI.
+ */
+
+import { z } from "zod"
+import type { ProviderId } from "./providers/types"
+
+const price = z.number().finite()
+// Providers report missing values as null, 0 or not at all; null is normalised to undefined
+const optionalNumber = z
+  .number()
+  .finite()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+// Link lists from CoinGecko are padded with empty strings and nulls
+const linkListSchema = z
+  .array(z.string().nullable())
+  .optional()
+  .transform((links) => links?.filter((link): link is string => !!link))
+
+// Values keyed by lowercase currency code, e.g. { usd: 50000, eur: 46500 }
+const currencyMapSchema = z.record(price)
+
+// [timestamp in ms, value]
+const seriesPointSchema = z.tuple([z.number().finite(), z.number().finite()])
+
+// [timestamp in ms, open, high, low, close]
+const candleSchema = z.tuple([z.number().finite(), price, price, price, price])
+
+// How a record's figures were obtained, see ../provenance.ts
+const provenanceKindSchema = z.enum(["measured", "derived", "estimated"])
+const providerIdSchema = z.custom<ProviderId>((value) => typeof value === "string" && value.length > 0)
+
+export const provenanceSchema = z.object({
+  source: providerIdSchema,
+  // Applies to every field not listed in `fields`
+  kind: provenanceKindSchema,
+  note: z.string().optional(),
+  fields: z.record(
+    z.object({
+      source: providerIdSchema.optional(),
+      kind: provenanceKindSchema,
+      note: z.string().optional(),
+    }),
+  ),
+  // Currency the figures are quoted in, when the provider could not quote the requested one
+  quoteCurrency: z.string().optional(),
+  // Exchange rate used to convert the figures into the requested currency
+  fx: z
+    .object({
+      from: z.string(),
+      to: z.string(),
+      rate: z.number().positive(),
+      source: providerIdSchema,
+      // When the rate was quoted, in ms
+      timestamp: z.number(),
+    })
+    .optional(),
+})
+
+export const marketCoinSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  name: z.string().min(1),
+  image: z.string().nullable(),
+  current_price: price,
+  market_cap: optionalNumber,
+  total_volume: optionalNumber,
+  price_change_percentage_24h: optionalNumber,
+  market_cap_rank: optionalNumber,
+  provenance: provenanceSchema,
+})
+
+export const marketListSchema = z.array(marketCoinSchema).min(1)
+
+export const coinDetailSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  name: z.string().min(1),
+  image: z.object({
+    large: z.string().nullable(),
+  }),
+  market_data: z.object({
+    current_price: currencyMapSchema,
+    market_cap: currencyMapSchema,
+    total_volume: currencyMapSchema,
+    price_change_percentage_24h: optionalNumber,
+    price_change_percentage_7d: optionalNumber,
+    price_change_percentage_30d: optionalNumber,
+    price_change_percentage_60d: optionalNumber,
+    price_change_percentage_200d: optionalNumber,
+    price_change_percentage_1y: optionalNumber,
+    circulating_supply: optionalNumber,
+    total_supply: optionalNumber,
+    max_supply: optionalNumber,
+    ath: currencyMapSchema.optional(),
+    atl: currencyMapSchema.optional(),
+    ath_change_percentage: currencyMapSchema.optional(),
+    atl_change_percentage: currencyMapSchema.optional(),
+    ath_date: z.record(z.string()).optional(),
+    atl_date: z.record(z.string()).optional(),
+  }),
+  market_cap_rank: optionalNumber,
+  description: z.object({ en: z.string().nullable().optional() }).optional(),
+  links: z
+    .object({
+      homepage: linkListSchema,
+      announcement_url: linkListSchema,
+      blockchain_site: linkListSchema,
+      official_forum_url: linkListSchema,
+      chat_url: linkListSchema,
+      twitter_screen_name: z.string().nullable().optional(),
+      facebook_username: z.string().nullable().optional(),
+      telegram_channel_identifier: z.string().nullable().optional(),
+      subreddit_url: z.string().nullable().optional(),
+    })
+    .optional(),
+  categories: z
+    .array(z.string().nullable())
+    .default([])
+    .transform((categories) => categories.filter((category): category is string => !!category)),
+  provenance: provenanceSchema,
+})
+
+export const priceSeriesSchema = z.object({
+  prices: z.array(seriesPointSchema).min(1),
+  market_caps: z.array(seriesPointSchema),
+  total_volumes: z.array(seriesPointSchema),
+  // Only from providers that publish candles; their volume is in `total_volumes`
+  ohlc: z.array(candleSchema).optional(),
+  provenance: provenanceSchema,
+})
+
+export const searchSuggestionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  symbol: z.string(),
+  thumb: z.string().optional(),
+  image: z.string().optional(),
+})
+
+export const searchResultsSchema = z.array(searchSuggestionSchema)
+
+// Fiat exchange rates as units of each currency per 1 USD, e.g. { usd: 1, eur: 0.92 }
+export const exchangeRatesSchema = z.object({
+  rates: z.record(z.number().finite().positive()).refine((rates) => rates.usd === 1, "Rates must be based on USD"),
+  // When the rates were quoted, in ms
+  timestamp: z.number(),
+})
+
+// Spot prices keyed by coin ID; coins a provider can't quote are left out
+export const priceQuotesSchema = z.record(z.number().finite().positive())
+
+export type ProvenanceKind = z.infer<typeof provenanceKindSchema>
+export type Provenance = z.infer<typeof provenanceSchema>
+export type MarketCoin = z.infer<typeof marketCoinSchema>
+export type CoinDetail = z.infer<typeof coinDetailSchema>
+export type PriceSeries = z.infer<typeof priceSeriesSchema>
+export type Candle = z.infer<typeof candleSchema>
+export type SearchSuggestion = z.infer<typeof searchSuggestionSchema>
+export type PriceQuotes = z.infer<typeof priceQuotesSchema>
+export type ExchangeRates = z.infer<typeof exchangeRatesSchema>
@@ -0,0 +1,63 @@
+/**
+ * Performance statistics
+ * Summaries of a price or value series ([timestamp in ms, value] points in time order),
+ * used to compare assets over the same range.
+ */
+
+const YEAR = 365 * 24 * 60 * 60 * 1000
+
+export interface PerformanceStats {
+  // Change from the first to the last value, in %
+  returnPercent: number
+  // Standard deviation of period log returns, annualized, in %
+  volatilityPercent: number
+  // Largest fall from a previous peak, in % (0 or negative)
+  maxDrawdownPercent: number
+}
+
+/**
+ * Change from the first to the last value, in %
+ */
+export function totalReturn(points: [number, number][]): number {
+  if (points.length < 2 || points[0][1] === 0) return 0
+  return (points[points.length - 1][1] / points[0][1] - 1) * 100
+}
+
+/**
+ * Annualized volatility from the series' own sampling interval, in %
+ */
+export function volatility(points: [number, number][]): number {
+  const returns: number[] = []
+  for (let index = 1; index < points.length; index++) {
+    const [, previous] = points[index - 1]
+    const [, value] = points[index]
+    if (previous > 0 && value > 0) returns.push(Math.log(value / previous))
+  }
+  if (returns.length < 2) return 0
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1)
+  const step = (points[points.length - 1][0] - points[0][0]) / (points.length - 1)
+  return step > 0 ? Math.sqrt(variance * (YEAR / step)) * 100 : 0
+}
+
+/**
+ * Largest peak-to-trough fall, in % (0 when the series never falls)
+ */
+export function maxDrawdown(points: [number, number][]): number {
+  let peak = -Infinity
+  let drawdown = 0
+  for (const [, value] of points) {
+    peak = Math.max(peak, value)
+    if (peak > 0) drawdown = Math.min(drawdown, (value / peak - 1) * 100)
+  }
+  return drawdown
+}
+
+export function performanceStats(points: [number, number][]): PerformanceStats {
+  return {
+    returnPercent: totalReturn(points),
+    volatilityPercent: volatility(points),
+    maxDrawdownPercent: maxDrawdown(points),
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Portfolio accounting
+ * Transactions are replayed in date order: buys open lots, and sells close lots picked
+ * by the cost basis method. Amounts are converted into one currency before matching,
+ * since transactions may be recorded in different fiat currencies.
+ */
+
+import { z } from "zod"
+
+export const transactionSchema = z.object({
+  id: z.string().min(1),
+  coinId: z.string().min(1),
+  type: z.enum(["buy", "sell"]),
+  quantity: z.number().positive(),
+  // Per coin, in `currency`
+  price: z.number().nonnegative(),
+  // Total fee for the transaction, in `currency`
+  fee: z.number().nonnegative(),
+  currency: z.string().min(1),
+  // Timestamp in ms
+  date: z.number(),
+  note: z.string().optional(),
+  // Where an imported transaction came from, and its ID there when the export has one
+  source: z.string().optional(),
+  externalId: z.string().optional(),
+  // Sells only: the buys to sell from under specific identification
+  lots: z.array(z.object({ transactionId: z.string().min(1), quantity: z.number().positive() })).optional(),
+})
+
+export type Transaction = z.infer<typeof transactionSchema>
+export type TransactionType = Transaction["type"]
+
+export type NewTransaction = Omit<Transaction, "id">
+
+export type CostBasisMethod = "fifo" | "lifo" | "hifo" | "specific" | "average"
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string; description: string }[] = [
+  { value: "fifo", label: "FIFO", description: "Sells use the oldest coins first" },
+  { value: "lifo", label: "LIFO", description: "Sells use the newest coins first" },
+  { value: "hifo", label: "HIFO", description: "Sells use the most expensive coins first" },
+  {
+    value: "specific",
+    label: "Specific ID",
+    description: "Sells use the buys chosen on each sell, then the oldest coins",
+  },
+  { value: "average", label: "Average cost", description: "Sells use the average cost of all coins held" },
+]
+
+// Converts an amount recorded in `currency` on `date` into the reporting currency
+export type Converter = (amount: number, currency: string, date: number) => number
+
+export interface Lot {
+  // The buy that opened the lot
+  transactionId: string
+  date: number
+  // Still held
+  quantity: number
+  // Per coin, fees included
+  unitCost: number
+}
+
+export interface LotMatch {
+  transactionId: string
+  date: number
+  quantity: number
+  cost: number
+}
+
+export interface Disposal {
+  transactionId: string
+  coinId: string
+  date: number
+  quantity: number
+  // Sale value less fees
+  proceeds: number
+  costBasis: number
+  // Lots the sold coins came from
+  matches: LotMatch[]
+  // Sold coins with no lot to match, e.g. bought before the first recorded transaction
+  unmatched: number
+}
+
+export interface Holding {
+  coinId: string
+  quantity: number
+  costBasis: number
+  realizedPnl: number
+  lots: Lot[]
+  disposals: Disposal[]
+}
+
+function sortTransactions(transactions: Transaction[]): Transaction[] {
+  // On the same date buys come first, so a same-day round trip matches its own buy
+  return [...transactions].sort((a, b) => a.date - b.date || (a.type === b.type ? 0 : a.type === "buy" ? -1 : 1))
+}
+
+function takeFrom(lot: Lot, quantity: number): LotMatch {
+  const taken = Math.min(lot.quantity, quantity)
+  lot.quantity -= taken
+  return { transactionId: lot.transactionId, date: lot.date, quantity: taken, cost: taken * lot.unitCost }
+}
+
+/**
+ * Take `quantity` coins out of `lots`, in place, returning what was taken from which lot.
+ * Under specific identification the sell's chosen lots go first, then the oldest.
+ */
+function closeLots(
+  lots: Lot[],
+  quantity: number,
+  method: CostBasisMethod,
+  chosen: Transaction["lots"] = [],
+): LotMatch[] {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0)
+  if (held <= 0) return []
+
+  if (method === "average") {
+    // Every lot shrinks in proportion, so each keeps its date for later holding periods
+    const share = Math.min(quantity / held, 1)
+    return lots.map((lot) => takeFrom(lot, lot.quantity * share))
+  }
+
+  const matches: LotMatch[] = []
+  let remaining = quantity
+  if (method === "specific") {
+    for (const choice of chosen) {
+      const lot = lots.find((item) => item.transactionId === choice.transactionId)
+      if (!lot || remaining <= 0) continue
+      const match = takeFrom(lot, Math.min(choice.quantity, remaining))
+      remaining -= match.quantity
+      if (match.quantity > 0) matches.push(match)
+    }
+  }
+
+  const order =
+    method === "lifo"
+      ? [...lots].reverse()
+      : method === "hifo"
+        ? [...lots].sort((a, b) => b.unitCost - a.unitCost)
+        : lots
+  for (const lot of order) {
+    if (remaining <= 0) break
+    if (lot.quantity <= 0) continue
+    const match = takeFrom(lot, remaining)
+    remaining -= match.quantity
+    matches.push(match)
+  }
+  return matches
+}
+
+/**
+ * Replay one coin's transactions into its open lots and disposals
+ */
+function replay(coinId: string, transactions: Transaction[], method: CostBasisMethod, convert: Converter): Holding {
+  let lots: Lot[] = []
+  const disposals: Disposal[] = []
+
+  for (const transaction of sortTransactions(transactions)) {
+    const value = convert(transaction.quantity * transaction.price, transaction.currency, transaction.date)
+    const fee = convert(transaction.fee, transaction.currency, transaction.date)
+
+    if (transaction.type === "buy") {
+      lots.push({
+        transactionId: transaction.id,
+        date: transaction.date,
+        quantity: transaction.quantity,
+        unitCost: (value + fee) / transaction.quantity,
+      })
+      continue
+    }
+
+    const matches = closeLots(lots, transaction.quantity, method, transaction.lots)
+    const matched = matches.reduce((sum, match) => sum + match.quantity, 0)
+    disposals.push({
+      transactionId: transaction.id,
+      coinId,
+      date: transaction.date,
+      quantity: transaction.quantity,
+      proceeds: value - fee,
+      costBasis: matches.reduce((sum, match) => sum + match.cost, 0),
+      matches,
+      unmatched: Math.max(transaction.quantity - matched, 0),
+    })
+    // Dust left by floating point subtraction would show as a holding
+    lots = lots.filter((lot) => lot.quantity > 1e-12)
+  }
+
+  return {
+    coinId,
+    quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+    costBasis: lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0),
+    realizedPnl: disposals.reduce((sum, disposal) => sum + disposal.proceeds - disposal.costBasis, 0),
+    lots,
+    disposals,
+  }
+}
+
+/**
+ * Holdings per coin, including coins that have since been sold in full
+ */
+export function computeHoldings(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  convert: Converter,
+): Holding[] {
+  const byCoin = new Map<string, Transaction[]>()
+  for (const transaction of transactions) {
+    byCoin.set(transaction.coinId, [...(byCoin.get(transaction.coinId) ?? []), transaction])
+  }
+  return [...byCoin.entries()].map(([coinId, coinTransactions]) => replay(coinId, coinTransactions, method, convert))
+}
+
+/**
+ * Coins held at `date` (or now), from the transactions up to then
+ */
+export function quantityHeld(transactions: Transaction[], coinId: string, date = Infinity): number {
+  return transactions
+    .filter((transaction) => transaction.coinId === coinId && transaction.date <= date)
+    .reduce((sum, transaction) => sum + (transaction.type === "buy" ? transaction.quantity : -transaction.quantity), 0)
+}
+
+export interface ValuePoint {
+  timestamp: number
+  total: number
+  // Cost basis of the coins held at the time
+  cost: number
+  // Value per coin
+  values: Record<string, number>
+}
+
+/**
+ * Portfolio value at each grid timestamp, from the coins held then and each coin's latest
+ * price at or before it. Coins without a price yet count as zero.
+ */
+export function valueHistory(
+  transactions: Transaction[],
+  prices: Record<string, [number, number][]>,
+  grid: number[],
+  method: CostBasisMethod,
+  convert: Converter,
+): ValuePoint[] {
+  const sorted = sortTransactions(transactions)
+  const ids = Object.keys(prices)
+  const cursors: Record<string, number> = Object.fromEntries(ids.map((id) => [id, 0]))
+  const held: Record<string, number> = {}
+  let applied = 0
+  let cost = 0
+
+  return grid.map((timestamp) => {
+    const before = applied
+    while (applied < sorted.length && sorted[applied].date <= timestamp) {
+      const { coinId, type, quantity } = sorted[applied++]
+      held[coinId] = (held[coinId] ?? 0) + (type === "buy" ? quantity : -quantity)
+    }
+    // Cost basis only changes with a transaction, so it is replayed only then
+    if (applied !== before) {
+      cost = computeHoldings(sorted.slice(0, applied), method, convert).reduce(
+        (sum, holding) => sum + holding.costBasis,
+        0,
+      )
+    }
+
+    const values: Record<string, number> = {}
+    let total = 0
+    for (const id of ids) {
+      const series = prices[id]
+      while (cursors[id] + 1 < series.length && series[cursors[id] + 1][0] <= timestamp) cursors[id]++
+      const point = series[cursors[id]]
+      values[id] = point && point[0] <= timestamp ? Math.max(held[id] ?? 0, 0) * point[1] : 0
+      total += values[id]
+    }
+
+    return { timestamp, total, cost, values }
+  })
+}
@@ -0,0 +1,170 @@
+/**
+ * Live price streams
+ * Opens the providers' public WebSocket feeds (see PriceFeed in ./providers/types.ts) from the
+ * browser. Each coin is streamed by the first feed that can serve it; a feed that keeps dropping
+ * is given up and its coins move to the next one. Coins no feed can serve are reported as
+ * polled, and the caller fetches them through the regular fallback chain instead.
+ */
+
+import { STREAM_CONFIG } from "./api-config"
+import { providerPreferences } from "./provider-preferences"
+import { getProviders } from "./providers/catalog"
+import type { PriceFeed, ProviderId } from "./providers/types"
+
+export type StreamStatus = "connecting" | "live" | "polling"
+
+export interface StreamState {
+  status: StreamStatus
+  // Feeds with an open socket
+  sources: ProviderId[]
+  // Coins that no feed is streaming
+  polled: string[]
+}
+
+export interface PriceTick {
+  id: string
+  // Always USD
+  price: number
+  source: ProviderId
+  timestamp: number
+}
+
+interface StreamHandlers {
+  onTicks(ticks: PriceTick[]): void
+  onState(state: StreamState): void
+}
+
+interface Connection {
+  source: ProviderId
+  feed: PriceFeed
+  url: string
+  ids: string[]
+  socket: WebSocket | null
+  open: boolean
+  attempts: number
+  lastMessage: number
+  retryTimer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Stream USD prices for `ids` until the returned function is called
+ */
+export function openPriceStream(ids: string[], handlers: StreamHandlers): () => void {
+  const { pinned, disabled } = providerPreferences.get()
+  // Same order as the fallback chain, with a pinned provider first
+  const feeds = getProviders()
+    .filter((provider) => provider.priceFeed && !disabled.includes(provider.id))
+    .sort((a, b) => Number(b.id === pinned) - Number(a.id === pinned))
+  const failed = new Set<ProviderId>()
+  let connections: Connection[] = []
+  let polled: string[] = []
+  let closed = false
+
+  const report = () => {
+    const streamed = connections.filter((connection) => connection.open)
+    handlers.onState({
+      status:
+        polled.length === ids.length ? "polling" : streamed.length === connections.length ? "live" : "connecting",
+      sources: streamed.map((connection) => connection.source),
+      polled,
+    })
+  }
+
+  const connect = (connection: Connection) => {
+    const socket = new WebSocket(connection.url)
+    connection.socket = socket
+
+    socket.onopen = () => {
+      connection.open = true
+      connection.attempts = 0
+      connection.lastMessage = Date.now()
+      report()
+    }
+
+    socket.onmessage = (event) => {
+      connection.lastMessage = Date.now()
+      try {
+        const prices = connection.feed.parse(String(event.data))
+        const ticks = Object.entries(prices)
+          .filter(([id]) => connection.ids.includes(id))
+          .map(([id, price]) => ({ id, price, source: connection.source, timestamp: connection.lastMessage }))
+        if (ticks.length > 0) handlers.onTicks(ticks)
+      } catch (error) {
+        console.error(`Error reading ${connection.source} price stream:`, error)
+      }
+    }
+
+    // Errors are always followed by a close, so reconnecting is handled there
+    socket.onclose = () => {
+      if (closed || connection.socket !== socket) return
+      connection.open = false
+      connection.socket = null
+
+      if (connection.attempts < STREAM_CONFIG.reconnectAttempts) {
+        const delay = STREAM_CONFIG.reconnectDelay * 2 ** connection.attempts
+        connection.attempts++
+        connection.retryTimer = setTimeout(() => connect(connection), delay)
+        report()
+      } else {
+        console.warn(`Giving up on the ${connection.source} price stream`)
+        failed.add(connection.source)
+        assign()
+      }
+    }
+  }
+
+  const disconnect = (connection: Connection) => {
+    clearTimeout(connection.retryTimer)
+    const socket = connection.socket
+    connection.socket = null
+    socket?.close()
+  }
+
+  // Hand every coin to the first working feed that serves it
+  const assign = () => {
+    connections.forEach(disconnect)
+    connections = []
+    let remaining = ids
+
+    if (typeof WebSocket !== "undefined") {
+      for (const provider of feeds) {
+        if (failed.has(provider.id) || remaining.length === 0) continue
+        const served = provider.priceFeed!.connect(remaining)
+        if (!served) continue
+
+        connections.push({
+          source: provider.id,
+          feed: provider.priceFeed!,
+          url: served.url,
+          ids: served.ids,
+          socket: null,
+          open: false,
+          attempts: 0,
+          lastMessage: 0,
+        })
+        remaining = remaining.filter((id) => !served.ids.includes(id))
+      }
+    }
+
+    polled = remaining
+    connections.forEach(connect)
+    report()
+  }
+
+  // Reconnect sockets that are open but have gone quiet
+  const watchdog = setInterval(() => {
+    for (const connection of connections) {
+      if (connection.open && Date.now() - connection.lastMessage > STREAM_CONFIG.staleAfter) {
+        connection.socket?.close()
+      }
+    }
+  }, STREAM_CONFIG.staleAfter / 2)
+
+  assign()
+
+  return () => {
+    closed = true
+    clearInterval(watchdog)
+    connections.forEach(disconnect)
+  }
+}
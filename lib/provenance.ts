@@ -0,0 +1,63 @@
+/**
+ * Field provenance
+ * Every normalized record says which provider it came from and how trustworthy each
+ * figure is, so approximations made by an adapter can be shown as such:
+ *   measured  - reported by the provider as-is
+ *   derived   - computed from measured values (e.g. a USDT price used as USD)
+ *   estimated - approximated or filled in; not a real market figure
+ * Fields are addressed by dotted paths, e.g. "market_cap" or "market_data.current_price.eur".
+ * A field without an entry inherits from its closest listed parent, then from the record.
+ */
+
+import type { Provenance, ProvenanceKind } from "./models"
+import type { ProviderId } from "./providers/types"
+
+export interface FieldProvenance {
+  source: ProviderId
+  kind: ProvenanceKind
+  // Why the value is not measured, shown in the UI
+  note?: string
+}
+
+type FieldNotes = Record<string, Omit<FieldProvenance, "source"> & { source?: ProviderId }>
+
+/**
+ * Describe a record from `source` whose fields are measured unless listed in `fields`.
+ * `record` sets the kind for every unlisted field and, for providers that can't quote
+ * the requested currency, the `quoteCurrency` the figures are in.
+ */
+export function createProvenance(
+  source: ProviderId,
+  fields: FieldNotes = {},
+  record: Partial<Pick<Provenance, "kind" | "note" | "quoteCurrency">> = {},
+): Provenance {
+  return { source, kind: "measured", ...record, fields }
+}
+
+/**
+ * Field note for an approximated value
+ */
+export function estimated(note: string): FieldNotes[string] {
+  return { kind: "estimated", note }
+}
+
+/**
+ * Field note for a value computed from other figures
+ */
+export function derived(note: string): FieldNotes[string] {
+  return { kind: "derived", note }
+}
+
+/**
+ * Look up how a field was obtained
+ */
+export function getFieldProvenance(provenance: Provenance, path: string): FieldProvenance {
+  const parts = path.split(".")
+
+  for (let length = parts.length; length > 0; length--) {
+    const field = provenance.fields[parts.slice(0, length).join(".")]
+    if (field) return { source: field.source ?? provenance.source, kind: field.kind, note: field.note }
+  }
+
+  return { source: provenance.source, kind: provenance.kind, note: provenance.note }
+}
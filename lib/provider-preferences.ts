@@ -0,0 +1,72 @@
+/**
+ * Provider preferences for the current browser session
+ * Lets the user pin one provider (tried first) or disable providers from the /status
+ * page or the source indicator. Stored in sessionStorage and sent with every request
+ * to the API routes as `source` and `exclude` query parameters.
+ */
+
+import { cacheUtils } from "./api"
+import type { ProviderId } from "./providers/types"
+
+const STORAGE_KEY = "provider-preferences"
+// Cached responses were fetched under the old preferences, see ./api-utils.ts
+const CACHE_PREFIXES = ["crypto-list-", "crypto-detail-", "chart-", "search-suggestions-"]
+
+export interface ProviderPreferences {
+  pinned: ProviderId | null
+  disabled: ProviderId[]
+}
+
+const DEFAULT_PREFERENCES: ProviderPreferences = { pinned: null, disabled: [] }
+
+export const providerPreferences = {
+  get(): ProviderPreferences {
+    if (typeof window === "undefined") return DEFAULT_PREFERENCES
+
+    try {
+      const stored = sessionStorage.getItem(STORAGE_KEY)
+      return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES
+    } catch (error) {
+      console.error("Error reading provider preferences:", error)
+      return DEFAULT_PREFERENCES
+    }
+  },
+
+  save(preferences: ProviderPreferences) {
+    try {
+      const stored = JSON.stringify(preferences)
+      if (stored === JSON.stringify(this.get())) return
+      sessionStorage.setItem(STORAGE_KEY, stored)
+      CACHE_PREFIXES.forEach((prefix) => cacheUtils.clearByPrefix(prefix))
+    } catch (error) {
+      console.error("Error saving provider preferences:", error)
+    }
+  },
+
+  // Pin a provider so it is tried first, or pass null to go back to the normal order
+  pin(id: ProviderId | null) {
+    const preferences = this.get()
+    this.save({ ...preferences, pinned: id, disabled: preferences.disabled.filter((other) => other !== id) })
+  },
+
+  setDisabled(id: ProviderId, disabled: boolean) {
+    const preferences = this.get()
+    this.save({
+      pinned: disabled && preferences.pinned === id ? null : preferences.pinned,
+      disabled: disabled
+        ? [...preferences.disabled.filter((other) => other !== id), id]
+        : preferences.disabled.filter((other) => other !== id),
+    })
+  },
+
+  clear() {
+    this.save(DEFAULT_PREFERENCES)
+  },
+
+  // Add the preferences to a request's query string
+  applyTo(searchParams: URLSearchParams) {
+    const { pinned, disabled } = this.get()
+    if (pinned) searchParams.set("source", pinned)
+    if (disabled.length > 0) searchParams.set("exclude", disabled.join(","))
+  },
+}
@@ -0,0 +1,256 @@
+/**
+ * Binance adapter
+ * Binance is an exchange rather than a data aggregator: prices come from USDT
+ * pairs (treated as USD and converted to other currencies with reference rates)
+ * and market caps, ranks and supplies are not available
+ */
+
+import { fetchJson } from "../api"
+import { CHART_RANGE_CONFIG, ID_TO_SYMBOL_MAPPING, SYMBOL_TO_ID_MAPPING } from "../api-config"
+import type { PriceSeries } from "../models"
+import { createProvenance, derived, estimated } from "../provenance"
+import type { MarketDataProvider } from "./types"
+
+const BASE_URL = "https://api.binance.com/api/v3"
+const STREAM_URL = "wss://stream.binance.com:9443/stream"
+
+const ENDPOINTS = {
+  ticker24hr: "/ticker/24hr",
+  tickerPrice: "/ticker/price",
+  klines: "/klines",
+  ping: "/ping",
+}
+
+const HEADERS = {
+  Accept: "application/json",
+}
+
+function toPair(id: string): string {
+  return `${ID_TO_SYMBOL_MAPPING[id] || id.toUpperCase()}USDT`
+}
+
+const USDT_PRICE = derived("Binance USDT pair, treated as USD")
+const USDT_VOLUME = derived("24h USDT volume on Binance only")
+const VOLUME_MARKET_CAP = estimated("10 × 24h trading volume; Binance has no market cap data")
+const USD_QUOTE = { quoteCurrency: "usd" }
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Binance returns at most this many klines per request
+const MAX_KLINES = 1000
+
+function toSeries(klines: any[]): PriceSeries {
+  // Binance klines format: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+  return {
+    prices: klines.map((item: any) => [item[0], Number(item[4])]),
+    // Estimate market cap (not directly available)
+    market_caps: klines.map((item: any) => [item[0], Number(item[4]) * Number(item[5]) * 10]),
+    total_volumes: klines.map((item: any) => [item[0], Number(item[7])]),
+    ohlc: klines.map((item: any) => [item[0], Number(item[1]), Number(item[2]), Number(item[3]), Number(item[4])]),
+    provenance: createProvenance(
+      "binance",
+      { prices: USDT_PRICE, ohlc: USDT_PRICE, total_volumes: USDT_VOLUME, market_caps: VOLUME_MARKET_CAP },
+      USD_QUOTE,
+    ),
+  }
+}
+
+/**
+ * Klines between `from` and `to`, one page per `MAX_KLINES` window starting from `to`, so a
+ * capped number of pages still reaches the present
+ */
+async function fetchKlines(id: string, from: number, to: number): Promise<PriceSeries> {
+  const span = to - from
+  const { interval, step } =
+    span <= DAY ? { interval: "1h", step: HOUR } : span <= 7 * DAY ? { interval: "4h", step: 4 * HOUR } : { interval: "1d", step: DAY }
+  const klines: any[] = []
+
+  for (let endTime = to, page = 0; endTime > from && page < CHART_RANGE_CONFIG.maxPages; page++) {
+    const startTime = Math.max(from, endTime - (MAX_KLINES - 1) * step)
+    const url = new URL(`${BASE_URL}${ENDPOINTS.klines}`)
+    url.searchParams.append("symbol", toPair(id))
+    url.searchParams.append("interval", interval)
+    url.searchParams.append("startTime", startTime.toString())
+    url.searchParams.append("endTime", endTime.toString())
+    url.searchParams.append("limit", MAX_KLINES.toString())
+
+    const batch = await fetchJson(url.toString(), { headers: HEADERS })
+    // Nothing before the pair was listed
+    if (batch.length === 0) break
+    klines.unshift(...batch)
+    endTime = startTime - 1
+  }
+
+  return toSeries(klines)
+}
+
+export const binanceProvider: MarketDataProvider = {
+  id: "binance",
+  name: "Binance",
+  priority: 4,
+  enabled: true,
+  // 1200 request weight a minute; ticker and kline calls weigh up to 40
+  rateLimit: { capacity: 20, refillPerMinute: 60 },
+
+  async listMarkets() {
+    const rawData = await fetchJson(`${BASE_URL}${ENDPOINTS.ticker24hr}`, { headers: HEADERS })
+    const provenance = createProvenance(
+      "binance",
+      {
+        current_price: USDT_PRICE,
+        total_volume: USDT_VOLUME,
+        market_cap: VOLUME_MARKET_CAP,
+        market_cap_rank: estimated("Position in Binance's ticker list, not a market cap rank"),
+      },
+      USD_QUOTE,
+    )
+
+    // Filter for USDT pairs and transform to match our format
+    return rawData
+      .filter((item: any) => item.symbol.endsWith("USDT"))
+      .map((item: any, index: number) => {
+        const symbol = item.symbol.replace("USDT", "").toLowerCase()
+        const id = SYMBOL_TO_ID_MAPPING[symbol.toUpperCase()] || symbol
+
+        return {
+          id,
+          symbol,
+          name: symbol.charAt(0).toUpperCase() + symbol.slice(1),
+          image: `https://cryptologos.cc/logos/${id}-${symbol}-logo.png`,
+          current_price: Number(item.lastPrice),
+          market_cap: Number(item.quoteVolume) * 10, // Rough estimate
+          total_volume: Number(item.quoteVolume),
+          price_change_percentage_24h: Number(item.priceChangePercent),
+          market_cap_rank: index + 1, // Approximate rank
+          provenance,
+        }
+      })
+  },
+
+  async getCoin(id) {
+    const ticker = await fetchJson(`${BASE_URL}${ENDPOINTS.ticker24hr}?symbol=${toPair(id)}`, { headers: HEADERS })
+    const symbol = ticker.symbol.replace("USDT", "")
+
+    return {
+      id,
+      symbol: symbol.toLowerCase(),
+      name: symbol,
+      image: {
+        large: `https://cryptologos.cc/logos/${id}-${symbol.toLowerCase()}-logo.png`,
+      },
+      market_data: {
+        current_price: { usd: Number(ticker.lastPrice) },
+        market_cap: { usd: Number(ticker.quoteVolume) * 10 },
+        total_volume: { usd: Number(ticker.quoteVolume) },
+        price_change_percentage_24h: Number(ticker.priceChangePercent),
+        // Supplies and rank are not available
+      },
+      description: {
+        en: `${symbol} cryptocurrency trading on Binance.`,
+      },
+      links: {
+        homepage: [`https://www.binance.com/en/trade/${symbol}_USDT`],
+        blockchain_site: [],
+        official_forum_url: [],
+        twitter_screen_name: "",
+        telegram_channel_identifier: "",
+        subreddit_url: "",
+      },
+      categories: ["Cryptocurrency"],
+      provenance: createProvenance(
+        "binance",
+        {
+          "market_data.current_price": USDT_PRICE,
+          "market_data.market_cap": VOLUME_MARKET_CAP,
+          "market_data.total_volume": USDT_VOLUME,
+        },
+        USD_QUOTE,
+      ),
+    }
+  },
+
+  async getChart(id, _currency, days) {
+    if (days === "max") return fetchKlines(id, CHART_RANGE_CONFIG.maxHistoryStart, Date.now())
+
+    const daysNum = Number(days)
+
+    // Choose appropriate interval based on days
+    let interval = "1d"
+    if (daysNum <= 1) interval = "1h"
+    else if (daysNum <= 7) interval = "4h"
+
+    // Calculate limit (max 1000)
+    let limit = Math.min(1000, daysNum * 24)
+    if (interval === "4h") limit = Math.min(1000, Math.ceil((daysNum * 24) / 4))
+    if (interval === "1d") limit = Math.min(1000, daysNum)
+
+    const url = new URL(`${BASE_URL}${ENDPOINTS.klines}`)
+    url.searchParams.append("symbol", toPair(id))
+    url.searchParams.append("interval", interval)
+    url.searchParams.append("limit", limit.toString())
+
+    const klines = await fetchJson(url.toString(), { headers: HEADERS })
+    return toSeries(klines)
+  },
+
+  async getChartRange(id, _currency, from, to) {
+    return fetchKlines(id, from, to)
+  },
+
+  async search(query) {
+    const tickers = await fetchJson(`${BASE_URL}${ENDPOINTS.tickerPrice}`, { headers: HEADERS })
+    const needle = query.toUpperCase()
+
+    return tickers
+      .filter((item: any) => item.symbol.endsWith("USDT") && item.symbol.startsWith(needle))
+      .slice(0, 20)
+      .map((item: any) => {
+        const symbol = item.symbol.replace("USDT", "")
+        return {
+          id: SYMBOL_TO_ID_MAPPING[symbol] || symbol.toLowerCase(),
+          name: symbol,
+          symbol,
+        }
+      })
+  },
+
+  async getPrices(ids, currency) {
+    // USDT pairs only stand in for USD prices
+    if (currency !== "usd") return {}
+
+    // Asking for specific symbols fails the whole request if one pair is not listed,
+    // so fetch every ticker and pick the requested pairs
+    const tickers = await fetchJson(`${BASE_URL}${ENDPOINTS.tickerPrice}`, { headers: HEADERS })
+    const pairs = new Map(ids.map((id) => [toPair(id), id]))
+
+    return Object.fromEntries(
+      tickers
+        .filter((item: any) => pairs.has(item.symbol))
+        .map((item: any) => [pairs.get(item.symbol), Number(item.price)]),
+    )
+  },
+
+  // Combined mini-ticker stream, one update a second per pair
+  priceFeed: {
+    connect(ids) {
+      // Only coins with a known symbol; a guessed pair may not exist and would never update
+      const served = ids.filter((id) => ID_TO_SYMBOL_MAPPING[id])
+      if (served.length === 0) return null
+
+      const streams = served.map((id) => `${toPair(id).toLowerCase()}@miniTicker`).join("/")
+      return { url: `${STREAM_URL}?streams=${streams}`, ids: served }
+    },
+
+    parse(message) {
+      const { data } = JSON.parse(message)
+      const id = typeof data?.s === "string" ? SYMBOL_TO_ID_MAPPING[data.s.replace(/USDT$/, "")] : undefined
+      const price = Number(data?.c)
+      return id && price > 0 ? { [id]: price } : {}
+    },
+  },
+
+  async probe() {
+    await fetchJson(`${BASE_URL}${ENDPOINTS.ping}`, { headers: HEADERS })
+  },
+}
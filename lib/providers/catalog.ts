@@ -0,0 +1,36 @@
+/**
+ * Provider catalog
+ * The ordered list of market data providers, without the status tracking in ./registry.ts,
+ * so the browser can look up names and price feeds without bundling the fallback chain.
+ * To add a source, write an adapter and list it in PROVIDERS; to disable one, set
+ * `enabled: false` in its adapter.
+ */
+
+import { binanceProvider } from "./binance"
+import { coincapProvider } from "./coincap"
+import { coingeckoProvider } from "./coingecko"
+import { cryptocompareProvider } from "./cryptocompare"
+import { mockProvider } from "./mock"
+import type { MarketDataProvider, ProviderId } from "./types"
+
+// Real providers, tried in priority order. The mock provider is always the last resort.
+export const PROVIDERS: MarketDataProvider[] = [
+  coingeckoProvider,
+  coincapProvider,
+  cryptocompareProvider,
+  binanceProvider,
+]
+
+/**
+ * Get all enabled providers sorted by priority, excluding the mock provider
+ */
+export function getProviders(): MarketDataProvider[] {
+  return PROVIDERS.filter((provider) => provider.enabled).sort((a, b) => a.priority - b.priority)
+}
+
+/**
+ * Look up a provider (including the mock provider) by ID
+ */
+export function getProvider(id: ProviderId): MarketDataProvider | undefined {
+  return id === mockProvider.id ? mockProvider : PROVIDERS.find((provider) => provider.id === id)
+}
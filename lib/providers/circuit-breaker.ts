@@ -0,0 +1,138 @@
+/**
+ * Per-provider circuit breaker
+ * closed    - requests flow normally; transient failures are counted
+ * open      - the provider is skipped until its open period ends; the period doubles
+ *             every time the circuit re-opens without a success in between
+ * half-open - regular requests still skip the provider while a single lightweight
+ *             probe decides whether to close the circuit or open it again
+ */
+
+import type { ProviderErrorKind } from "./errors"
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface CircuitBreakerConfig {
+  // Consecutive transient failures (timeout, 5xx, network) before the circuit opens
+  failureThreshold: number
+  // First open period after transient failures or a 429
+  baseOpenMs: number
+  // First open period after a schema failure; garbage rarely fixes itself quickly
+  schemaOpenMs: number
+  // Longest open period
+  maxOpenMs: number
+}
+
+export const DEFAULT_CIRCUIT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  baseOpenMs: 30 * 1000, // 30 seconds
+  schemaOpenMs: 5 * 60 * 1000, // 5 minutes
+  maxOpenMs: 30 * 60 * 1000, // 30 minutes
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  // When an open circuit becomes half-open
+  openUntil: number | null
+  lastFailureKind: ProviderErrorKind | null
+}
+
+export interface CircuitBreaker {
+  state(): CircuitState
+  // Claim the half-open probe; only one caller gets it until the probe reports back
+  tryStartProbe(): boolean
+  recordSuccess(): void
+  recordFailure(kind: ProviderErrorKind, retryAfter?: number): void
+  // Open immediately, e.g. when the browser goes offline
+  trip(): void
+  // End the open period now so the next check moves to half-open
+  expire(): void
+  reset(): void
+  snapshot(): CircuitSnapshot
+}
+
+export function createCircuitBreaker(config: CircuitBreakerConfig = DEFAULT_CIRCUIT_CONFIG): CircuitBreaker {
+  let state: CircuitState = "closed"
+  let consecutiveFailures = 0
+  // Times the circuit has opened since the last success, drives the exponential period
+  let consecutiveOpens = 0
+  let openUntil = 0
+  let probing = false
+  let lastFailureKind: ProviderErrorKind | null = null
+
+  const open = (basePeriod: number, minimumPeriod = 0) => {
+    const period = Math.min(config.maxOpenMs, basePeriod * 2 ** consecutiveOpens)
+    consecutiveOpens += 1
+    state = "open"
+    openUntil = Date.now() + Math.max(period, minimumPeriod)
+    probing = false
+  }
+
+  return {
+    state() {
+      if (state === "open" && Date.now() >= openUntil) {
+        state = "half-open"
+        probing = false
+      }
+      return state
+    },
+
+    tryStartProbe() {
+      if (this.state() !== "half-open" || probing) return false
+      probing = true
+      return true
+    },
+
+    recordSuccess() {
+      state = "closed"
+      consecutiveFailures = 0
+      consecutiveOpens = 0
+      openUntil = 0
+      probing = false
+    },
+
+    recordFailure(kind, retryAfter = 0) {
+      lastFailureKind = kind
+      const basePeriod = kind === "schema" ? config.schemaOpenMs : config.baseOpenMs
+
+      // A failed probe re-opens the circuit whatever the kind, or the probe would stay claimed forever
+      if (this.state() === "half-open") {
+        open(basePeriod, retryAfter)
+        return
+      }
+      if (kind === "client") return
+
+      consecutiveFailures += 1
+      if (
+        kind === "rate_limit" ||
+        kind === "schema" ||
+        consecutiveFailures >= config.failureThreshold
+      ) {
+        open(basePeriod, retryAfter)
+      }
+    },
+
+    trip() {
+      open(config.baseOpenMs)
+    },
+
+    expire() {
+      if (state === "open") openUntil = Date.now()
+    },
+
+    reset() {
+      this.recordSuccess()
+      lastFailureKind = null
+    },
+
+    snapshot() {
+      const current = this.state()
+      return {
+        state: current,
+        consecutiveFailures,
+        openUntil: current === "open" ? openUntil : null,
+        lastFailureKind,
+      }
+    },
+  }
+}
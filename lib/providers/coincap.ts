@@ -0,0 +1,215 @@
+/**
+ * CoinCap adapter
+ * CoinCap only quotes in USD; other currencies are converted with reference rates (see ../fx.ts)
+ */
+
+import { fetchJson } from "../api"
+import { CHART_RANGE_CONFIG } from "../api-config"
+import type { PriceSeries } from "../models"
+import { createProvenance, derived, estimated } from "../provenance"
+import type { MarketDataProvider } from "./types"
+
+const BASE_URL = "https://api.coincap.io/v2"
+const STREAM_URL = "wss://ws.coincap.io/prices"
+
+const ENDPOINTS = {
+  markets: "/assets",
+  coinDetail: "/assets/{id}",
+  marketChart: "/assets/{id}/history",
+}
+
+// Optional API key, read on the server only
+const API_KEY = process.env.COINCAP_API_KEY
+
+const HEADERS: Record<string, string> = {
+  Accept: "application/json",
+  ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+}
+
+function iconUrl(symbol: string): string {
+  return `https://assets.coincap.io/assets/icons/${symbol.toLowerCase()}@2x.png`
+}
+
+// Every CoinCap figure is in USD
+const USD_QUOTE = { quoteCurrency: "usd" }
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// History interval by the length of the window
+const INTERVALS = [
+  { name: "m5", step: 5 * 60 * 1000, upTo: DAY },
+  { name: "h1", step: HOUR, upTo: 7 * DAY },
+  { name: "h6", step: 6 * HOUR, upTo: 30 * DAY },
+  { name: "d1", step: DAY, upTo: Infinity },
+]
+
+// CoinCap returns at most this many points per history request
+const MAX_HISTORY_POINTS = 2000
+
+/**
+ * Price history between `from` and `to`, fetched newest page first so a capped number
+ * of pages still reaches the present
+ */
+async function fetchHistory(id: string, from: number, to: number): Promise<PriceSeries> {
+  const interval = INTERVALS.find((option) => to - from <= option.upTo)!
+  const pageSpan = interval.step * MAX_HISTORY_POINTS
+  const items: any[] = []
+
+  for (let end = to, page = 0; end > from && page < CHART_RANGE_CONFIG.maxPages; end -= pageSpan, page++) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.marketChart.replace("{id}", id)}`)
+    url.searchParams.append("interval", interval.name)
+    url.searchParams.append("start", Math.max(from, end - pageSpan).toString())
+    url.searchParams.append("end", end.toString())
+
+    const rawData = await fetchJson(url.toString(), { headers: HEADERS })
+    items.unshift(...rawData.data)
+  }
+
+  // Pages meet at their edges, so a point can come back twice
+  const points = [...new Map(items.map((item) => [Number(item.time), item])).values()]
+
+  // Transform CoinCap data to match CoinGecko format
+  return {
+    prices: points.map((item: any) => [Number(item.time), Number(item.priceUsd)]),
+    market_caps: points.map((item: any) => [
+      Number(item.time),
+      Number(item.priceUsd) * Number(item.circulatingSupply || 0),
+    ]),
+    total_volumes: points.map((item: any) => [Number(item.time), Number(item.volumeUsd || 0)]),
+    provenance: createProvenance("coincap", { market_caps: derived("Price × circulating supply") }, USD_QUOTE),
+  }
+}
+
+export const coincapProvider: MarketDataProvider = {
+  id: "coincap",
+  name: "CoinCap",
+  priority: 2,
+  enabled: true,
+  // About 200 calls a minute without a key
+  rateLimit: { capacity: 20, refillPerMinute: 200 },
+
+  async listMarkets() {
+    const rawData = await fetchJson(`${BASE_URL}${ENDPOINTS.markets}`, { headers: HEADERS })
+    const provenance = createProvenance("coincap", {}, USD_QUOTE)
+
+    // Transform CoinCap data to match CoinGecko format
+    return rawData.data.map((asset: any) => ({
+      id: asset.id,
+      symbol: asset.symbol.toLowerCase(),
+      name: asset.name,
+      image: iconUrl(asset.symbol),
+      current_price: Number(asset.priceUsd),
+      market_cap: Number(asset.marketCapUsd),
+      total_volume: Number(asset.volumeUsd24Hr),
+      price_change_percentage_24h: Number(asset.changePercent24Hr),
+      market_cap_rank: Number(asset.rank),
+      provenance,
+    }))
+  },
+
+  async getCoin(id) {
+    const rawData = await fetchJson(`${BASE_URL}${ENDPOINTS.coinDetail.replace("{id}", id)}`, { headers: HEADERS })
+    const asset = rawData.data
+
+    // Transform CoinCap data to match CoinGecko format
+    return {
+      id: asset.id,
+      symbol: asset.symbol.toLowerCase(),
+      name: asset.name,
+      image: {
+        large: iconUrl(asset.symbol),
+      },
+      market_data: {
+        current_price: { usd: Number(asset.priceUsd) },
+        market_cap: { usd: Number(asset.marketCapUsd) },
+        total_volume: { usd: Number(asset.volumeUsd24Hr) },
+        price_change_percentage_24h: Number(asset.changePercent24Hr),
+        price_change_percentage_7d: Number(asset.changePercent24Hr) * 1.5, // Approximation
+        price_change_percentage_30d: Number(asset.changePercent24Hr) * 2, // Approximation
+        circulating_supply: Number(asset.supply),
+        total_supply: Number(asset.maxSupply || asset.supply),
+        max_supply: asset.maxSupply ? Number(asset.maxSupply) : undefined,
+      },
+      market_cap_rank: Number(asset.rank),
+      description: {
+        en: `${asset.name} (${asset.symbol}) is a cryptocurrency.`,
+      },
+      links: {
+        homepage: [""],
+        blockchain_site: [],
+        official_forum_url: [""],
+        twitter_screen_name: "",
+        telegram_channel_identifier: "",
+        subreddit_url: "",
+      },
+      categories: ["Cryptocurrency"],
+      provenance: createProvenance(
+        "coincap",
+        {
+          "market_data.price_change_percentage_7d": estimated("Extrapolated from the 24h change"),
+          "market_data.price_change_percentage_30d": estimated("Extrapolated from the 24h change"),
+          "market_data.total_supply": derived("Max supply, or circulating supply when there is no max"),
+        },
+        USD_QUOTE,
+      ),
+    }
+  },
+
+  async getChart(id, _currency, days) {
+    const end = Date.now()
+    const start = days === "max" ? CHART_RANGE_CONFIG.maxHistoryStart : end - Number(days) * DAY
+
+    return fetchHistory(id, start, end)
+  },
+
+  async getChartRange(id, _currency, from, to) {
+    return fetchHistory(id, from, to)
+  },
+
+  async search(query) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.markets}`)
+    url.searchParams.append("search", query)
+    url.searchParams.append("limit", "20")
+
+    const rawData = await fetchJson(url.toString(), { headers: HEADERS })
+
+    return rawData.data.map((asset: any) => ({
+      id: asset.id,
+      name: asset.name,
+      symbol: asset.symbol.toUpperCase(),
+      thumb: iconUrl(asset.symbol),
+    }))
+  },
+
+  async getPrices(ids, currency) {
+    // Approximated non-USD prices would only skew the consensus
+    if (currency !== "usd") return {}
+
+    const url = new URL(`${BASE_URL}${ENDPOINTS.markets}`)
+    url.searchParams.append("ids", ids.join(","))
+
+    const rawData = await fetchJson(url.toString(), { headers: HEADERS })
+
+    return Object.fromEntries(rawData.data.map((asset: any) => [asset.id, Number(asset.priceUsd)]))
+  },
+
+  // Trade prices as they happen, keyed by CoinCap asset id (the same ids as CoinGecko for most coins)
+  priceFeed: {
+    connect(ids) {
+      return ids.length > 0 ? { url: `${STREAM_URL}?assets=${ids.join(",")}`, ids } : null
+    },
+
+    parse(message) {
+      return Object.fromEntries(
+        Object.entries(JSON.parse(message))
+          .map(([id, price]) => [id, Number(price)] as const)
+          .filter(([, price]) => price > 0),
+      )
+    },
+  },
+
+  async probe() {
+    await fetchJson(`${BASE_URL}${ENDPOINTS.markets}?limit=1`, { headers: HEADERS })
+  },
+}
@@ -0,0 +1,140 @@
+/**
+ * CoinGecko adapter
+ * CoinGecko is the reference format for the app, so responses are returned as-is
+ */
+
+import { fetchJson } from "../api"
+import { isQuoteCurrency } from "../currencies"
+import { createProvenance } from "../provenance"
+import type { MarketDataProvider } from "./types"
+
+const BASE_URL = "https://api.coingecko.com/api/v3"
+
+const ENDPOINTS = {
+  markets: "/coins/markets",
+  coinDetail: "/coins/{id}",
+  marketChart: "/coins/{id}/market_chart",
+  marketChartRange: "/coins/{id}/market_chart/range",
+  search: "/search",
+  simplePrice: "/simple/price",
+  exchangeRates: "/exchange_rates",
+  ping: "/ping",
+}
+
+// Every CoinGecko figure is reported as-is
+const PROVENANCE = createProvenance("coingecko")
+
+// Optional API key, read on the server only
+const API_KEY = process.env.COINGECKO_API_KEY
+
+const HEADERS: Record<string, string> = {
+  Accept: "application/json",
+  ...(API_KEY ? { "x-cg-demo-api-key": API_KEY } : {}),
+}
+
+export const coingeckoProvider: MarketDataProvider = {
+  id: "coingecko",
+  name: "CoinGecko",
+  priority: 1,
+  enabled: true,
+  // Public API: about 30 calls a minute
+  rateLimit: { capacity: 10, refillPerMinute: 30 },
+
+  async listMarkets(currency) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.markets}`)
+    url.searchParams.append("vs_currency", currency)
+    url.searchParams.append("order", "market_cap_desc")
+    url.searchParams.append("per_page", "250")
+    url.searchParams.append("page", "1")
+    url.searchParams.append("sparkline", "false")
+    url.searchParams.append("price_change_percentage", "24h")
+
+    const coins = await fetchJson(url.toString(), { headers: HEADERS })
+    return coins.map((coin: any) => ({ ...coin, provenance: PROVENANCE }))
+  },
+
+  async getCoin(id) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.coinDetail.replace("{id}", id)}`)
+    url.searchParams.append("localization", "false")
+    url.searchParams.append("tickers", "false")
+    url.searchParams.append("market_data", "true")
+    url.searchParams.append("community_data", "false")
+    url.searchParams.append("developer_data", "false")
+    url.searchParams.append("sparkline", "true")
+
+    const coin = await fetchJson(url.toString(), { headers: HEADERS })
+    return { ...coin, provenance: PROVENANCE }
+  },
+
+  async getChart(id, currency, days) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.marketChart.replace("{id}", id)}`)
+    url.searchParams.append("vs_currency", currency)
+    url.searchParams.append("days", days)
+
+    // For longer time ranges, use daily interval to reduce data points
+    if (days === "max" || Number(days) > 90) {
+      url.searchParams.append("interval", "daily")
+    }
+
+    const series = await fetchJson(url.toString(), { headers: HEADERS })
+    return { ...series, provenance: PROVENANCE }
+  },
+
+  async getChartRange(id, currency, from, to) {
+    // Granularity follows the span, and the whole window comes back in one response
+    const url = new URL(`${BASE_URL}${ENDPOINTS.marketChartRange.replace("{id}", id)}`)
+    url.searchParams.append("vs_currency", currency)
+    url.searchParams.append("from", Math.floor(from / 1000).toString())
+    url.searchParams.append("to", Math.ceil(to / 1000).toString())
+
+    const series = await fetchJson(url.toString(), { headers: HEADERS })
+    return { ...series, provenance: PROVENANCE }
+  },
+
+  async search(query) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.search}`)
+    url.searchParams.append("query", query)
+
+    const data = await fetchJson(url.toString(), { headers: HEADERS })
+
+    return data.coins.map((coin: any) => ({
+      id: coin.id,
+      name: coin.name,
+      symbol: coin.symbol.toUpperCase(),
+      thumb: coin.thumb,
+    }))
+  },
+
+  async getPrices(ids, currency) {
+    const url = new URL(`${BASE_URL}${ENDPOINTS.simplePrice}`)
+    url.searchParams.append("ids", ids.join(","))
+    url.searchParams.append("vs_currencies", currency)
+
+    const data = await fetchJson(url.toString(), { headers: HEADERS })
+
+    return Object.fromEntries(
+      Object.entries(data)
+        .map(([id, prices]: [string, any]) => [id, prices?.[currency]])
+        .filter(([, price]) => typeof price === "number"),
+    )
+  },
+
+  async getExchangeRates() {
+    const data = await fetchJson(`${BASE_URL}${ENDPOINTS.exchangeRates}`, { headers: HEADERS })
+    // Rates are quoted against BTC; rebase them on USD
+    const usd = data.rates?.usd?.value
+
+    return {
+      rates: Object.fromEntries(
+        Object.entries(data.rates ?? {})
+          .filter(([code, rate]: [string, any]) => rate.type === "fiat" || isQuoteCurrency(code))
+          .map(([code, rate]: [string, any]) => [code, rate.value / usd]),
+      ),
+      timestamp: Date.now(),
+    }
+  },
+
+  async probe() {
+    await fetchJson(`${BASE_URL}${ENDPOINTS.ping}`, { headers: HEADERS })
+  },
+}
@@ -0,0 +1,312 @@
+/**
+ * CryptoCompare adapter
+ * CryptoCompare is keyed by ticker symbol, so coin IDs are mapped through ID_TO_SYMBOL_MAPPING
+ */
+
+import { fetchJson } from "../api"
+import { CHART_RANGE_CONFIG, COMMON_SYMBOLS, CURRENCY_MAPPING, ID_TO_SYMBOL_MAPPING, SYMBOL_TO_ID_MAPPING } from "../api-config"
+import { SATS_PER_BTC } from "../currencies"
+import type { PriceSeries } from "../models"
+import { createProvenance, estimated } from "../provenance"
+import type { MarketDataProvider } from "./types"
+
+const BASE_URL = "https://min-api.cryptocompare.com/data"
+const IMAGE_BASE_URL = "https://www.cryptocompare.com"
+
+const ENDPOINTS = {
+  priceMultiFull: "/pricemultifull",
+  coinList: "/all/coinlist",
+  histoDay: "/histoday",
+  histoHour: "/histohour",
+  histoMinute: "/histominute",
+  coinInfo: "/coin/generalinfo",
+  price: "/price",
+  priceMulti: "/pricemulti",
+}
+
+// Optional API key, read on the server only
+const API_KEY = process.env.CRYPTOCOMPARE_API_KEY
+
+const HEADERS: Record<string, string> = {
+  Accept: "application/json",
+  ...(API_KEY ? { Authorization: `Apikey ${API_KEY}` } : {}),
+}
+
+function toSymbol(id: string): string {
+  return ID_TO_SYMBOL_MAPPING[id] || id.toUpperCase()
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// The histo endpoints return at most this many candles per request
+const MAX_HISTORY_POINTS = 2000
+
+function toSeries(candles: any[], tsym: string): PriceSeries {
+  return {
+    prices: candles.map((item: any) => [item.time * 1000, item.close]),
+    // We don't have market cap history directly, so this is a rough approximation
+    market_caps: candles.map((item: any) => [item.time * 1000, item.close * (candles[0]?.volumefrom || 1000000)]),
+    total_volumes: candles.map((item: any) => [item.time * 1000, item.volumeto]),
+    ohlc: candles.map((item: any) => [item.time * 1000, item.open, item.high, item.low, item.close]),
+    provenance: createProvenance(
+      "cryptocompare",
+      { market_caps: estimated("Close price × the first period's volume; no market cap history is available") },
+      { quoteCurrency: tsym.toLowerCase() },
+    ),
+  }
+}
+
+/**
+ * Candles between `from` and `to`, paged back from `to` with `toTs` so a capped number of
+ * pages still reaches the present
+ */
+async function fetchHistory(symbol: string, tsym: string, from: number, to: number): Promise<PriceSeries> {
+  const hourly = to - from <= 7 * DAY
+  const endpoint = hourly ? ENDPOINTS.histoHour : ENDPOINTS.histoDay
+  const step = hourly ? HOUR : DAY
+  const candles: any[] = []
+
+  for (let toTs = to, page = 0; toTs > from && page < CHART_RANGE_CONFIG.maxPages; page++) {
+    const url = new URL(`${BASE_URL}${endpoint}`)
+    url.searchParams.append("fsym", symbol)
+    url.searchParams.append("tsym", tsym)
+    url.searchParams.append("limit", Math.min(MAX_HISTORY_POINTS, Math.ceil((toTs - from) / step)).toString())
+    url.searchParams.append("toTs", Math.floor(toTs / 1000).toString())
+
+    const historyData = await fetchJson(url.toString(), { headers: HEADERS })
+    const batch: any[] = historyData.Data || []
+    candles.unshift(...batch.filter((item) => item.close > 0 && item.time * 1000 >= from))
+    // Empty candles pad the history from before the coin was listed
+    if (batch.length === 0 || batch.some((item) => item.close === 0)) break
+    // Each page ends just before the previous one started
+    toTs = batch[0].time * 1000 - 1
+  }
+
+  if (candles.length === 0) {
+    throw new Error(`No historical data found for ${symbol}`)
+  }
+  return toSeries(candles, tsym)
+}
+
+export const cryptocompareProvider: MarketDataProvider = {
+  id: "cryptocompare",
+  name: "CryptoCompare",
+  priority: 3,
+  enabled: true,
+  // Free tier: kept well under the monthly call allowance
+  rateLimit: { capacity: 10, refillPerMinute: 50 },
+
+  async listMarkets(currency) {
+    // First, get the coin list to map symbols to names and images
+    const coinListData = await fetchJson(`${BASE_URL}${ENDPOINTS.coinList}?summary=true`, { headers: HEADERS })
+
+    // Then get price data for common symbols; unmapped currencies are quoted in USD and converted
+    const fsym = COMMON_SYMBOLS.join(",")
+    const tsym = CURRENCY_MAPPING[currency] || "USD"
+    const provenance = createProvenance("cryptocompare", {}, { quoteCurrency: tsym.toLowerCase() })
+
+    const priceData = await fetchJson(`${BASE_URL}${ENDPOINTS.priceMultiFull}?fsyms=${fsym}&tsyms=${tsym}`, {
+      headers: HEADERS,
+    })
+
+    // Transform the data to match our expected format
+    const cryptoList = Object.entries(priceData.RAW || {}).map(([symbol, currencies]: [string, any]) => {
+      const currencyData = currencies[tsym]
+      const coinInfo = coinListData.Data[symbol]
+
+      return {
+        id: SYMBOL_TO_ID_MAPPING[symbol] || symbol.toLowerCase(),
+        symbol: symbol.toLowerCase(),
+        name: coinInfo?.CoinName || symbol,
+        image: coinInfo?.ImageUrl ? `${IMAGE_BASE_URL}${coinInfo.ImageUrl}` : null,
+        // Missing figures stay undefined; a coin without a price fails validation, so the
+        // list falls back to the next provider
+        current_price: currencyData?.PRICE,
+        market_cap: currencyData?.MKTCAP || undefined,
+        total_volume: currencyData?.TOTALVOLUME24H,
+        price_change_percentage_24h: currencyData?.CHANGEPCT24HOUR,
+        market_cap_rank: currencyData?.MKTCAPORDER || undefined,
+        provenance,
+      }
+    })
+
+    // Sort by rank, then by market cap for unranked coins
+    const rank = (coin: (typeof cryptoList)[number]) => coin.market_cap_rank ?? Infinity
+    return cryptoList.sort((a, b) => rank(a) - rank(b) || (b.market_cap ?? 0) - (a.market_cap ?? 0))
+  },
+
+  async getCoin(id, currency) {
+    const symbol = toSymbol(id)
+    const tsym = CURRENCY_MAPPING[currency] || "USD"
+    // USD is always asked for, since supplies and changes are read from it and other
+    // currencies are converted from it
+    const quotes = [...new Set(["USD", tsym, "EUR", "GBP", "JPY"])]
+
+    // Get price data
+    const priceData = await fetchJson(
+      `${BASE_URL}${ENDPOINTS.priceMultiFull}?fsyms=${symbol}&tsyms=${quotes.join(",")}`,
+      { headers: HEADERS },
+    )
+
+    if (!priceData.RAW || !priceData.RAW[symbol]) {
+      throw new Error(`No data found for ${symbol}`)
+    }
+
+    // Get coin info
+    const infoData = await fetchJson(`${BASE_URL}${ENDPOINTS.coinInfo}?fsyms=${symbol}&tsym=${tsym}`, {
+      headers: HEADERS,
+    })
+    const coinInfo = infoData.Data?.[0]?.CoinInfo
+    const raw = priceData.RAW[symbol]
+    // One figure per quote currency; quotes CryptoCompare left out stay missing rather than zero
+    const perQuote = (field: string): Record<string, number> =>
+      Object.fromEntries(
+        quotes.flatMap((quote) => (raw[quote]?.[field] ? [[quote.toLowerCase(), raw[quote][field]]] : [])),
+      )
+
+    // Transform the data to match our expected format
+    return {
+      id,
+      symbol: symbol.toLowerCase(),
+      name: coinInfo?.FullName || symbol,
+      image: {
+        large: coinInfo?.ImageUrl ? `${IMAGE_BASE_URL}${coinInfo.ImageUrl}` : null,
+      },
+      market_data: {
+        current_price: perQuote("PRICE"),
+        market_cap: perQuote("MKTCAP"),
+        total_volume: perQuote("TOTALVOLUME24H"),
+        price_change_percentage_24h: raw.USD?.CHANGEPCT24HOUR,
+        // 7d and 30d changes and the total supply are not available; unknown supplies come as 0 or -1
+        circulating_supply: raw.USD?.SUPPLY || undefined,
+        max_supply: coinInfo?.MaxSupply > 0 ? coinInfo.MaxSupply : undefined,
+        // 24h high and low as fallbacks
+        ath: perQuote("HIGH24HOUR"),
+        atl: perQuote("LOW24HOUR"),
+      },
+      market_cap_rank: raw.USD?.MKTCAPORDER || undefined,
+      description: {
+        en: coinInfo?.Description || `Information about ${symbol} cryptocurrency.`,
+      },
+      links: {
+        homepage: [coinInfo?.Url || ""],
+        blockchain_site: [],
+        official_forum_url: [coinInfo?.ForumUrl || ""],
+        twitter_screen_name: coinInfo?.Twitter || "",
+        telegram_channel_identifier: "",
+        subreddit_url: coinInfo?.Reddit || "",
+      },
+      categories: [coinInfo?.Algorithm || "Cryptocurrency"],
+      provenance: createProvenance("cryptocompare", {
+        "market_data.ath": estimated("24h high; CryptoCompare has no all-time high"),
+        "market_data.atl": estimated("24h low; CryptoCompare has no all-time low"),
+      }),
+    }
+  },
+
+  async getChart(id, currency, days) {
+    const symbol = toSymbol(id)
+    const tsym = CURRENCY_MAPPING[currency] || "USD"
+    if (days === "max") return fetchHistory(symbol, tsym, CHART_RANGE_CONFIG.maxHistoryStart, Date.now())
+
+    const daysNum = Number(days)
+
+    // Determine the appropriate endpoint and limit based on days
+    let endpoint = ENDPOINTS.histoDay
+    let limit = daysNum
+
+    if (daysNum <= 1) {
+      endpoint = ENDPOINTS.histoHour
+      limit = 24 // 24 hours
+    } else if (daysNum <= 7) {
+      endpoint = ENDPOINTS.histoHour
+      limit = daysNum * 24 // hours in requested days
+    } else if (daysNum <= 30) {
+      limit = 30
+    } else {
+      limit = Math.min(daysNum, 365) // Max 365 days
+    }
+
+    const url = new URL(`${BASE_URL}${endpoint}`)
+    url.searchParams.append("fsym", symbol)
+    url.searchParams.append("tsym", tsym)
+    url.searchParams.append("limit", limit.toString())
+
+    const historyData = await fetchJson(url.toString(), { headers: HEADERS })
+
+    if (!historyData.Data) {
+      throw new Error(`No historical data found for ${symbol}`)
+    }
+
+    return toSeries(historyData.Data, tsym)
+  },
+
+  async getChartRange(id, currency, from, to) {
+    return fetchHistory(toSymbol(id), CURRENCY_MAPPING[currency] || "USD", from, to)
+  },
+
+  async search(query) {
+    const coinListData = await fetchJson(`${BASE_URL}${ENDPOINTS.coinList}?summary=true`, { headers: HEADERS })
+    const needle = query.toLowerCase()
+
+    return Object.values(coinListData.Data || {})
+      .filter(
+        (coin: any) => coin.Symbol?.toLowerCase().startsWith(needle) || coin.CoinName?.toLowerCase().includes(needle),
+      )
+      .slice(0, 20)
+      .map((coin: any) => ({
+        id: SYMBOL_TO_ID_MAPPING[coin.Symbol] || coin.Symbol.toLowerCase(),
+        name: coin.CoinName,
+        symbol: coin.Symbol.toUpperCase(),
+        thumb: coin.ImageUrl ? `${IMAGE_BASE_URL}${coin.ImageUrl}` : undefined,
+      }))
+  },
+
+  async getPrices(ids, currency) {
+    const tsym = CURRENCY_MAPPING[currency] || currency.toUpperCase()
+    const symbols = new Map(ids.map((id) => [toSymbol(id), id]))
+
+    const url = new URL(`${BASE_URL}${ENDPOINTS.priceMulti}`)
+    url.searchParams.append("fsyms", [...symbols.keys()].join(","))
+    url.searchParams.append("tsyms", tsym)
+
+    const priceData = await fetchJson(url.toString(), { headers: HEADERS })
+
+    return Object.fromEntries(
+      Object.entries(priceData)
+        .filter(([symbol, prices]: [string, any]) => symbols.has(symbol) && typeof prices?.[tsym] === "number")
+        .map(([symbol, prices]: [string, any]) => [symbols.get(symbol), prices[tsym]]),
+    )
+  },
+
+  async getExchangeRates() {
+    // Cross rates for every mapped currency; tsyms is limited to 100 characters, so ask in batches
+    const codes = Object.values(CURRENCY_MAPPING).filter((code) => code !== "USD")
+    const batches = Array.from({ length: Math.ceil(codes.length / 24) }, (_, i) => codes.slice(i * 24, i * 24 + 24))
+
+    const responses = await Promise.all(
+      batches.map((batch) => {
+        const url = new URL(`${BASE_URL}${ENDPOINTS.price}`)
+        url.searchParams.append("fsym", "USD")
+        url.searchParams.append("tsyms", batch.join(","))
+        return fetchJson(url.toString(), { headers: HEADERS })
+      }),
+    )
+
+    const rates: Record<string, number> = { usd: 1 }
+    for (const data of responses) {
+      for (const [code, rate] of Object.entries(data)) {
+        if (typeof rate === "number") rates[code.toLowerCase()] = rate
+      }
+    }
+    // Satoshis are not quoted, but follow from BTC
+    if (rates.btc) rates.sats = rates.btc * SATS_PER_BTC
+
+    return { rates, timestamp: Date.now() }
+  },
+
+  async probe() {
+    await fetchJson(`${BASE_URL}${ENDPOINTS.price}?fsym=BTC&tsyms=USD`, { headers: HEADERS })
+  },
+}
@@ -0,0 +1,64 @@
+import { HttpError } from "../api"
+import type { ProviderId } from "./types"
+
+/**
+ * Why a provider call failed. The circuit breaker treats each kind differently:
+ * - timeout, http (5xx, 401, 403), request (network): transient, counted towards a failure threshold
+ * - rate_limit (429): opens the circuit for at least the Retry-After period
+ * - schema: the provider returned unusable data, opens the circuit straight away
+ * - client (other 4xx, e.g. an unknown coin): says nothing about the provider's health
+ */
+export type ProviderErrorKind = "timeout" | "http" | "rate_limit" | "schema" | "client" | "request"
+
+/**
+ * Error raised when a provider fails to return usable data.
+ * Any ProviderError moves the fallback chain on to the next provider.
+ */
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: ProviderId,
+    public readonly kind: ProviderErrorKind,
+    message: string,
+    public readonly cause?: unknown,
+    // For rate_limit errors: how long the provider asked us to wait, in ms
+    public readonly retryAfter?: number,
+  ) {
+    super(`${provider}: ${message}`)
+    this.name = "ProviderError"
+  }
+}
+
+/**
+ * Classify an error thrown while calling a provider
+ */
+export function classifyError(error: unknown): ProviderErrorKind {
+  if (error instanceof ProviderError) return error.kind
+
+  if (error instanceof HttpError) {
+    if (error.status === 429) return "rate_limit"
+    // A rejected API key is the provider's problem, not the request's
+    if (error.status >= 500 || error.status === 401 || error.status === 403) return "http"
+    return "client"
+  }
+
+  if (error instanceof Error && (error.name === "AbortError" || error.message.includes("timed out"))) {
+    return "timeout"
+  }
+
+  return "request"
+}
+
+/**
+ * Wrap an error thrown while calling a provider in a ProviderError
+ */
+export function toProviderError(provider: ProviderId, error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error
+
+  return new ProviderError(
+    provider,
+    classifyError(error),
+    error instanceof Error ? error.message : String(error),
+    error,
+    error instanceof HttpError && error.retryAfter !== undefined ? error.retryAfter * 1000 : undefined,
+  )
+}
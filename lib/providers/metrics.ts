@@ -0,0 +1,86 @@
+/**
+ * Provider call metrics
+ * Keeps a rolling window of recent calls per provider for the /status page:
+ * success rate, latency percentiles and the last success/failure.
+ */
+
+import { sharedState } from "../shared-state"
+import type { ProviderId } from "./types"
+
+// Number of recent calls kept per provider
+const WINDOW_SIZE = 100
+
+interface CallSample {
+  ok: boolean
+  latencyMs: number
+}
+
+interface ProviderMetricsState {
+  samples: CallSample[]
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  lastError: string | null
+}
+
+export interface ProviderMetrics {
+  calls: number
+  // Share of successful calls in the window, 0-1; null before the first call
+  successRate: number | null
+  p50LatencyMs: number | null
+  p95LatencyMs: number | null
+  lastSuccessAt: number | null
+  lastFailureAt: number | null
+  lastError: string | null
+}
+
+const metrics = sharedState("providerMetrics", () => new Map<ProviderId, ProviderMetricsState>())
+
+function stateFor(id: ProviderId): ProviderMetricsState {
+  let state = metrics.get(id)
+  if (!state) {
+    state = { samples: [], lastSuccessAt: null, lastFailureAt: null, lastError: null }
+    metrics.set(id, state)
+  }
+  return state
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)
+  return sorted[Math.max(0, index)]
+}
+
+/**
+ * Record the outcome of a provider call
+ */
+export function recordCall(id: ProviderId, ok: boolean, latencyMs: number, error?: string) {
+  const state = stateFor(id)
+
+  state.samples.push({ ok, latencyMs })
+  if (state.samples.length > WINDOW_SIZE) state.samples.shift()
+
+  if (ok) {
+    state.lastSuccessAt = Date.now()
+  } else {
+    state.lastFailureAt = Date.now()
+    state.lastError = error ?? "Unknown error"
+  }
+}
+
+/**
+ * Summarise the recent calls to a provider
+ */
+export function getMetrics(id: ProviderId): ProviderMetrics {
+  const { samples, lastSuccessAt, lastFailureAt, lastError } = stateFor(id)
+  const latencies = samples.map((sample) => sample.latencyMs).sort((a, b) => a - b)
+
+  return {
+    calls: samples.length,
+    successRate: samples.length > 0 ? samples.filter((sample) => sample.ok).length / samples.length : null,
+    p50LatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    lastSuccessAt,
+    lastFailureAt,
+    lastError,
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Mock adapter
+ * Static demo data used as the last resort when every real provider is unavailable
+ */
+
+import { CHART_RANGE_CONFIG } from "../api-config"
+import { SATS_PER_BTC } from "../currencies"
+import { OFFLINE_EXCHANGE_RATES } from "../fx"
+import type { ExchangeRates } from "../models"
+import { createProvenance } from "../provenance"
+import type { MarketDataProvider } from "./types"
+
+// Every mock figure is made up, in USD
+const PROVENANCE = createProvenance(
+  "mock",
+  {},
+  { kind: "estimated", note: "Demo data, not a real market figure", quoteCurrency: "usd" },
+)
+
+/**
+ * Generate mock cryptocurrency list data
+ */
+function getMockCryptoList(): any[] {
+  // Helper function to ensure numbers are within safe range
+  function safeNumber(value: number): number {
+    return Math.min(Math.max(value, -Number.MAX_SAFE_INTEGER / 2), Number.MAX_SAFE_INTEGER / 2)
+  }
+
+  return [
+    {
+      id: "bitcoin",
+      symbol: "btc",
+      name: "Bitcoin",
+      image: "https://assets.coingecko.com/coins/images/1/large/bitcoin.png",
+      current_price: 50000,
+      market_cap: safeNumber(950000000000),
+      total_volume: safeNumber(30000000000),
+      price_change_percentage_24h: 2.5,
+      market_cap_rank: 1,
+    },
+    {
+      id: "ethereum",
+      symbol: "eth",
+      name: "Ethereum",
+      image: "https://assets.coingecko.com/coins/images/279/large/ethereum.png",
+      current_price: 3000,
+      market_cap: safeNumber(350000000000),
+      total_volume: safeNumber(15000000000),
+      price_change_percentage_24h: 1.8,
+      market_cap_rank: 2,
+    },
+    {
+      id: "cardano",
+      symbol: "ada",
+      name: "Cardano",
+      image: "https://assets.coingecko.com/coins/images/975/large/cardano.png",
+      current_price: 0.45,
+      market_cap: safeNumber(15000000000),
+      total_volume: safeNumber(500000000),
+      price_change_percentage_24h: -1.2,
+      market_cap_rank: 8,
+    },
+    {
+      id: "solana",
+      symbol: "sol",
+      name: "Solana",
+      image: "https://assets.coingecko.com/coins/images/4128/large/solana.png",
+      current_price: 120,
+      market_cap: safeNumber(50000000000),
+      total_volume: safeNumber(2000000000),
+      price_change_percentage_24h: 3.7,
+      market_cap_rank: 5,
+    },
+    {
+      id: "ripple",
+      symbol: "xrp",
+      name: "XRP",
+      image: "https://assets.coingecko.com/coins/images/44/large/xrp-symbol-white-128.png",
+      current_price: 0.55,
+      market_cap: safeNumber(28000000000),
+      total_volume: safeNumber(1200000000),
+      price_change_percentage_24h: -0.8,
+      market_cap_rank: 6,
+    },
+    {
+      id: "binancecoin",
+      symbol: "bnb",
+      name: "Binance Coin",
+      image: "https://assets.coingecko.com/coins/images/825/large/bnb-icon2_2x.png",
+      current_price: 380,
+      market_cap: safeNumber(58000000000),
+      total_volume: safeNumber(1800000000),
+      price_change_percentage_24h: 1.2,
+      market_cap_rank: 4,
+    },
+    {
+      id: "dogecoin",
+      symbol: "doge",
+      name: "Dogecoin",
+      image: "https://assets.coingecko.com/coins/images/5/large/dogecoin.png",
+      current_price: 0.08,
+      market_cap: safeNumber(11000000000),
+      total_volume: safeNumber(500000000),
+      price_change_percentage_24h: -2.1,
+      market_cap_rank: 10,
+    },
+    {
+      id: "polkadot",
+      symbol: "dot",
+      name: "Polkadot",
+      image: "https://assets.coingecko.com/coins/images/12171/large/polkadot.png",
+      current_price: 6.2,
+      market_cap: safeNumber(7800000000),
+      total_volume: safeNumber(320000000),
+      price_change_percentage_24h: 0.9,
+      market_cap_rank: 12,
+    },
+    {
+      id: "chainlink",
+      symbol: "link",
+      name: "Chainlink",
+      image: "https://assets.coingecko.com/coins/images/877/large/chainlink-new-logo.png",
+      current_price: 13.5,
+      market_cap: safeNumber(7500000000),
+      total_volume: safeNumber(410000000),
+      price_change_percentage_24h: 2.3,
+      market_cap_rank: 13,
+    },
+    {
+      id: "litecoin",
+      symbol: "ltc",
+      name: "Litecoin",
+      image: "https://assets.coingecko.com/coins/images/2/large/litecoin.png",
+      current_price: 68,
+      market_cap: safeNumber(5000000000),
+      total_volume: safeNumber(350000000),
+      price_change_percentage_24h: 0.5,
+      market_cap_rank: 15,
+    },
+  ]
+}
+
+/**
+ * Generate mock cryptocurrency detail data
+ */
+function getMockCryptoDetail(id: string): any {
+  // Create different mock data based on coin ID
+  const mockCoins: Record<string, any> = {
+    bitcoin: {
+      price: 50000,
+      marketCap: 950000000000,
+      volume: 30000000000,
+      change24h: 2.5,
+      supply: 19000000,
+      maxSupply: 21000000,
+      description: "Bitcoin is the first decentralized cryptocurrency, released as open-source software in 2009.",
+      rank: 1,
+    },
+    ethereum: {
+      price: 3000,
+      marketCap: 350000000000,
+      volume: 15000000000,
+      change24h: 1.8,
+      supply: 120000000,
+      maxSupply: null,
+      description: "Ethereum is a decentralized, open-source blockchain with smart contract functionality.",
+      rank: 2,
+    },
+    cardano: {
+      price: 0.45,
+      marketCap: 15000000000,
+      volume: 500000000,
+      change24h: -1.2,
+      supply: 35000000000,
+      maxSupply: 45000000000,
+      description: "Cardano is a proof-of-stake blockchain platform with a focus on sustainability and scalability.",
+      rank: 8,
+    },
+    solana: {
+      price: 120,
+      marketCap: 50000000000,
+      volume: 2000000000,
+      change24h: 3.7,
+      supply: 400000000,
+      maxSupply: null,
+      description: "Solana is a high-performance blockchain supporting builders around the world creating crypto apps.",
+      rank: 5,
+    },
+  }
+
+  // Default mock data if specific coin not found
+  const coinData = mockCoins[id] || {
+    price: 10,
+    marketCap: 1000000000,
+    volume: 100000000,
+    change24h: 0.5,
+    supply: 1000000,
+    maxSupply: 2000000,
+    description: `${id.charAt(0).toUpperCase() + id.slice(1)} is a cryptocurrency.`,
+    rank: 50,
+  }
+
+  return {
+    id,
+    symbol: id.substring(0, 4).toLowerCase(),
+    name: id.charAt(0).toUpperCase() + id.slice(1),
+    image: {
+      large: `https://assets.coingecko.com/coins/images/1/large/${id}.png`,
+    },
+    market_data: {
+      current_price: { usd: coinData.price },
+      market_cap: { usd: coinData.marketCap },
+      total_volume: { usd: coinData.volume },
+      price_change_percentage_24h: coinData.change24h,
+      price_change_percentage_7d: coinData.change24h * 1.5,
+      price_change_percentage_30d: coinData.change24h * 2,
+      circulating_supply: coinData.supply,
+      total_supply: coinData.supply,
+      max_supply: coinData.maxSupply,
+      ath: { usd: coinData.price * 1.5 },
+      atl: { usd: coinData.price * 0.5 },
+      ath_change_percentage: { usd: -30 },
+      atl_change_percentage: { usd: 100 },
+      ath_date: { usd: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString() },
+      atl_date: { usd: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString() },
+    },
+    market_cap_rank: coinData.rank,
+    description: {
+      en: coinData.description,
+    },
+    links: {
+      homepage: [`https://${id}.org`],
+      blockchain_site: ["https://blockchain.com", "https://blockchair.com"],
+      official_forum_url: [`https://${id}.org/forum`],
+      twitter_screen_name: id,
+      telegram_channel_identifier: "",
+      subreddit_url: `https://reddit.com/r/${id}`,
+    },
+    categories: ["Cryptocurrency"],
+  }
+}
+
+const DAY = 86400000
+
+/**
+ * Generate mock chart data
+ */
+function getMockChartData(days = "7"): any {
+  const now = Date.now()
+  const from = days === "max" ? CHART_RANGE_CONFIG.maxHistoryStart : now - Number(days) * DAY
+  return getMockChartRange(from, now)
+}
+
+/**
+ * Generate mock chart data between `from` and `to`
+ */
+function getMockChartRange(from: number, to: number): any {
+  const span = to - from
+  const interval = span <= DAY ? 3600000 : span <= 7 * DAY ? 21600000 : DAY // 1h, 6h, or 1d
+  const dataPoints = Math.max(2, Math.floor(span / interval)) // 24 points for 1d, 28 for 7d, or days for longer periods
+
+  // Generate more realistic price data with trends
+  const volatility = 0.02 // 2% volatility
+  const trend = 0.001 // Slight upward trend
+  let lastPrice = 50000 / Math.pow(1 + trend, dataPoints) // Starting price, so the walk ends near 50000
+
+  const ohlc = Array.from({ length: dataPoints }, (_, i) => {
+    const time = to - (dataPoints - i) * interval
+    const open = lastPrice
+    // Random walk with trend
+    const randomChange = (Math.random() - 0.5) * 2 * volatility
+    const trendChange = trend
+    lastPrice = lastPrice * (1 + randomChange + trendChange)
+    // Wicks reach up to half the volatility beyond the open and close
+    const high = Math.max(open, lastPrice) * (1 + (Math.random() * volatility) / 2)
+    const low = Math.min(open, lastPrice) * (1 - (Math.random() * volatility) / 2)
+    return [time, open, high, low, lastPrice]
+  })
+  const prices = ohlc.map(([time, , , , close]) => [time, close])
+
+  return {
+    prices,
+    ohlc,
+    market_caps: prices.map(([time, price]) => [time, price * 19000000]), // Approx BTC supply * price
+    total_volumes: prices.map(([time]) => [time, 30000000000 + Math.random() * 5000000000]),
+  }
+}
+
+/**
+ * Offline reference rates, with BTC and ETH at their demo prices so demo coins convert consistently
+ */
+function getMockExchangeRates(): ExchangeRates {
+  const usdPrice = (id: string) => getMockCryptoList().find((coin) => coin.id === id).current_price
+  const btc = usdPrice("bitcoin")
+
+  return {
+    ...OFFLINE_EXCHANGE_RATES,
+    rates: { ...OFFLINE_EXCHANGE_RATES.rates, btc: 1 / btc, eth: 1 / usdPrice("ethereum"), sats: SATS_PER_BTC / btc },
+  }
+}
+
+export const mockProvider: MarketDataProvider = {
+  id: "mock",
+  name: "Mock Data",
+  priority: Number.MAX_SAFE_INTEGER,
+  enabled: true,
+
+  async listMarkets() {
+    return getMockCryptoList().map((coin) => ({ ...coin, provenance: PROVENANCE }))
+  },
+
+  async getCoin(id) {
+    return { ...getMockCryptoDetail(id), provenance: PROVENANCE }
+  },
+
+  async getChart(_id, _currency, days) {
+    return { ...getMockChartData(days), provenance: PROVENANCE }
+  },
+
+  async getChartRange(_id, _currency, from, to) {
+    return { ...getMockChartRange(from, to), provenance: PROVENANCE }
+  },
+
+  async search(query) {
+    const needle = query.toLowerCase()
+
+    return getMockCryptoList()
+      .filter((coin) => coin.name.toLowerCase().includes(needle) || coin.symbol.includes(needle))
+      .map((coin) => ({
+        id: coin.id,
+        name: coin.name,
+        symbol: coin.symbol.toUpperCase(),
+        thumb: coin.image,
+      }))
+  },
+
+  async getPrices(ids) {
+    return Object.fromEntries(
+      getMockCryptoList()
+        .filter((coin) => ids.includes(coin.id))
+        .map((coin) => [coin.id, coin.current_price]),
+    )
+  },
+
+  async getExchangeRates() {
+    return getMockExchangeRates()
+  },
+
+  async probe() {
+    // Always available
+  },
+}
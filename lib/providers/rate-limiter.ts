@@ -0,0 +1,109 @@
+/**
+ * Per-provider rate limiting
+ * Each provider gets a token bucket sized from its `rateLimit` config. Calls that
+ * would exceed the budget wait in a priority queue instead of being skipped, and a
+ * 429 `Retry-After` empties the bucket until the provider accepts requests again.
+ */
+
+// What a request is for; earlier entries are served first when requests queue up
+export type RequestPriority = "list" | "detail" | "chart" | "prefetch"
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  list: 0,
+  detail: 1,
+  chart: 2,
+  prefetch: 3,
+}
+
+export interface RateLimitConfig {
+  // Largest burst of calls allowed at once
+  capacity: number
+  // Calls allowed per minute once the burst is used up
+  refillPerMinute: number
+}
+
+export interface RateLimiter {
+  // Run a task as soon as the budget allows; each task takes one token
+  schedule<T>(priority: RequestPriority, task: () => Promise<T>): Promise<T>
+  // Stop sending requests for `ms`, e.g. after a 429 with Retry-After
+  penalize(ms: number): void
+  // Whole tokens currently available
+  remaining(): number
+  // Number of calls waiting for a token
+  queued(): number
+}
+
+interface QueuedTask {
+  priority: number
+  run: () => void
+}
+
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const msPerToken = 60 * 1000 / config.refillPerMinute
+  const queue: QueuedTask[] = []
+  let tokens = config.capacity
+  let lastRefill = Date.now()
+  let blockedUntil = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const refill = () => {
+    const now = Date.now()
+    // lastRefill is in the future while blocked by a Retry-After
+    if (now <= lastRefill) return
+    tokens = Math.min(config.capacity, tokens + (now - lastRefill) / msPerToken)
+    lastRefill = now
+  }
+
+  const drain = () => {
+    timer = null
+    refill()
+
+    while (queue.length > 0 && Date.now() >= blockedUntil && tokens >= 1) {
+      tokens -= 1
+      queue.shift()?.run()
+    }
+
+    if (queue.length > 0) {
+      const wait = Math.max(blockedUntil - Date.now(), (1 - tokens) * msPerToken, 0)
+      timer = setTimeout(drain, wait)
+    }
+  }
+
+  return {
+    schedule(priority, task) {
+      return new Promise((resolve, reject) => {
+        const queued: QueuedTask = {
+          priority: PRIORITY_ORDER[priority],
+          run: () => {
+            task().then(resolve, reject)
+          },
+        }
+
+        // Keep the queue ordered by priority, first come first served within a priority
+        const index = queue.findIndex((other) => other.priority > queued.priority)
+        if (index === -1) queue.push(queued)
+        else queue.splice(index, 0, queued)
+
+        if (!timer) drain()
+      })
+    },
+
+    penalize(ms) {
+      blockedUntil = Math.max(blockedUntil, Date.now() + ms)
+      tokens = 0
+      lastRefill = blockedUntil
+
+      if (timer) clearTimeout(timer)
+      drain()
+    },
+
+    remaining() {
+      refill()
+      return Math.floor(tokens)
+    },
+
+    queued() {
+      return queue.length
+    },
+  }
+}
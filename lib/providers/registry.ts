@@ -0,0 +1,300 @@
+/**
+ * Provider registry
+ * Tracks the status of the providers listed in ./catalog.ts and runs requests through
+ * the fallback chain. Server-side only; the browser asks the API routes instead.
+ */
+
+import type { ZodType, ZodTypeDef } from "zod"
+import { sharedState } from "../shared-state"
+import { getProvider, getProviders, PROVIDERS } from "./catalog"
+import {
+  createCircuitBreaker,
+  type CircuitBreaker,
+  type CircuitSnapshot,
+  type CircuitState,
+} from "./circuit-breaker"
+import { ProviderError, toProviderError } from "./errors"
+import { getMetrics, recordCall, type ProviderMetrics } from "./metrics"
+import { mockProvider } from "./mock"
+import { createRateLimiter, type RateLimiter, type RequestPriority } from "./rate-limiter"
+import type { MarketDataProvider, ProviderId } from "./types"
+
+export { getProvider, getProviders }
+
+const rateLimiters = sharedState("rateLimiters", () => new Map<ProviderId, RateLimiter>())
+const circuitBreakers = sharedState("circuitBreakers", () => new Map<ProviderId, CircuitBreaker>())
+
+/**
+ * Get the rate limiter for a provider, or null if it has no request budget
+ */
+export function getRateLimiter(provider: MarketDataProvider): RateLimiter | null {
+  if (!provider.rateLimit) return null
+
+  let limiter = rateLimiters.get(provider.id)
+  if (!limiter) {
+    limiter = createRateLimiter(provider.rateLimit)
+    rateLimiters.set(provider.id, limiter)
+  }
+  return limiter
+}
+
+/**
+ * Get the circuit breaker for a provider
+ */
+export function getCircuitBreaker(id: ProviderId): CircuitBreaker {
+  let breaker = circuitBreakers.get(id)
+  if (!breaker) {
+    breaker = createCircuitBreaker()
+    circuitBreakers.set(id, breaker)
+  }
+  return breaker
+}
+
+// Provider status tracking
+export const providerStatus = {
+  currentSource: getProviders()[0]?.id ?? mockProvider.id,
+
+  // A provider takes regular requests only while its circuit is closed
+  isOperational(id: ProviderId): boolean {
+    if (id === mockProvider.id) return true
+    return getProvider(id) !== undefined && getCircuitBreaker(id).state() === "closed"
+  },
+
+  recordSuccess(id: ProviderId) {
+    getCircuitBreaker(id).recordSuccess()
+    this.currentSource = id
+  },
+
+  recordFailure(id: ProviderId, error: ProviderError) {
+    getCircuitBreaker(id).recordFailure(error.kind, error.retryAfter)
+    if (id === this.currentSource && !this.isOperational(id)) {
+      this.currentSource = this.getNextAvailable()
+    }
+  },
+
+  // Get the highest-priority operational provider
+  getNextAvailable(): ProviderId {
+    return getProviders().find((provider) => this.isOperational(provider.id))?.id ?? mockProvider.id
+  },
+}
+
+/**
+ * Send a provider's lightweight probe request and record the outcome on its circuit breaker
+ */
+async function runProbe(provider: MarketDataProvider): Promise<void> {
+  const limiter = getRateLimiter(provider)
+  let startedAt = Date.now()
+  const probe = () => {
+    startedAt = Date.now()
+    return provider.probe()
+  }
+
+  try {
+    await (limiter ? limiter.schedule("prefetch", probe) : probe())
+    recordCall(provider.id, true, Date.now() - startedAt)
+    providerStatus.recordSuccess(provider.id)
+  } catch (error) {
+    const providerError = toProviderError(provider.id, error)
+    if (providerError.kind === "rate_limit") limiter?.penalize(providerError.retryAfter ?? 60 * 1000)
+    console.error(`${provider.name} probe failed:`, providerError)
+    recordCall(provider.id, false, Date.now() - startedAt, providerError.message)
+    providerStatus.recordFailure(provider.id, providerError)
+  }
+}
+
+/**
+ * Start the single probe for every provider whose circuit has become half-open
+ */
+function startDueProbes() {
+  getProviders().forEach((provider) => {
+    if (getCircuitBreaker(provider.id).tryStartProbe()) {
+      void runProbe(provider)
+    }
+  })
+}
+
+/**
+ * Probe a provider now, cutting short an open period, and return its circuit state afterwards
+ */
+export async function probeProvider(id: ProviderId): Promise<CircuitState> {
+  const provider = getProvider(id)
+  if (!provider || provider.id === mockProvider.id) return "closed"
+
+  const breaker = getCircuitBreaker(id)
+  breaker.expire()
+
+  // A closed circuit is probed directly; a half-open one only if no probe is running yet
+  if (breaker.state() === "closed" || breaker.tryStartProbe()) {
+    await runProbe(provider)
+  }
+  return breaker.state()
+}
+
+export interface FetchOptions {
+  // Provider to try before the normal priority order
+  preferred?: ProviderId | null
+  // Providers to leave out of the fallback chain
+  excluded?: ProviderId[]
+  // Queue position when a provider's request budget is used up
+  priority?: RequestPriority
+}
+
+/**
+ * Run an operation against a provider within its rate limit and validate the result
+ * against a schema. Failures are rethrown as ProviderErrors so the fallback chain can move on.
+ */
+async function runValidated<T>(
+  provider: MarketDataProvider,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  operation: (provider: MarketDataProvider) => Promise<unknown>,
+  priority: RequestPriority,
+): Promise<T> {
+  const limiter = getRateLimiter(provider)
+  // Latency is measured from when the call leaves the rate-limit queue
+  let startedAt = Date.now()
+  const call = () => {
+    startedAt = Date.now()
+    return operation(provider)
+  }
+
+  let raw: unknown
+  try {
+    raw = await (limiter ? limiter.schedule(priority, call) : call())
+  } catch (error) {
+    const providerError = toProviderError(provider.id, error)
+    if (providerError.kind === "rate_limit") limiter?.penalize(providerError.retryAfter ?? 60 * 1000)
+    recordCall(provider.id, false, Date.now() - startedAt, providerError.message)
+    throw providerError
+  }
+
+  const latency = Date.now() - startedAt
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const providerError = new ProviderError(
+      provider.id,
+      "schema",
+      `invalid response at ${issue?.path.join(".") || "(root)"}: ${issue?.message}`,
+      result.error,
+    )
+    recordCall(provider.id, false, latency, providerError.message)
+    throw providerError
+  }
+
+  recordCall(provider.id, true, latency)
+  return result.data
+}
+
+/**
+ * Run an operation against each operational provider in order until one returns
+ * data that matches the schema, falling back to the mock provider when all of them fail
+ */
+export async function fetchWithFallback<T>(
+  label: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  operation: (provider: MarketDataProvider) => Promise<unknown>,
+  { preferred = null, excluded = [], priority = "detail" }: FetchOptions = {},
+): Promise<{ data: T; source: ProviderId }> {
+  startDueProbes()
+
+  const candidates =
+    preferred === mockProvider.id
+      ? []
+      : getProviders()
+          .filter((provider) => !excluded.includes(provider.id) && providerStatus.isOperational(provider.id))
+          // Try the manually selected source first
+          .sort((a, b) => Number(b.id === preferred) - Number(a.id === preferred))
+
+  for (const provider of candidates) {
+    try {
+      const data = await runValidated(provider, schema, operation, priority)
+      providerStatus.recordSuccess(provider.id)
+      return { data, source: provider.id }
+    } catch (error) {
+      const providerError = toProviderError(provider.id, error)
+      console.error(`${provider.name} error for ${label}:`, providerError)
+      providerStatus.recordFailure(provider.id, providerError)
+    }
+  }
+
+  // If all providers failed, use mock data
+  providerStatus.currentSource = mockProvider.id
+  return { data: await runValidated(mockProvider, schema, operation, priority), source: mockProvider.id }
+}
+
+export interface FetchSeveralOptions {
+  excluded?: ProviderId[]
+  priority?: RequestPriority
+  // Most providers to ask
+  limit?: number
+}
+
+/**
+ * Run an operation against several operational providers at once and return every
+ * result that matches the schema. Unlike fetchWithFallback, there is no mock fallback:
+ * the result is empty when no real provider answers.
+ */
+export async function fetchFromSeveral<T>(
+  label: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  operation: (provider: MarketDataProvider) => Promise<unknown>,
+  { excluded = [], priority = "detail", limit = PROVIDERS.length }: FetchSeveralOptions = {},
+): Promise<{ data: T; source: ProviderId }[]> {
+  startDueProbes()
+
+  const candidates = getProviders()
+    .filter((provider) => !excluded.includes(provider.id) && providerStatus.isOperational(provider.id))
+    .slice(0, limit)
+
+  const results = await Promise.all(
+    candidates.map(async (provider) => {
+      try {
+        const data = await runValidated(provider, schema, operation, priority)
+        getCircuitBreaker(provider.id).recordSuccess()
+        return [{ data, source: provider.id }]
+      } catch (error) {
+        const providerError = toProviderError(provider.id, error)
+        console.error(`${provider.name} error for ${label}:`, providerError)
+        providerStatus.recordFailure(provider.id, providerError)
+        return []
+      }
+    }),
+  )
+
+  return results.flat()
+}
+
+export interface ProviderStatusReport {
+  id: ProviderId
+  name: string
+  priority: number
+  enabled: boolean
+  circuit: CircuitSnapshot
+  metrics: ProviderMetrics
+  // Null for providers without a request budget
+  rateLimit: { remaining: number; capacity: number; queued: number } | null
+}
+
+/**
+ * Describe the health of every real provider, for the /status page
+ */
+export function getStatusReport(): ProviderStatusReport[] {
+  return [...PROVIDERS]
+    .sort((a, b) => a.priority - b.priority)
+    .map((provider) => {
+      const limiter = getRateLimiter(provider)
+
+      return {
+        id: provider.id,
+        name: provider.name,
+        priority: provider.priority,
+        enabled: provider.enabled,
+        circuit: getCircuitBreaker(provider.id).snapshot(),
+        metrics: getMetrics(provider.id),
+        rateLimit:
+          limiter && provider.rateLimit
+            ? { remaining: limiter.remaining(), capacity: provider.rateLimit.capacity, queued: limiter.queued() }
+            : null,
+      }
+    })
+}
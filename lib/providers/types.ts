@@ -0,0 +1,48 @@
+/**
+ * Market data provider contract
+ * Every data source (CoinGecko, CoinCap, ...) implements this interface and is
+ * listed in ./catalog.ts
+ */
+
+import type { CoinDetail, ExchangeRates, MarketCoin, PriceQuotes, PriceSeries, SearchSuggestion } from "../models"
+import type { RateLimitConfig } from "./rate-limiter"
+
+export type ProviderId = "coingecko" | "coincap" | "cryptocompare" | "binance" | "mock"
+
+/**
+ * Public WebSocket feed of USD prices, opened from the browser
+ */
+export interface PriceFeed {
+  // Socket URL streaming the coins this feed can serve, or null if it serves none of them
+  connect(ids: string[]): { url: string; ids: string[] } | null
+  // Prices in one message, keyed by coin id
+  parse(message: string): Record<string, number>
+}
+
+export interface MarketDataProvider {
+  id: ProviderId
+  name: string
+  // Lower numbers are tried first
+  priority: number
+  // Set to false to take a provider out of the fallback chain
+  enabled: boolean
+  // Request budget; providers without one (e.g. mock) are not limited
+  rateLimit?: RateLimitConfig
+
+  // Results are validated against the schemas in ../models by the registry
+  listMarkets(currency: string): Promise<MarketCoin[]>
+  getCoin(id: string, currency: string): Promise<CoinDetail>
+  // `days` is a whole number of days back from now, or "max"
+  getChart(id: string, currency: string, days: string): Promise<PriceSeries>
+  // Explicit window, `from` and `to` in ms; pages are stitched where the provider caps the points per request
+  getChartRange(id: string, currency: string, from: number, to: number): Promise<PriceSeries>
+  search(query: string): Promise<SearchSuggestion[]>
+  // Current prices for a set of coins, used to cross-check providers in consensus mode
+  getPrices(ids: string[], currency: string): Promise<PriceQuotes>
+  // Fiat reference rates, for providers that publish them
+  getExchangeRates?(): Promise<ExchangeRates>
+  // Live price stream, for providers that have one
+  priceFeed?: PriceFeed
+  // Cheapest request that shows whether the provider is up; used by the circuit breaker
+  probe(): Promise<void>
+}
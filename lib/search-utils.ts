@@ -1,34 +1,15 @@
-export interface SearchSuggestion {
-  id: string
-  name: string
-  symbol: string
-  thumb?: string
-  image?: string
-}
-
-const CACHE_EXPIRY = 10 * 60 * 1000 // 10 minutes
-
-export function getCachedSuggestions(query: string): SearchSuggestion[] | null {
-  const cacheKey = `search-suggestions-${query.toLowerCase()}`
-  const cachedData = sessionStorage.getItem(cacheKey)
+import { cacheUtils } from "./api"
+import type { SearchSuggestion } from "./models"
 
-  if (cachedData) {
-    const { data, timestamp } = JSON.parse(cachedData)
-    if (Date.now() - timestamp < CACHE_EXPIRY) {
-      return data
-    }
-  }
+export type { SearchSuggestion }
 
-  return null
+export function searchCacheKey(query: string): string {
+  return `search-suggestions-${query.toLowerCase()}`
 }
 
-export function cacheSuggestions(query: string, suggestions: SearchSuggestion[]): void {
-  const cacheKey = `search-suggestions-${query.toLowerCase()}`
-  sessionStorage.setItem(
-    cacheKey,
-    JSON.stringify({
-      data: suggestions,
-      timestamp: Date.now(),
-    }),
-  )
-} 
\ No newline at end of file
+/**
+ * Get suggestions cached by `searchCryptos` for a query, if they are still fresh
+ */
+export function getCachedSuggestions(query: string): SearchSuggestion[] | null {
+  return cacheUtils.get<SearchSuggestion[]>(searchCacheKey(query), "search")?.value ?? null
+}
@@ -0,0 +1,18 @@
+/**
+ * Process-wide singletons
+ * Next.js bundles each route handler separately, so module-level state is not shared
+ * between routes. State that has to be (circuit breakers, rate limiters, metrics, the
+ * server cache) is kept on globalThis under a key instead.
+ */
+
+const STORE_KEY = "__cryptoTrackerState"
+
+export function sharedState<T>(key: string, create: () => T): T {
+  const scope = globalThis as typeof globalThis & { [STORE_KEY]?: Record<string, unknown> }
+  const store = (scope[STORE_KEY] ??= {})
+
+  if (!(key in store)) {
+    store[key] = create()
+  }
+  return store[key] as T
+}
@@ -0,0 +1,212 @@
+/**
+ * Tax lot reporting
+ * Every sell is matched to the buys it disposes of, split into one row per lot, and
+ * classed as short or long term by how long that lot was held. Rows are grouped by the
+ * calendar year of the sale. Amounts are in one reporting currency as of each
+ * transaction's date: trades recorded in another currency keep their own prices, converted
+ * at that day's rate between the two currencies.
+ */
+
+import { addYears, format } from "date-fns"
+
+import { currencyDecimals } from "./currencies"
+import { toCsv } from "./csv"
+import { getRate } from "./fx"
+import type { ExchangeRates, PriceSeries } from "./models"
+import { COST_BASIS_METHODS, computeHoldings, type CostBasisMethod, type Transaction } from "./portfolio"
+import { getFieldProvenance } from "./provenance"
+
+// Averaging isn't a lot matching method, so tax reports offer the others
+export type TaxLotMethod = Exclude<CostBasisMethod, "average">
+
+export const TAX_LOT_METHODS = COST_BASIS_METHODS.filter((method) => method.value !== "average") as {
+  value: TaxLotMethod
+  label: string
+  description: string
+}[]
+
+export type HoldingTerm = "short" | "long"
+
+export interface TaxLotRow {
+  // The sell
+  transactionId: string
+  coinId: string
+  // Null for coins sold with no buy to match
+  acquired: number | null
+  disposed: number
+  quantity: number
+  proceeds: number
+  costBasis: number
+  gain: number
+  term: HoldingTerm
+  // Converted with today's exchange rate, for lack of a rate on the date
+  estimated: boolean
+}
+
+export interface TaxYearReport {
+  year: number
+  rows: TaxLotRow[]
+  proceeds: number
+  costBasis: number
+  shortTermGain: number
+  longTermGain: number
+  // Sells in the year
+  disposals: number
+}
+
+/**
+ * Long term once held for more than a year
+ */
+export function holdingTerm(acquired: number, disposed: number): HoldingTerm {
+  return disposed > addYears(acquired, 1).getTime() ? "long" : "short"
+}
+
+/**
+ * Latest price at or before `date`, or undefined if the series starts later
+ */
+function priceOn(series: [number, number][], date: number): number | undefined {
+  let price: number | undefined
+  for (const [timestamp, value] of series) {
+    if (timestamp > date) break
+    price = value
+  }
+  return price
+}
+
+/**
+ * Key of a coin's price history in one currency, as passed to restateTransactions
+ */
+export function historyKey(coinId: string, currency: string): string {
+  return `${coinId}:${currency}`
+}
+
+/**
+ * Restate transactions in `currency`, keeping their recorded prices and fees. Those recorded in
+ * another currency are converted at the rate on their date, read off the coin's price in both
+ * currencies in `history`. Without a price in either on that date they take today's exchange
+ * rate, and with a history that was itself converted at today's rate they get it in effect; both
+ * are listed in `estimated`. Currencies with no rate at all are counted one to one and listed in
+ * `unrated`.
+ */
+export function restateTransactions(
+  transactions: Transaction[],
+  currency: string,
+  history: Record<string, PriceSeries>,
+  fx: ExchangeRates,
+): { transactions: Transaction[]; estimated: Set<string>; unrated: Set<string> } {
+  const estimated = new Set<string>()
+  const unrated = new Set<string>()
+
+  const restated = transactions.map((transaction) => {
+    if (transaction.currency === currency) return transaction
+
+    const series = [currency, transaction.currency].map((code) => history[historyKey(transaction.coinId, code)])
+    const [target, source] = series.map((item) => (item ? priceOn(item.prices, transaction.date) : undefined))
+
+    let rate: number
+    if (target && source) {
+      rate = target / source
+      if (series.some((item) => getFieldProvenance(item.provenance, "prices").kind === "estimated")) {
+        estimated.add(transaction.id)
+      }
+    } else {
+      estimated.add(transaction.id)
+      const today = getRate(fx, transaction.currency, currency)
+      if (today === undefined) unrated.add(transaction.currency)
+      rate = today ?? 1
+    }
+    return { ...transaction, price: transaction.price * rate, fee: transaction.fee * rate, currency }
+  })
+
+  return { transactions: restated, estimated, unrated }
+}
+
+/**
+ * Reports per tax year, newest first, for transactions already restated in one currency
+ */
+export function buildTaxReports(
+  transactions: Transaction[],
+  method: TaxLotMethod,
+  estimated: Set<string> = new Set(),
+): TaxYearReport[] {
+  const holdings = computeHoldings(transactions, method, (amount) => amount)
+  const years = new Map<number, TaxYearReport>()
+
+  for (const disposal of holdings.flatMap((holding) => holding.disposals)) {
+    const year = new Date(disposal.date).getFullYear()
+    const report = years.get(year) ?? {
+      year,
+      rows: [],
+      proceeds: 0,
+      costBasis: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      disposals: 0,
+    }
+    years.set(year, report)
+    report.disposals++
+
+    // Proceeds are shared across lots by quantity
+    const unitProceeds = disposal.proceeds / disposal.quantity
+    const lots: { acquired: number | null; quantity: number; cost: number; buyId?: string }[] = [
+      ...disposal.matches.map((match) => ({
+        acquired: match.date,
+        quantity: match.quantity,
+        cost: match.cost,
+        buyId: match.transactionId,
+      })),
+      ...(disposal.unmatched > 1e-12 ? [{ acquired: null, quantity: disposal.unmatched, cost: 0 }] : []),
+    ]
+
+    for (const lot of lots) {
+      const proceeds = unitProceeds * lot.quantity
+      const term = lot.acquired === null ? "short" : holdingTerm(lot.acquired, disposal.date)
+      const row: TaxLotRow = {
+        transactionId: disposal.transactionId,
+        coinId: disposal.coinId,
+        acquired: lot.acquired,
+        disposed: disposal.date,
+        quantity: lot.quantity,
+        proceeds,
+        costBasis: lot.cost,
+        gain: proceeds - lot.cost,
+        term,
+        estimated: estimated.has(disposal.transactionId) || (!!lot.buyId && estimated.has(lot.buyId)),
+      }
+      report.rows.push(row)
+      report.proceeds += row.proceeds
+      report.costBasis += row.costBasis
+      if (term === "long") report.longTermGain += row.gain
+      else report.shortTermGain += row.gain
+    }
+  }
+
+  for (const report of years.values()) {
+    report.rows.sort((a, b) => a.disposed - b.disposed || (a.acquired ?? 0) - (b.acquired ?? 0))
+  }
+  return [...years.values()].sort((a, b) => b.year - a.year)
+}
+
+/**
+ * One line per lot, in the column order of the usual disposal schedules, with amounts to
+ * the decimals of `currency`
+ */
+export function taxReportCsv(report: TaxYearReport, currency: string, coinLabel: (id: string) => string): string {
+  const amount = (value: number) => value.toFixed(currencyDecimals(currency))
+  const day = (date: number) => format(date, "yyyy-MM-dd")
+  const quantity = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 8, useGrouping: false })
+
+  return toCsv([
+    ["Description", "Date acquired", "Date sold", "Proceeds", "Cost basis", "Gain or loss", "Term", "Estimated"],
+    ...report.rows.map((row) => [
+      `${quantity(row.quantity)} ${coinLabel(row.coinId)}`,
+      row.acquired === null ? "Unknown" : day(row.acquired),
+      day(row.disposed),
+      amount(row.proceeds),
+      amount(row.costBasis),
+      amount(row.gain),
+      row.term === "long" ? "Long term" : "Short term",
+      row.estimated ? "Yes" : "No",
+    ]),
+  ])
+}
@@ -0,0 +1,516 @@
+/**
+ * Transaction import
+ * Turns exchange CSV exports into portfolio transactions. Each format has its own
+ * parser producing rows keyed by ticker symbol; tickers are mapped to coin IDs
+ * afterwards, so unknown ones can be resolved by search or by hand before importing.
+ */
+
+import { SYMBOL_TO_ID_MAPPING } from "./api-config"
+import { isQuoteCurrency } from "./currencies"
+import { parseCsv } from "./csv"
+import type { NewTransaction, Transaction, TransactionType } from "./portfolio"
+
+export type ImportFormat = "binance" | "coinbase" | "kraken" | "generic"
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string; description: string }[] = [
+  { value: "binance", label: "Binance", description: "Spot trade history export" },
+  { value: "coinbase", label: "Coinbase", description: "Transaction history report" },
+  { value: "kraken", label: "Kraken", description: "Ledgers export" },
+  { value: "generic", label: "Other", description: "Any CSV, with its columns mapped by hand" },
+]
+
+export type GenericField = "date" | "type" | "symbol" | "quantity" | "price" | "fee" | "currency"
+
+// Column index per field
+export type ColumnMapping = Partial<Record<GenericField, number>>
+
+export const GENERIC_FIELDS: { field: GenericField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: "date", label: "Date", required: true, aliases: ["date", "time", "timestamp", "datetime"] },
+  { field: "type", label: "Buy / sell", required: false, aliases: ["type", "side", "action", "direction"] },
+  { field: "symbol", label: "Coin", required: true, aliases: ["symbol", "asset", "coin", "ticker", "currency pair"] },
+  { field: "quantity", label: "Quantity", required: true, aliases: ["quantity", "qty", "amount", "size", "volume"] },
+  { field: "price", label: "Price", required: true, aliases: ["price", "rate", "unit price"] },
+  { field: "fee", label: "Fee", required: false, aliases: ["fee", "fees", "commission"] },
+  { field: "currency", label: "Currency", required: false, aliases: ["currency", "quote", "fiat"] },
+]
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportFormatError"
+  }
+}
+
+export interface ParsedRow {
+  // 1-based position among the file's data rows
+  row: number
+  symbol: string
+  type: TransactionType
+  quantity: number
+  price: number
+  fee: number
+  currency: string
+  date: number
+  externalId?: string
+  errors: string[]
+  warnings: string[]
+}
+
+export interface SkippedRow {
+  row: number
+  reason: string
+}
+
+export interface ParseResult {
+  format: ImportFormat
+  rows: ParsedRow[]
+  skipped: SkippedRow[]
+}
+
+// Stablecoins are priced as the currency they track
+const STABLECOINS: Record<string, string> = {
+  USDT: "usd",
+  USDC: "usd",
+  BUSD: "usd",
+  FDUSD: "usd",
+  TUSD: "usd",
+  DAI: "usd",
+  EURC: "eur",
+}
+
+// Quote assets, longest first, for splitting pairs such as "ETHUSDT"
+const PAIR_QUOTES = [
+  "FDUSD", "USDT", "USDC", "BUSD", "TUSD", "EURC", "DAI", "EUR", "GBP", "TRY", "BRL", "AUD", "BTC", "ETH",
+]
+
+/**
+ * Currency an asset can be priced in, following stablecoins to the currency they track
+ */
+function quoteCurrencyOf(asset: string): string | undefined {
+  const code = asset.toUpperCase()
+  if (STABLECOINS[code]) return STABLECOINS[code]
+  return isQuoteCurrency(code) ? code.toLowerCase() : undefined
+}
+
+/**
+ * Numbers as exchanges write them, e.g. "1,234.50", "$12.00", "12.00 EUR" or "-0.5"
+ */
+export function parseNumber(value: string | undefined): number {
+  // Separators and symbols go; letters stay so a currency code isn't read as an exponent
+  const cleaned = (value ?? "").replace(/[^\w.+-]/g, "")
+  const match = cleaned.match(/^[a-z]*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)[a-z]*$/i)
+  return match ? Number(match[1]) : NaN
+}
+
+/**
+ * An amount with its asset appended, as Binance writes them, e.g. "0.0100000000BTC"
+ */
+function splitAmount(value: string): { amount: number; asset: string } {
+  const match = value.trim().match(/^(-?[\d.,]+(?:e-?\d+)?)\s*([A-Za-z0-9]*)$/)
+  return match ? { amount: parseNumber(match[1]), asset: match[2].toUpperCase() } : { amount: NaN, asset: "" }
+}
+
+/**
+ * Dates in ISO form, "YYYY-MM-DD HH:MM:SS" (read as UTC, as exchanges export them)
+ * or Unix time in seconds or milliseconds
+ */
+export function parseDate(value: string | undefined): number {
+  const text = (value ?? "").trim()
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = Number(text)
+    return number > 1e12 ? number : number * 1000
+  }
+
+  const match = text.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(UTC|Z|[+-]\d{2}:?\d{2})?$/i)
+  if (match) {
+    const zone = !match[3] || /^utc$/i.test(match[3]) ? "Z" : match[3]
+    return Date.parse(`${match[1]}T${match[2]}${zone}`)
+  }
+  return Date.parse(text)
+}
+
+function validate(row: ParsedRow): ParsedRow {
+  if (!row.symbol) row.errors.push("Missing coin")
+  if (!Number.isFinite(row.date)) row.errors.push("Unreadable date")
+  else if (row.date > Date.now()) row.errors.push("Date is in the future")
+  if (!(row.quantity > 0)) row.errors.push("Quantity must be more than zero")
+  if (!(row.price >= 0)) row.errors.push("Unreadable price")
+  if (!(row.fee >= 0)) row.errors.push("Unreadable fee")
+  if (!isQuoteCurrency(row.currency)) row.errors.push(`Prices in ${row.currency.toUpperCase()} are not supported`)
+  return row
+}
+
+function emptyRow(row: number): ParsedRow {
+  return {
+    row,
+    symbol: "",
+    type: "buy",
+    quantity: NaN,
+    price: NaN,
+    fee: 0,
+    currency: "",
+    date: NaN,
+    errors: [],
+    warnings: [],
+  }
+}
+
+/**
+ * Look up columns by header name, case-insensitively
+ */
+function columns(headers: string[]) {
+  const names = headers.map((header) => header.trim().toLowerCase())
+  return (...candidates: string[]) => {
+    for (const candidate of candidates) {
+      const index = names.indexOf(candidate.toLowerCase())
+      if (index !== -1) return index
+    }
+    return -1
+  }
+}
+
+function requireColumns(format: string, found: Record<string, number>) {
+  const missing = Object.entries(found)
+    .filter(([, index]) => index === -1)
+    .map(([name]) => name)
+  if (missing.length > 0) {
+    throw new ImportFormatError(`Not a ${format} export: missing ${missing.join(", ")} column(s)`)
+  }
+}
+
+/**
+ * Binance spot trade history: one row per fill, on a pair such as "BTCUSDT"
+ */
+function parseBinance(rows: string[][]): ParseResult {
+  const find = columns(rows[0])
+  const index = {
+    date: find("Date(UTC)", "Date"),
+    pair: find("Pair", "Market"),
+    side: find("Side", "Type"),
+    price: find("Price"),
+    // Newer exports call the traded quantity "Executed" and the total "Amount"
+    quantity: find("Executed") !== -1 ? find("Executed") : find("Amount"),
+    fee: find("Fee"),
+  }
+  requireColumns("Binance", index)
+  const feeCoin = find("Fee Coin")
+
+  const parsed = rows.slice(1).map((cells, position) => {
+    const row = emptyRow(position + 1)
+    const pair = cells[index.pair].trim().toUpperCase().replace(/[-/_]/g, "")
+    const executed = splitAmount(cells[index.quantity])
+    const base = executed.asset && pair.startsWith(executed.asset) ? executed.asset : undefined
+    const quote = base ? pair.slice(base.length) : PAIR_QUOTES.find((code) => pair.endsWith(code) && code !== pair)
+    const symbol = base ?? (quote ? pair.slice(0, -quote.length) : pair)
+
+    row.symbol = symbol
+    row.type = /sell/i.test(cells[index.side]) ? "sell" : "buy"
+    row.quantity = executed.amount
+    row.price = parseNumber(cells[index.price])
+    row.date = parseDate(cells[index.date])
+    row.currency = quote ? (quoteCurrencyOf(quote) ?? quote.toLowerCase()) : ""
+    if (!quote) row.errors.push(`Can't tell the quote currency of ${pair}`)
+    else if (STABLECOINS[quote]) row.warnings.push(`${quote} priced as ${STABLECOINS[quote].toUpperCase()}`)
+
+    const fee = splitAmount(cells[index.fee])
+    const feeAsset = fee.asset || cells[feeCoin]?.trim().toUpperCase() || ""
+    if (!fee.amount) {
+      row.fee = 0
+    } else if (feeAsset === quote || !feeAsset) {
+      row.fee = fee.amount
+    } else if (feeAsset === symbol) {
+      // Fees taken in the coin itself are valued at the trade price
+      row.fee = fee.amount * row.price
+    } else {
+      row.fee = 0
+      row.warnings.push(`Fee of ${fee.amount} ${feeAsset} not counted`)
+    }
+
+    return validate(row)
+  })
+
+  return { format: "binance", rows: parsed, skipped: [] }
+}
+
+/**
+ * Coinbase transaction history report, which starts with a few lines of preamble
+ */
+function parseCoinbase(rows: string[][]): ParseResult {
+  const start = rows.findIndex((cells) => {
+    const names = cells.map((cell) => cell.trim())
+    return names.includes("Timestamp") && names.includes("Transaction Type")
+  })
+  if (start === -1) throw new ImportFormatError("Not a Coinbase report: no Timestamp and Transaction Type header")
+
+  const find = columns(rows[start])
+  const index = {
+    date: find("Timestamp"),
+    type: find("Transaction Type"),
+    asset: find("Asset"),
+    quantity: find("Quantity Transacted"),
+    currency: find("Price Currency", "Spot Price Currency"),
+    price: find("Price at Transaction", "Spot Price at Transaction"),
+    fee: find("Fees and/or Spread", "Fees"),
+  }
+  requireColumns("Coinbase", index)
+  const id = find("ID")
+
+  const parsed: ParsedRow[] = []
+  const skipped: SkippedRow[] = []
+  rows.slice(start + 1).forEach((cells, position) => {
+    const kind = cells[index.type]?.trim() ?? ""
+    const type = /\bsell\b/i.test(kind) ? "sell" : /\bbuy\b/i.test(kind) ? "buy" : undefined
+    if (!type) {
+      skipped.push({ row: position + 1, reason: `${kind || "Unknown"} is not a buy or sell` })
+      return
+    }
+
+    const row = emptyRow(position + 1)
+    row.symbol = cells[index.asset].trim().toUpperCase()
+    row.type = type
+    row.quantity = Math.abs(parseNumber(cells[index.quantity]))
+    row.price = parseNumber(cells[index.price])
+    row.fee = Math.abs(parseNumber(cells[index.fee]) || 0)
+    row.currency = cells[index.currency].trim().toLowerCase()
+    row.date = parseDate(cells[index.date])
+    if (id !== -1 && cells[id]?.trim()) row.externalId = cells[id].trim()
+    parsed.push(validate(row))
+  })
+
+  return { format: "coinbase", rows: parsed, skipped }
+}
+
+/**
+ * Kraken asset codes to common tickers, e.g. "XXBT" to "BTC" and "ZEUR" to "EUR".
+ * Staked and opt-in rewards balances ("DOT.S", "ETH2.S") count as the asset itself.
+ */
+function krakenAsset(code: string): string {
+  const asset = code.trim().toUpperCase().split(".")[0].replace(/^ETH2$/, "ETH")
+  const renamed: Record<string, string> = { XXBT: "BTC", XBT: "BTC", XXDG: "DOGE", XDG: "DOGE" }
+  if (renamed[asset]) return renamed[asset]
+  return /^[XZ][A-Z]{3}$/.test(asset) ? asset.slice(1) : asset
+}
+
+/**
+ * Kraken ledgers: a trade is two entries sharing a refid, one leg per asset
+ */
+function parseKraken(rows: string[][]): ParseResult {
+  const find = columns(rows[0])
+  const index = {
+    refid: find("refid"),
+    time: find("time"),
+    type: find("type"),
+    asset: find("asset"),
+    amount: find("amount"),
+    fee: find("fee"),
+  }
+  requireColumns("Kraken", index)
+
+  const trades = new Map<string, { row: number; cells: string[] }[]>()
+  const skipped: SkippedRow[] = []
+  rows.slice(1).forEach((cells, position) => {
+    const type = cells[index.type]?.trim().toLowerCase()
+    if (type === "trade" || type === "spend" || type === "receive") {
+      const refid = cells[index.refid].trim()
+      trades.set(refid, [...(trades.get(refid) ?? []), { row: position + 1, cells }])
+    } else {
+      skipped.push({ row: position + 1, reason: `${type || "Unknown"} entries are not trades` })
+    }
+  })
+
+  // Fiat and stablecoins make the better quote side, then BTC, then ETH
+  const quoteRank = (asset: string) => {
+    const currency = quoteCurrencyOf(asset)
+    if (!currency) return 0
+    return currency === "btc" ? 2 : currency === "eth" ? 1 : 3
+  }
+
+  const parsed = [...trades.entries()].map(([refid, legs]) => {
+    const row = emptyRow(legs[0].row)
+    row.externalId = refid
+    if (legs.length !== 2) {
+      row.errors.push(`Expected two ledger entries for trade ${refid}, found ${legs.length}`)
+      return row
+    }
+
+    const [quoteLeg, baseLeg] = [...legs].sort(
+      (a, b) => quoteRank(krakenAsset(b.cells[index.asset])) - quoteRank(krakenAsset(a.cells[index.asset])),
+    )
+    const quote = krakenAsset(quoteLeg.cells[index.asset])
+    const amount = parseNumber(baseLeg.cells[index.amount])
+    const cost = Math.abs(parseNumber(quoteLeg.cells[index.amount]))
+
+    row.symbol = krakenAsset(baseLeg.cells[index.asset])
+    row.type = amount < 0 ? "sell" : "buy"
+    row.quantity = Math.abs(amount)
+    row.price = row.quantity > 0 ? cost / row.quantity : NaN
+    row.currency = quoteCurrencyOf(quote) ?? quote.toLowerCase()
+    // Fees on the coin's own leg are valued at the trade price
+    const fees = [quoteLeg, baseLeg].map(({ cells }) => parseNumber(cells[index.fee]) || 0)
+    row.fee = fees[0] + fees[1] * row.price
+    row.date = parseDate(baseLeg.cells[index.time])
+    if (STABLECOINS[quote]) row.warnings.push(`${quote} priced as ${STABLECOINS[quote].toUpperCase()}`)
+    return validate(row)
+  })
+
+  return { format: "kraken", rows: parsed, skipped }
+}
+
+/**
+ * Columns picked by header name, as a starting point for mapping them by hand
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const names = headers.map((header) => header.trim().toLowerCase())
+  const mapping: ColumnMapping = {}
+  for (const { field, aliases } of GENERIC_FIELDS) {
+    const index = names.findIndex((name) => aliases.includes(name))
+    if (index !== -1) mapping[field] = index
+  }
+  return mapping
+}
+
+/**
+ * Any CSV with one transaction per row, read through a column mapping
+ */
+function parseGeneric(rows: string[][], mapping: ColumnMapping, currency: string): ParseResult {
+  const missing = GENERIC_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined)
+  if (missing.length > 0) {
+    throw new ImportFormatError(`Map a column to ${missing.map(({ label }) => label).join(", ")}`)
+  }
+
+  const cell = (cells: string[], field: GenericField) => {
+    const column = mapping[field]
+    return column === undefined ? undefined : cells[column]?.trim()
+  }
+
+  const parsed: ParsedRow[] = []
+  const skipped: SkippedRow[] = []
+  rows.slice(1).forEach((cells, position) => {
+    // Without a type column every row is a buy
+    const kind = mapping.type === undefined ? "buy" : (cell(cells, "type") ?? "")
+    const type = kind.toLowerCase()
+    if (type !== "buy" && type !== "sell") {
+      skipped.push({ row: position + 1, reason: `${kind || "Unknown"} is not a buy or sell` })
+      return
+    }
+
+    const row = emptyRow(position + 1)
+    row.symbol = (cell(cells, "symbol") ?? "").toUpperCase()
+    row.type = type
+    row.quantity = Math.abs(parseNumber(cell(cells, "quantity")))
+    row.price = parseNumber(cell(cells, "price"))
+    row.fee = mapping.fee === undefined ? 0 : Math.abs(parseNumber(cell(cells, "fee")) || 0)
+    const code = cell(cells, "currency") || currency
+    row.currency = quoteCurrencyOf(code) ?? code.toLowerCase()
+    row.date = parseDate(cell(cells, "date"))
+    parsed.push(validate(row))
+  })
+
+  return { format: "generic", rows: parsed, skipped }
+}
+
+/**
+ * Read a CSV's rows, e.g. to show its headers for mapping
+ */
+export function readCsv(text: string): string[][] {
+  const rows = parseCsv(text)
+  if (rows.length < 2) throw new ImportFormatError("The file has no rows to import")
+  // Padded to the widest row, so short rows read as empty cells
+  const width = Math.max(...rows.map((cells) => cells.length))
+  return rows.map((cells) => [...cells, ...Array<string>(width - cells.length).fill("")])
+}
+
+/**
+ * Recognise an export by its header
+ */
+export function detectFormat(rows: string[][]): ImportFormat {
+  const header = rows[0].map((cell) => cell.trim().toLowerCase())
+  if (header.includes("date(utc)") && (header.includes("pair") || header.includes("market"))) return "binance"
+  if (header.includes("refid") && header.includes("asset") && header.includes("amount")) return "kraken"
+  const preamble = rows.slice(0, 10).map((cells) => cells.map((cell) => cell.trim()))
+  if (preamble.some((cells) => cells.includes("Timestamp") && cells.includes("Transaction Type"))) return "coinbase"
+  return "generic"
+}
+
+export function parseImport(
+  rows: string[][],
+  format: ImportFormat,
+  options: { mapping?: ColumnMapping; currency?: string } = {},
+): ParseResult {
+  switch (format) {
+    case "binance":
+      return parseBinance(rows)
+    case "coinbase":
+      return parseCoinbase(rows)
+    case "kraken":
+      return parseKraken(rows)
+    case "generic":
+      return parseGeneric(rows, options.mapping ?? guessMapping(rows[0]), options.currency ?? "usd")
+  }
+}
+
+/**
+ * Coin ID for a ticker from the built-in table, if it's there
+ */
+export function knownCoinId(symbol: string): string | undefined {
+  return SYMBOL_TO_ID_MAPPING[symbol.toUpperCase()]
+}
+
+export type CandidateStatus = "ready" | "duplicate" | "unmapped" | "invalid"
+
+export interface ImportCandidate {
+  row: ParsedRow
+  status: CandidateStatus
+  transaction: NewTransaction | null
+}
+
+function fingerprint(transaction: Pick<Transaction, "coinId" | "type" | "date" | "quantity" | "price">): string {
+  // Rounded, so a re-import of the same trade matches despite float formatting
+  return [
+    transaction.coinId,
+    transaction.type,
+    Math.round(transaction.date / 1000),
+    transaction.quantity.toPrecision(10),
+    transaction.price.toPrecision(10),
+  ].join("|")
+}
+
+/**
+ * Attach coin IDs to parsed rows and mark what can be imported. Rows already in the
+ * portfolio, by exchange ID or by coin, side, time, quantity and price, are duplicates.
+ */
+export function prepareImport(
+  result: ParseResult,
+  coinIds: Record<string, string | undefined>,
+  existing: Transaction[],
+): ImportCandidate[] {
+  const source = result.format
+  const externalIds = new Set(
+    existing.filter((transaction) => transaction.externalId).map((item) => `${item.source}|${item.externalId}`),
+  )
+  const fingerprints = new Set(existing.map(fingerprint))
+
+  return result.rows.map((row) => {
+    if (row.errors.length > 0) return { row, status: "invalid", transaction: null }
+
+    const coinId = coinIds[row.symbol]
+    if (!coinId) return { row, status: "unmapped", transaction: null }
+
+    const transaction: NewTransaction = {
+      coinId,
+      type: row.type,
+      quantity: row.quantity,
+      price: row.price,
+      fee: row.fee,
+      currency: row.currency,
+      date: row.date,
+      source,
+      ...(row.externalId ? { externalId: row.externalId } : {}),
+    }
+    const duplicate =
+      (row.externalId && externalIds.has(`${source}|${row.externalId}`)) || fingerprints.has(fingerprint(transaction))
+    if (row.externalId) externalIds.add(`${source}|${row.externalId}`)
+
+    return { row, status: duplicate ? "duplicate" : "ready", transaction }
+  })
+}